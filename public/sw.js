@@ -0,0 +1,93 @@
+/**
+ * Service worker
+ * Keeps the app and its hand tracking assets cached so the game starts
+ * without a network after the first visit: installing precaches the app
+ * shell, the scripts and styles it links, and every file in the MediaPipe
+ * asset manifest. MediaPipe assets are served
+ * cache-first (the app checks them against their manifest and asks for a
+ * fresh copy with `cache: 'reload'` if one is off); everything else on this
+ * origin goes to the network first and falls back to the cache.
+ * The cache is named after the build that registered the worker (the
+ * `build` query parameter), so a new deploy starts from an empty cache.
+ */
+
+const BUILD_ID = new URL(self.location.href).searchParams.get('build') ?? 'dev'
+const CACHE_NAME = `frootninja-${BUILD_ID}`
+const TRACKING_BASE = new URL('mediapipe/', self.registration.scope)
+const TRACKING_ASSETS = TRACKING_BASE.pathname
+const MANIFEST_FILE = 'manifest.json'
+
+// Same-origin scripts, styles and icons the app shell links to
+const shellAssets = (html) =>
+  [...html.matchAll(/(?:src|href)="([^"]+)"/g)]
+    .map(([, path]) => new URL(path, self.registration.scope))
+    .filter((url) => url.origin === self.location.origin)
+    .map((url) => url.href)
+
+const precache = async () => {
+  const cache = await caches.open(CACHE_NAME)
+  const scope = self.registration.scope
+
+  const shell = await fetch(scope, { cache: 'reload' })
+  if (!shell.ok) throw new Error(`App shell returned HTTP ${shell.status}`)
+  await cache.put(scope, shell.clone())
+
+  const manifestResponse = await fetch(new URL(MANIFEST_FILE, TRACKING_BASE), { cache: 'no-cache' })
+  if (!manifestResponse.ok) throw new Error(`MediaPipe asset manifest returned HTTP ${manifestResponse.status}`)
+  const { files } = await manifestResponse.json()
+  const trackingAssets = Object.keys(files).map((file) => new URL(file, TRACKING_BASE).href)
+
+  await cache.addAll([...shellAssets(await shell.text()), ...trackingAssets])
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precache().then(() => self.skipWaiting()))
+})
+
+// Drop caches from older versions of this worker
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+const isTrackingAsset = (url) => url.pathname.startsWith(TRACKING_ASSETS) && !url.pathname.endsWith(MANIFEST_FILE)
+
+const fromNetwork = async (request) => {
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+const fromCache = async (request) => {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  // Every route is the single-page app
+  if (request.mode === 'navigate') return caches.match(self.registration.scope)
+  return undefined
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+
+  if (isTrackingAsset(url) && request.cache !== 'reload') {
+    event.respondWith(caches.match(request).then((cached) => cached ?? fromNetwork(request)))
+    return
+  }
+
+  event.respondWith(
+    fromNetwork(request).catch(async (error) => {
+      const cached = await fromCache(request)
+      if (cached) return cached
+      throw error
+    }),
+  )
+})
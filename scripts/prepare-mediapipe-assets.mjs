@@ -0,0 +1,81 @@
+/**
+ * Puts the MediaPipe hand tracking assets in public/mediapipe/ so the app can
+ * serve them itself (offline, or behind a proxy that blocks the CDNs):
+ * the WASM runtime is copied from node_modules, the hand landmark model is
+ * downloaded once, and a manifest records a SHA-256 for every file. Vite
+ * builds the manifest into the app (restart the dev server after re-running
+ * this) so it can check what it loads.
+ *
+ * Usage: node scripts/prepare-mediapipe-assets.mjs [--strict]
+ *   --strict   fail if the model can't be fetched (used for builds)
+ *   HAND_MODEL_URL=...   download the model from a mirror instead
+ */
+
+import { createHash } from 'node:crypto'
+import { copyFile, mkdir, readFile, writeFile, access } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+const packageDir = join(root, 'node_modules', '@mediapipe', 'tasks-vision')
+const outDir = join(root, 'public', 'mediapipe')
+
+const WASM_FILES = [
+  'vision_wasm_internal.js',
+  'vision_wasm_internal.wasm',
+  'vision_wasm_nosimd_internal.js',
+  'vision_wasm_nosimd_internal.wasm',
+]
+const MODEL_FILE = 'hand_landmarker.task'
+const MODEL_URL =
+  process.env.HAND_MODEL_URL ??
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
+
+const strict = process.argv.includes('--strict')
+
+const exists = (path) =>
+  access(path).then(
+    () => true,
+    () => false,
+  )
+
+const sha256 = async (path) => `sha256-${createHash('sha256').update(await readFile(path)).digest('base64')}`
+
+const downloadModel = async (target) => {
+  console.log(`[mediapipe-assets] Downloading ${MODEL_URL}`)
+  const response = await fetch(MODEL_URL)
+  if (!response.ok) throw new Error(`HTTP ${response.status}`)
+  await writeFile(target, Buffer.from(await response.arrayBuffer()))
+}
+
+const main = async () => {
+  const { version } = JSON.parse(await readFile(join(packageDir, 'package.json'), 'utf-8'))
+  await mkdir(join(outDir, 'wasm'), { recursive: true })
+
+  const files = {}
+  for (const file of WASM_FILES) {
+    const target = join(outDir, 'wasm', file)
+    await copyFile(join(packageDir, 'wasm', file), target)
+    files[`wasm/${file}`] = await sha256(target)
+  }
+
+  const modelPath = join(outDir, MODEL_FILE)
+  if (!(await exists(modelPath))) {
+    try {
+      await downloadModel(modelPath)
+    } catch (error) {
+      const message = `[mediapipe-assets] Couldn't download the hand model (${error.message}). Place ${MODEL_FILE} in public/mediapipe/ by hand or set HAND_MODEL_URL.`
+      if (strict) throw new Error(message)
+      console.warn(message)
+    }
+  }
+  if (await exists(modelPath)) files[MODEL_FILE] = await sha256(modelPath)
+
+  await writeFile(join(outDir, 'manifest.json'), `${JSON.stringify({ version, files }, null, 2)}\n`)
+  console.log(`[mediapipe-assets] ${Object.keys(files).length} files ready for tasks-vision ${version}`)
+}
+
+main().catch((error) => {
+  console.error(error.message)
+  process.exit(1)
+})
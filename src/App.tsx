@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from 'react'
 import './App.css'
-import { GestureDebugPanel, Playfield } from '@/ui/components'
+import { AudioSettings, GestureDebugPanel, HandCursor, Playfield } from '@/ui/components'
 import { useMultiplayerStore } from '@/state/multiplayerStore'
 import { useGameStore } from '@/state/gameStore'
 import { MultiplayerPlayfield } from '@/ui/components/MultiplayerPlayfield'
@@ -63,12 +63,15 @@ export const App = () => {
             <span className="app-header__icon">🍉</span>
             Frootninja
           </button>
+          <AudioSettings />
         </header>
         
         {/* Multiplayer game */}
         <main className="app-main app-main--panel-closed">
           <MultiplayerPlayfield onExit={handleExitMultiplayer} />
         </main>
+
+        <HandCursor />
       </div>
     )
   }
@@ -86,17 +89,20 @@ export const App = () => {
           <span className="app-header__icon">🍉</span>
           Frootninja
         </button>
-        <button 
-          className="app-header__menu-btn"
-          onClick={() => setIsPanelOpen(!isPanelOpen)}
-          aria-label={isPanelOpen ? 'Close menu' : 'Open menu'}
-        >
-          <span className={`hamburger ${isPanelOpen ? 'hamburger--open' : ''}`}>
-            <span></span>
-            <span></span>
-            <span></span>
-          </span>
-        </button>
+        <div className="app-header__actions">
+          <AudioSettings />
+          <button 
+            className="app-header__menu-btn"
+            onClick={() => setIsPanelOpen(!isPanelOpen)}
+            aria-label={isPanelOpen ? 'Close menu' : 'Open menu'}
+          >
+            <span className={`hamburger ${isPanelOpen ? 'hamburger--open' : ''}`}>
+              <span></span>
+              <span></span>
+              <span></span>
+            </span>
+          </button>
+        </div>
       </header>
       
       {/* Main content */}
@@ -122,6 +128,7 @@ export const App = () => {
       </footer>
       
       <GestureDebugPanel isOpen={isPanelOpen} onToggle={() => setIsPanelOpen(!isPanelOpen)} />
+      <HandCursor />
     </div>
   )
 }
@@ -0,0 +1,377 @@
+/**
+ * Audio Engine
+ * Procedurally synthesized sound effects and music on top of Web Audio,
+ * so there are no sound files to download
+ */
+
+import type { PowerUpKind } from '@/types'
+import { useAudioStore, type AudioSettings } from '@/state/audioStore'
+
+/** Combo counts that get a chime (every Nth fruit in a row) */
+export const COMBO_MILESTONE = 5
+
+// Gesture speeds run from the slice threshold (~1.35) up to ~6 for a fast swipe
+const MIN_SLICE_SPEED = 1
+const MAX_SLICE_SPEED = 6
+
+// Music loop: A minor pentatonic arpeggio over a two-chord bass line
+const MUSIC_STEP_SECONDS = 60 / 112 / 2
+const MUSIC_LOOKAHEAD_SECONDS = 0.2
+const MUSIC_SCHEDULE_MS = 50
+const ARPEGGIO = [57, 60, 64, 67, 69, 67, 64, 60, 55, 59, 62, 67, 69, 67, 62, 59]
+const BASS = [33, 33, 33, 33, 33, 33, 33, 33, 31, 31, 31, 31, 31, 31, 31, 31]
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const midiToFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12)
+
+interface ToneOptions {
+  type?: OscillatorType
+  frequency: number
+  /** Frequency to glide to over the tone's duration */
+  endFrequency?: number
+  duration: number
+  volume: number
+  delay?: number
+  pan?: number
+  destination?: AudioNode
+}
+
+export class AudioEngine {
+  private context: AudioContext | null = null
+  private masterGain: GainNode | null = null
+  private sfxGain: GainNode | null = null
+  private musicGain: GainNode | null = null
+  private noiseBuffer: AudioBuffer | null = null
+  private settings: AudioSettings
+  private musicTimer: number | null = null
+  private musicStep = 0
+  private nextMusicTime = 0
+
+  constructor(settings: AudioSettings) {
+    this.settings = settings
+  }
+
+  /**
+   * Create (or resume) the audio context; browsers only allow this after a user gesture
+   */
+  unlock() {
+    const context = this.getContext()
+    if (context?.state === 'suspended') {
+      context.resume().catch(() => {
+        // Still locked, try again on the next interaction
+      })
+    }
+  }
+
+  applySettings(settings: AudioSettings) {
+    this.settings = settings
+    if (!this.context || !this.masterGain || !this.sfxGain || !this.musicGain) return
+
+    const now = this.context.currentTime
+    this.masterGain.gain.setTargetAtTime(settings.muted ? 0 : settings.masterVolume, now, 0.02)
+    this.sfxGain.gain.setTargetAtTime(settings.sfxVolume, now, 0.02)
+    this.musicGain.gain.setTargetAtTime(settings.musicVolume * 0.35, now, 0.02)
+  }
+
+  /**
+   * Blade swoosh plus a juicy squish. Faster swipes sound higher and brighter;
+   * screenX (0 = left, 1 = right) pans the sound
+   */
+  playSlice(speed: number, screenX: number) {
+    const context = this.getContext()
+    if (!context || !this.sfxGain) return
+
+    const intensity = clamp((speed - MIN_SLICE_SPEED) / (MAX_SLICE_SPEED - MIN_SLICE_SPEED), 0, 1)
+    const pan = clamp(screenX * 2 - 1, -1, 1)
+    const now = context.currentTime
+
+    // Swoosh: band-passed noise sweeping upward
+    const filter = context.createBiquadFilter()
+    filter.type = 'bandpass'
+    filter.Q.value = 1.2
+    filter.frequency.setValueAtTime(800 + intensity * 1200, now)
+    filter.frequency.exponentialRampToValueAtTime(2500 + intensity * 4500, now + 0.12)
+    this.playNoise(filter, 0.16, 0.35 + intensity * 0.25, pan)
+
+    // Squish: short pitched blip
+    const pitch = 1 + intensity * 0.8 + (Math.random() - 0.5) * 0.1
+    this.playTone({
+      type: 'triangle',
+      frequency: 420 * pitch,
+      endFrequency: 160 * pitch,
+      duration: 0.12,
+      volume: 0.25,
+      delay: 0.02,
+      pan,
+    })
+  }
+
+  /**
+   * Low boom with a rumbling noise tail
+   */
+  playExplosion(screenX: number = 0.5) {
+    const context = this.getContext()
+    if (!context || !this.sfxGain) return
+
+    const pan = clamp(screenX * 2 - 1, -1, 1) * 0.6
+    const now = context.currentTime
+
+    const filter = context.createBiquadFilter()
+    filter.type = 'lowpass'
+    filter.frequency.setValueAtTime(3000, now)
+    filter.frequency.exponentialRampToValueAtTime(120, now + 0.8)
+    this.playNoise(filter, 0.9, 0.9, pan)
+
+    this.playTone({ type: 'sine', frequency: 110, endFrequency: 35, duration: 0.6, volume: 0.8, pan })
+  }
+
+  /**
+   * Rising chime on combo milestones; longer combos climb higher
+   */
+  playCombo(combo: number) {
+    if (combo <= 0 || combo % COMBO_MILESTONE !== 0) return
+
+    const level = Math.min(combo / COMBO_MILESTONE - 1, 6)
+    const root = 72 + level * 2
+    const intervals = [0, 4, 7, 12]
+    intervals.forEach((interval, index) => {
+      this.playTone({
+        type: 'sine',
+        frequency: midiToFrequency(root + interval),
+        duration: 0.25,
+        volume: 0.2,
+        delay: index * 0.06,
+      })
+    })
+  }
+
+  /**
+   * Countdown beep; 0 is the "go" beep
+   */
+  playCountdown(count: number) {
+    const isGo = count <= 0
+    this.playTone({
+      type: 'square',
+      frequency: isGo ? 880 : 440,
+      duration: isGo ? 0.4 : 0.15,
+      volume: 0.15,
+    })
+  }
+
+  /**
+   * Short falling jingle when a round ends
+   */
+  playRoundEnd() {
+    const notes = [76, 72, 67, 64]
+    notes.forEach((note, index) => {
+      this.playTone({
+        type: 'triangle',
+        frequency: midiToFrequency(note),
+        duration: index === 3 ? 0.6 : 0.18,
+        volume: 0.25,
+        delay: index * 0.14,
+      })
+    })
+  }
+
+  /**
+   * Rising sweep when the difficulty level goes up
+   */
+  playLevelUp() {
+    const notes = [60, 64, 67, 72, 76]
+    notes.forEach((note, index) => {
+      this.playTone({
+        type: 'triangle',
+        frequency: midiToFrequency(note),
+        duration: index === 4 ? 0.35 : 0.1,
+        volume: 0.2,
+        delay: index * 0.05,
+      })
+    })
+  }
+
+  /**
+   * Cue for a power-up: a falling shimmer for freeze, a fast run for
+   * frenzy, a bright double chime for double points
+   */
+  playPowerUp(kind: PowerUpKind) {
+    if (kind === 'freeze') {
+      this.playTone({ type: 'sine', frequency: 1760, endFrequency: 440, duration: 0.6, volume: 0.15 })
+      this.playTone({ type: 'triangle', frequency: 2637, endFrequency: 660, duration: 0.5, volume: 0.08, delay: 0.05 })
+      return
+    }
+
+    const notes = kind === 'frenzy' ? [67, 71, 74, 79, 83, 86] : [79, 91]
+    notes.forEach((note, index) => {
+      this.playTone({
+        type: kind === 'frenzy' ? 'square' : 'triangle',
+        frequency: midiToFrequency(note),
+        duration: 0.12,
+        volume: kind === 'frenzy' ? 0.08 : 0.2,
+        delay: index * (kind === 'frenzy' ? 0.04 : 0.1),
+      })
+    })
+  }
+
+  /**
+   * Start the background loop (no-op if it's already playing)
+   */
+  startMusic() {
+    const context = this.getContext()
+    if (!context || this.musicTimer !== null) return
+
+    this.musicStep = 0
+    this.nextMusicTime = context.currentTime + 0.05
+    this.musicTimer = window.setInterval(this.scheduleMusic, MUSIC_SCHEDULE_MS)
+    this.scheduleMusic()
+  }
+
+  stopMusic() {
+    if (this.musicTimer !== null) {
+      clearInterval(this.musicTimer)
+      this.musicTimer = null
+    }
+  }
+
+  // Queue every note that starts within the lookahead window
+  private scheduleMusic = () => {
+    const context = this.context
+    if (!context || !this.musicGain) return
+
+    while (this.nextMusicTime < context.currentTime + MUSIC_LOOKAHEAD_SECONDS) {
+      const step = this.musicStep % ARPEGGIO.length
+      const delay = Math.max(0, this.nextMusicTime - context.currentTime)
+      this.playTone({
+        type: 'triangle',
+        frequency: midiToFrequency(ARPEGGIO[step]),
+        duration: MUSIC_STEP_SECONDS * 0.9,
+        volume: 0.25,
+        delay,
+        destination: this.musicGain,
+      })
+      if (step % 4 === 0) {
+        this.playTone({
+          type: 'sine',
+          frequency: midiToFrequency(BASS[step]),
+          duration: MUSIC_STEP_SECONDS * 3.5,
+          volume: 0.5,
+          delay,
+          destination: this.musicGain,
+        })
+      }
+      this.musicStep++
+      this.nextMusicTime += MUSIC_STEP_SECONDS
+    }
+  }
+
+  private getContext(): AudioContext | null {
+    if (this.context) return this.context
+    if (typeof window === 'undefined' || !window.AudioContext) return null
+
+    try {
+      const context = new AudioContext()
+      this.masterGain = context.createGain()
+      this.masterGain.connect(context.destination)
+      this.sfxGain = context.createGain()
+      this.sfxGain.connect(this.masterGain)
+      this.musicGain = context.createGain()
+      this.musicGain.connect(this.masterGain)
+      this.context = context
+      this.applySettings(this.settings)
+      return context
+    } catch (error) {
+      console.error('Failed to create audio context:', error)
+      return null
+    }
+  }
+
+  private getNoiseBuffer(context: AudioContext): AudioBuffer {
+    if (!this.noiseBuffer) {
+      const buffer = context.createBuffer(1, context.sampleRate, context.sampleRate)
+      const data = buffer.getChannelData(0)
+      for (let i = 0; i < data.length; i++) {
+        data[i] = Math.random() * 2 - 1
+      }
+      this.noiseBuffer = buffer
+    }
+    return this.noiseBuffer
+  }
+
+  // Connect a node through an optional stereo panner to the destination bus
+  private route(context: AudioContext, node: AudioNode, pan: number, destination: AudioNode) {
+    if (pan === 0) {
+      node.connect(destination)
+      return
+    }
+    const panner = context.createStereoPanner()
+    panner.pan.value = pan
+    node.connect(panner)
+    panner.connect(destination)
+  }
+
+  private playTone({
+    type = 'sine',
+    frequency,
+    endFrequency,
+    duration,
+    volume,
+    delay = 0,
+    pan = 0,
+    destination,
+  }: ToneOptions) {
+    const context = this.getContext()
+    const bus = destination ?? this.sfxGain
+    if (!context || !bus || this.settings.muted) return
+
+    const start = context.currentTime + delay
+    const oscillator = context.createOscillator()
+    oscillator.type = type
+    oscillator.frequency.setValueAtTime(frequency, start)
+    if (endFrequency) {
+      oscillator.frequency.exponentialRampToValueAtTime(endFrequency, start + duration)
+    }
+
+    const envelope = context.createGain()
+    envelope.gain.setValueAtTime(0.0001, start)
+    envelope.gain.exponentialRampToValueAtTime(volume, start + 0.01)
+    envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration)
+
+    oscillator.connect(envelope)
+    this.route(context, envelope, pan, bus)
+    oscillator.start(start)
+    oscillator.stop(start + duration + 0.05)
+  }
+
+  private playNoise(filter: BiquadFilterNode, duration: number, volume: number, pan: number) {
+    const context = this.context
+    if (!context || !this.sfxGain || this.settings.muted) return
+
+    const start = context.currentTime
+    const source = context.createBufferSource()
+    source.buffer = this.getNoiseBuffer(context)
+
+    const envelope = context.createGain()
+    envelope.gain.setValueAtTime(0.0001, start)
+    envelope.gain.exponentialRampToValueAtTime(volume, start + 0.015)
+    envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration)
+
+    source.connect(filter)
+    filter.connect(envelope)
+    this.route(context, envelope, pan, this.sfxGain)
+    source.start(start)
+    source.stop(start + duration + 0.05)
+  }
+}
+
+/** Shared engine, kept in sync with the persisted audio settings */
+export const audioEngine = new AudioEngine(useAudioStore.getState())
+
+useAudioStore.subscribe((settings) => audioEngine.applySettings(settings))
+
+// The context can only start after the player interacts with the page
+if (typeof window !== 'undefined') {
+  const unlock = () => audioEngine.unlock()
+  window.addEventListener('pointerdown', unlock)
+  window.addEventListener('keydown', unlock)
+}
@@ -1,5 +1,6 @@
 import { createContext } from 'react'
 import type { HandFrame, HandTrackingStatus } from '@/types'
+import type { DetectorKind } from '@/cv/handDetector'
 
 export interface HandTrackerContextValue {
   status: HandTrackingStatus
@@ -8,6 +9,8 @@ export interface HandTrackerContextValue {
   error: string | null
   restart: () => Promise<void>
   maxHands: number
+  /** Worker or main thread; shows in the debug panel so a fallback isn't silent */
+  detectorKind: DetectorKind | null
 }
 
 export const HandTrackerContext = createContext<HandTrackerContextValue | undefined>(
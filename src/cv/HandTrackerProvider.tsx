@@ -2,6 +2,8 @@ import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } fro
 import type { HandFrame, HandTrackingStatus } from '@/types'
 import { createHandTracker, type HandTracker } from '@/cv/handTracker'
 import { HandTrackerContext, type HandTrackerContextValue } from '@/cv/HandTrackerContext'
+import type { DetectorKind } from '@/cv/handDetector'
+import { selectFilterConfig, useTrackingFilterStore } from '@/state/trackingFilterStore'
 
 interface HandTrackerProviderProps {
   children: ReactNode
@@ -19,6 +21,7 @@ export const HandTrackerProvider = ({
   const [status, setStatus] = useState<HandTrackingStatus>('idle')
   const [frame, setFrame] = useState<HandFrame | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [detectorKind, setDetectorKind] = useState<DetectorKind | null>(null)
 
   const ensureTracker = useCallback(() => {
     if (!trackerRef.current) {
@@ -67,6 +70,7 @@ export const HandTrackerProvider = ({
     })
     const unsubscribeStatus = tracker.onStatusChange((nextStatus) => {
       setStatus(nextStatus)
+      setDetectorKind(tracker.getDetectorKind())
       if (nextStatus === 'permission-denied') {
         setError('Camera permission denied')
       }
@@ -80,6 +84,13 @@ export const HandTrackerProvider = ({
     }
   }, [ensureTracker])
 
+  // Keep the landmark filter in step with the debug panel's settings
+  useEffect(() => {
+    const tracker = ensureTracker()
+    tracker.setFilterConfig(selectFilterConfig(useTrackingFilterStore.getState()))
+    return useTrackingFilterStore.subscribe((state) => tracker.setFilterConfig(selectFilterConfig(state)))
+  }, [ensureTracker])
+
 const value = useMemo<HandTrackerContextValue>(
     () => ({
       status,
@@ -88,8 +99,9 @@ const value = useMemo<HandTrackerContextValue>(
       error,
       restart,
       maxHands,
+      detectorKind,
     }),
-    [status, frame, error, assignVideoRef, restart, maxHands],
+    [status, frame, error, assignVideoRef, restart, maxHands, detectorKind],
   )
 
   return (
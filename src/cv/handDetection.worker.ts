@@ -0,0 +1,37 @@
+/**
+ * Hand detection worker
+ * Owns the MediaPipe landmarker off the main thread: takes frames from the
+ * page, runs detection on an OffscreenCanvas and posts the hands back.
+ */
+
+import type { HandLandmarker } from '@mediapipe/tasks-vision'
+import { createLandmarker, toHandPredictions, type DetectionRequest, type DetectionResponse } from './handDetector'
+
+let landmarker: HandLandmarker | undefined
+
+const reply = (message: DetectionResponse) => self.postMessage(message)
+
+self.onmessage = async (event: MessageEvent<DetectionRequest>) => {
+  const message = event.data
+  if (message.type === 'load') {
+    try {
+      landmarker ??= await createLandmarker(message.maxHands, new OffscreenCanvas(1, 1))
+      reply({ type: 'loaded' })
+    } catch (error) {
+      console.error('[handDetection.worker] Failed to load hand landmarker:', error)
+      reply({ type: 'error', message: error instanceof Error ? error.message : 'Failed to load hand tracking' })
+    }
+    return
+  }
+
+  const { image, timestamp } = message
+  try {
+    const hands = landmarker ? toHandPredictions(landmarker.detectForVideo(image, timestamp)) : []
+    reply({ type: 'hands', hands, timestamp })
+  } catch (error) {
+    console.error('[handDetection.worker] Detection failed:', error)
+    reply({ type: 'hands', hands: [], timestamp })
+  } finally {
+    image.close()
+  }
+}
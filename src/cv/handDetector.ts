@@ -0,0 +1,192 @@
+import type { HandPrediction } from '@/types'
+import { HandLandmarker, type HandLandmarkerResult } from '@mediapipe/tasks-vision'
+import { loadHandTrackingAssets } from './mediapipeAssets'
+
+/**
+ * Hand detector
+ * Runs MediaPipe Hands either in a Web Worker (so detection doesn't compete
+ * with rendering) or, where workers can't host it, on the main thread.
+ */
+
+/** Where detection runs */
+export type DetectorKind = 'worker' | 'main-thread'
+
+export interface HandDetector {
+  /** Where detection runs, for diagnostics */
+  readonly kind: DetectorKind
+  load: () => Promise<void>
+  /** Hands in the video's current frame; timestamps must increase */
+  detect: (video: HTMLVideoElement, timestamp: number) => Promise<HandPrediction[]>
+  close: () => void
+}
+
+/** Messages the page sends the detection worker */
+export type DetectionRequest =
+  | { type: 'load'; maxHands: number }
+  | { type: 'detect'; image: ImageBitmap | VideoFrame; timestamp: number }
+
+/** Messages the detection worker sends back */
+export type DetectionResponse =
+  | { type: 'loaded' }
+  | { type: 'hands'; hands: HandPrediction[]; timestamp: number }
+  | { type: 'error'; message: string }
+
+/**
+ * Our hand predictions for a MediaPipe result
+ */
+export function toHandPredictions(result: HandLandmarkerResult): HandPrediction[] {
+  return (
+    result.handednesses?.map((handedness, index) => {
+      const category = handedness[0]
+      const handednessLabel = category?.categoryName === 'Left' ? 'Left' : 'Right'
+
+      const landmarks =
+        result.landmarks?.[index]?.map((landmark) => ({
+          x: landmark.x,
+          y: landmark.y,
+          z: landmark.z ?? 0,
+        })) ?? []
+
+      return {
+        landmarks,
+        handedness: handednessLabel,
+        score: category?.score ?? 0,
+      }
+    }) ?? []
+  )
+}
+
+// The loader is a classic script that declares a global ModuleFactory
+async function importWasmLoader(loaderPath: string) {
+  const loader = await (await fetch(loaderPath)).blob()
+  const moduleUrl = URL.createObjectURL(new Blob([loader, '\nexport default ModuleFactory\n'], { type: 'text/javascript' }))
+  try {
+    const { default: factory } = await import(/* @vite-ignore */ moduleUrl)
+    Object.assign(self, { ModuleFactory: factory })
+  } finally {
+    URL.revokeObjectURL(moduleUrl)
+  }
+}
+
+/**
+ * Load the MediaPipe hand landmarker from the app's own (verified) assets
+ */
+export async function createLandmarker(maxHands: number, canvas?: OffscreenCanvas): Promise<HandLandmarker> {
+  const { fileset, model } = await loadHandTrackingAssets()
+  try {
+    let wasmFileset = fileset
+    if (typeof document === 'undefined') {
+      // In a worker MediaPipe would load its wasm loader with importScripts, which
+      // module workers don't have. Import the loader as a module instead; without
+      // a loader path MediaPipe uses the ModuleFactory it finds on self.
+      await importWasmLoader(fileset.wasmLoaderPath)
+      wasmFileset = { ...fileset, wasmLoaderPath: '' }
+    }
+    return await HandLandmarker.createFromOptions(wasmFileset, {
+      baseOptions: {
+        modelAssetBuffer: model,
+      },
+      runningMode: 'VIDEO',
+      numHands: maxHands,
+      canvas,
+    })
+  } finally {
+    URL.revokeObjectURL(fileset.wasmLoaderPath)
+    URL.revokeObjectURL(fileset.wasmBinaryPath)
+  }
+}
+
+/**
+ * Detector that runs on the main thread, for browsers without OffscreenCanvas in workers
+ */
+export const createMainThreadDetector = (maxHands: number): HandDetector => {
+  let landmarker: HandLandmarker | undefined
+
+  return {
+    kind: 'main-thread',
+    load: async () => {
+      landmarker ??= await createLandmarker(maxHands)
+    },
+    detect: async (video, timestamp) => {
+      if (!landmarker) return []
+      return toHandPredictions(landmarker.detectForVideo(video, timestamp))
+    },
+    close: () => {
+      landmarker?.close()
+      landmarker = undefined
+    },
+  }
+}
+
+/** Whether this browser can run detection in a worker */
+export const canDetectInWorker = (): boolean =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined'
+
+/**
+ * Detector that hands each video frame to a worker. Frames go over as a
+ * VideoFrame where supported (no copy), otherwise as an ImageBitmap.
+ */
+export const createWorkerDetector = (maxHands: number): HandDetector => {
+  let worker: Worker | undefined
+  let loading: Promise<void> | undefined
+  const pending = new Map<number, { resolve: (hands: HandPrediction[]) => void; reject: (error: Error) => void }>()
+
+  const rejectPending = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error))
+    pending.clear()
+  }
+
+  const start = () =>
+    new Promise<void>((resolve, reject) => {
+      // A failed worker is dropped so detect() stops posting frames into it
+      const fail = (error: Error) => {
+        worker?.terminate()
+        worker = undefined
+        reject(error)
+        rejectPending(error)
+      }
+
+      worker = new Worker(new URL('./handDetection.worker.ts', import.meta.url), { type: 'module' })
+      worker.onmessage = (event: MessageEvent<DetectionResponse>) => {
+        const message = event.data
+        if (message.type === 'loaded') {
+          resolve()
+        } else if (message.type === 'hands') {
+          pending.get(message.timestamp)?.resolve(message.hands)
+          pending.delete(message.timestamp)
+        } else {
+          fail(new Error(message.message))
+        }
+      }
+      worker.onerror = (event) => fail(new Error(event.message || 'Hand detection worker failed'))
+      worker.postMessage({ type: 'load', maxHands } satisfies DetectionRequest)
+    })
+
+  return {
+    kind: 'worker',
+    load: () => {
+      loading ??= start()
+      return loading
+    },
+    detect: async (video, timestamp) => {
+      const target = worker
+      if (!target) return []
+      const image = typeof VideoFrame !== 'undefined' ? new VideoFrame(video, { timestamp: timestamp * 1000 }) : await createImageBitmap(video)
+      // Closed while the bitmap was being made
+      if (worker !== target) {
+        image.close()
+        return []
+      }
+      return new Promise<HandPrediction[]>((resolve, reject) => {
+        pending.set(timestamp, { resolve, reject })
+        target.postMessage({ type: 'detect', image, timestamp } satisfies DetectionRequest, [image])
+      })
+    },
+    close: () => {
+      worker?.terminate()
+      worker = undefined
+      loading = undefined
+      rejectPending(new Error('Hand detection worker closed'))
+    },
+  }
+}
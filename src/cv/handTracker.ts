@@ -1,20 +1,20 @@
-import type { HandFrame, HandPrediction, HandTrackingStatus } from '@/types'
+import type { HandFrame, HandTrackingStatus } from '@/types'
+import { createLandmarkFilter, type LandmarkFilterConfig } from './landmarkFilter'
 import {
-  FilesetResolver,
-  HandLandmarker,
-  type HandLandmarkerResult,
-} from '@mediapipe/tasks-vision'
-
-const MODEL_URL =
-  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
-const TASKS_VISION_VERSION = '0.10.22-rc.20250304'
-const WASM_FILES_URL = `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${TASKS_VISION_VERSION}/wasm`
+  canDetectInWorker,
+  createMainThreadDetector,
+  createWorkerDetector,
+  type DetectorKind,
+  type HandDetector,
+} from './handDetector'
 
 export type HandFrameListener = (frame: HandFrame | null) => void
 export type StatusListener = (status: HandTrackingStatus) => void
 
 interface TrackerOptions {
   maxHands?: number
+  /** Landmark smoothing/prediction applied before frames reach subscribers */
+  filter?: Partial<LandmarkFilterConfig>
 }
 
 export interface HandTracker {
@@ -23,11 +23,19 @@ export interface HandTracker {
   subscribe: (listener: HandFrameListener) => () => void
   onStatusChange: (listener: StatusListener) => () => void
   getStatus: () => HandTrackingStatus
+  /** Where detection ended up running; null until the detector has loaded */
+  getDetectorKind: () => DetectorKind | null
+  /** Retune the landmark filter; unset fields use the defaults */
+  setFilterConfig: (config: Partial<LandmarkFilterConfig>) => void
 }
 
 export const createHandTracker = (options: TrackerOptions = {}): HandTracker => {
   const maxHands = options.maxHands ?? 1
-  let landmarker: HandLandmarker | undefined
+  let detector: HandDetector | undefined
+  // A frame is with the detector; newer video frames are skipped until it's back
+  let detecting = false
+  // Bumped on stop so detections still in flight are dropped
+  let generation = 0
   let videoEl: HTMLVideoElement | undefined
   let mediaStream: MediaStream | undefined
   let rafId: number | undefined
@@ -36,6 +44,7 @@ export const createHandTracker = (options: TrackerOptions = {}): HandTracker =>
   let lastFrameTimestamp = performance.now()
   const frameListeners = new Set<HandFrameListener>()
   const statusListeners = new Set<StatusListener>()
+  const landmarkFilter = createLandmarkFilter(options.filter)
 
   const notifyStatus = (next: HandTrackingStatus) => {
     if (status === next) return
@@ -44,7 +53,9 @@ export const createHandTracker = (options: TrackerOptions = {}): HandTracker =>
   }
 
   const emitFrame = (frame: HandFrame | null) => {
-    frameListeners.forEach((listener) => listener(frame))
+    if (!frame) landmarkFilter.reset()
+    const filtered = frame && landmarkFilter.apply(frame)
+    frameListeners.forEach((listener) => listener(filtered))
   }
 
   const cleanupStream = () => {
@@ -59,70 +70,57 @@ export const createHandTracker = (options: TrackerOptions = {}): HandTracker =>
     }
   }
 
-  const convertResultToFrame = (
-    result: HandLandmarkerResult,
-    timestamp: number,
-    fps: number,
-  ): HandFrame => {
-    const hands: HandPrediction[] =
-      result.handednesses?.map((handedness, index) => {
-        const category = handedness[0]
-        const handednessLabel =
-          category?.categoryName === 'Left' ? 'Left' : 'Right'
-
-        const landmarks =
-          result.landmarks?.[index]?.map((landmark) => ({
-            x: landmark.x,
-            y: landmark.y,
-            z: landmark.z ?? 0,
-          })) ?? []
-
-        return {
-          landmarks,
-          handedness: handednessLabel,
-          score: category?.score ?? 0,
-        }
-      }) ?? []
-
-    return {
-      hands,
-      timestamp,
-      fps,
-    }
-  }
-
   const detectionLoop = () => {
-    if (!videoEl || !landmarker) {
+    if (!videoEl || !detector) {
       emitFrame(null)
       return
     }
 
+    // Detection runs at whatever rate it keeps up with; rendering never waits on it
     const hasNewFrame = videoEl.currentTime !== lastVideoTime
-    lastVideoTime = videoEl.currentTime
-
-    if (hasNewFrame) {
+    if (hasNewFrame && !detecting) {
+      lastVideoTime = videoEl.currentTime
+      detecting = true
+      const frameGeneration = generation
       const now = performance.now()
-      const result = landmarker.detectForVideo(videoEl, now)
-      const frameDelta = now - lastFrameTimestamp
-      const fps = Number.isFinite(frameDelta) && frameDelta > 0 ? 1000 / frameDelta : 0
-      lastFrameTimestamp = now
-      emitFrame(convertResultToFrame(result, now, fps))
+      detector
+        .detect(videoEl, now)
+        .then((hands) => {
+          if (frameGeneration !== generation) return
+          const frameDelta = now - lastFrameTimestamp
+          const fps = Number.isFinite(frameDelta) && frameDelta > 0 ? 1000 / frameDelta : 0
+          lastFrameTimestamp = now
+          emitFrame({ hands, timestamp: now, fps })
+        })
+        .catch((error) => {
+          if (frameGeneration === generation) console.error('[handTracker] Detection failed:', error)
+        })
+        .finally(() => {
+          if (frameGeneration === generation) detecting = false
+        })
     }
 
     rafId = requestAnimationFrame(detectionLoop)
   }
 
-  const ensureLandmarker = async () => {
-    if (landmarker) return landmarker
-    const filesetResolver = await FilesetResolver.forVisionTasks(WASM_FILES_URL)
-    landmarker = await HandLandmarker.createFromOptions(filesetResolver, {
-      baseOptions: {
-        modelAssetPath: MODEL_URL,
-      },
-      runningMode: 'VIDEO',
-      numHands: maxHands,
-    })
-    return landmarker
+  // Prefer a worker so detection stays off the render thread
+  const ensureDetector = async () => {
+    if (detector) return detector
+    if (canDetectInWorker()) {
+      const workerDetector = createWorkerDetector(maxHands)
+      try {
+        await workerDetector.load()
+        detector = workerDetector
+        return detector
+      } catch (error) {
+        console.error('[handTracker] Worker detection unavailable, falling back to the main thread:', error)
+        workerDetector.close()
+      }
+    }
+    const mainThreadDetector = createMainThreadDetector(maxHands)
+    await mainThreadDetector.load()
+    detector = mainThreadDetector
+    return detector
   }
 
   const attachCamera = async (video: HTMLVideoElement) => {
@@ -183,7 +181,7 @@ export const createHandTracker = (options: TrackerOptions = {}): HandTracker =>
     notifyStatus('initializing')
     try {
       await attachCamera(video)
-      await ensureLandmarker()
+      await ensureDetector()
       notifyStatus('ready')
       lastVideoTime = -1
       stopLoop()
@@ -207,8 +205,10 @@ export const createHandTracker = (options: TrackerOptions = {}): HandTracker =>
   const stop = () => {
     stopLoop()
     cleanupStream()
-    landmarker?.close()
-    landmarker = undefined
+    generation += 1
+    detecting = false
+    detector?.close()
+    detector = undefined
     notifyStatus('idle')
     emitFrame(null)
   }
@@ -225,6 +225,8 @@ export const createHandTracker = (options: TrackerOptions = {}): HandTracker =>
       return () => statusListeners.delete(listener)
     },
     getStatus: () => status,
+    getDetectorKind: () => detector?.kind ?? null,
+    setFilterConfig: landmarkFilter.setConfig,
   }
 }
 
@@ -1,4 +1,5 @@
 export * from './handTracker'
+export * from './landmarkFilter'
 export * from './HandTrackerProvider'
 export * from './HandTrackerContext'
 export * from './useHandData'
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import type { HandFrame, Handedness } from '@/types'
+import { createLandmarkFilter } from './landmarkFilter'
+
+const FRAME_MS = 33
+
+// A frame with one hand, every landmark at (x, 0.5)
+const frame = (x: number, timestamp: number, handedness: Handedness = 'Right'): HandFrame => ({
+  hands: [{ landmarks: Array.from({ length: 21 }, () => ({ x, y: 0.5, z: 0 })), handedness, score: 1 }],
+  timestamp,
+  fps: 30,
+})
+
+const tipX = (result: HandFrame, hand = 0) => result.hands[hand].landmarks[8].x
+
+describe('createLandmarkFilter', () => {
+  it('passes frames through untouched when disabled', () => {
+    const filter = createLandmarkFilter({ enabled: false })
+    const first = frame(0.5, 0)
+    const jump = frame(0.9, FRAME_MS)
+
+    expect(filter.apply(first)).toBe(first)
+    expect(filter.apply(jump)).toBe(jump)
+  })
+
+  it('stops filtering when turned off later', () => {
+    const filter = createLandmarkFilter()
+    filter.apply(frame(0.5, 0))
+
+    filter.setConfig({ enabled: false })
+    const jump = frame(0.9, FRAME_MS)
+
+    expect(filter.apply(jump)).toBe(jump)
+  })
+
+  it('passes the first frame of a hand through as is', () => {
+    const filter = createLandmarkFilter()
+
+    expect(tipX(filter.apply(frame(0.42, 0)))).toBe(0.42)
+  })
+
+  it('smooths a jump in a still hand', () => {
+    const filter = createLandmarkFilter({ predictionMs: 0 })
+    filter.apply(frame(0.5, 0))
+
+    const x = tipX(filter.apply(frame(0.52, FRAME_MS)))
+
+    expect(x).toBeGreaterThan(0.5)
+    expect(x).toBeLessThan(0.52)
+  })
+
+  it('leads a moving hand along its velocity', () => {
+    const predicting = createLandmarkFilter({ predictionMs: 20 })
+    const lagging = createLandmarkFilter({ predictionMs: 0 })
+    let ahead = 0
+    let behind = 0
+    for (let i = 0; i < 10; i++) {
+      ahead = tipX(predicting.apply(frame(0.1 + i * 0.05, i * FRAME_MS)))
+      behind = tipX(lagging.apply(frame(0.1 + i * 0.05, i * FRAME_MS)))
+    }
+
+    expect(ahead).toBeGreaterThan(behind)
+  })
+
+  it('starts over after a gap in tracking', () => {
+    const filter = createLandmarkFilter()
+    filter.apply(frame(0.5, 0))
+    filter.apply(frame(0.5, FRAME_MS))
+
+    // Past the 250ms gap the old position and velocity no longer apply
+    expect(tipX(filter.apply(frame(0.9, FRAME_MS + 251)))).toBe(0.9)
+  })
+
+  it('keeps filtering across a short gap', () => {
+    const filter = createLandmarkFilter()
+    filter.apply(frame(0.5, 0))
+
+    expect(tipX(filter.apply(frame(0.9, 200)))).not.toBe(0.9)
+  })
+
+  it('starts over for a hand that left the frame and came back', () => {
+    const filter = createLandmarkFilter()
+    filter.apply(frame(0.5, 0))
+    filter.apply({ hands: [], timestamp: FRAME_MS, fps: 30 })
+
+    expect(tipX(filter.apply(frame(0.9, FRAME_MS * 2)))).toBe(0.9)
+  })
+
+  it('starts over on reset', () => {
+    const filter = createLandmarkFilter()
+    filter.apply(frame(0.5, 0))
+
+    filter.reset()
+
+    expect(tipX(filter.apply(frame(0.9, FRAME_MS)))).toBe(0.9)
+  })
+
+  it('filters each hand on its own', () => {
+    const filter = createLandmarkFilter()
+    filter.apply(frame(0.5, 0, 'Left'))
+
+    // The right hand is new, so it isn't pulled towards the left hand's position
+    const left = frame(0.5, FRAME_MS, 'Left')
+    const result = filter.apply({ ...left, hands: [...left.hands, ...frame(0.9, FRAME_MS).hands] })
+
+    expect(tipX(result, 0)).toBe(0.5)
+    expect(tipX(result, 1)).toBe(0.9)
+  })
+})
@@ -0,0 +1,118 @@
+import type { HandFrame, HandLandmark, Handedness } from '@/types'
+
+/**
+ * Landmark filter
+ * Smooths every landmark with a One Euro filter (heavy smoothing when the hand
+ * is still, hardly any when it moves fast) and then pushes it a few ms ahead
+ * along its velocity to make up for the time detection takes.
+ */
+
+export interface LandmarkFilterConfig {
+  enabled: boolean
+  /** Smoothing cutoff (Hz) for a still hand; lower is steadier but laggier */
+  minCutoff: number
+  /** How quickly the cutoff opens up with speed; higher lags less on fast swipes */
+  beta: number
+  /** Cutoff (Hz) for the velocity estimate itself */
+  derivativeCutoff: number
+  /** How far ahead (ms) to extrapolate each landmark; 0 turns prediction off */
+  predictionMs: number
+}
+
+export const DEFAULT_LANDMARK_FILTER: LandmarkFilterConfig = {
+  enabled: true,
+  minCutoff: 1.5,
+  beta: 4,
+  derivativeCutoff: 1,
+  predictionMs: 20,
+}
+
+// Gaps longer than this (ms) mean the hand was lost, so filtering starts over
+const MAX_GAP_MS = 250
+
+const smoothingFactor = (cutoff: number, dtSeconds: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff)
+  return 1 / (1 + tau / dtSeconds)
+}
+
+/** One Euro filter for a single value */
+class OneEuroFilter {
+  private value?: number
+  private velocity = 0
+
+  /**
+   * Filtered value and its filtered velocity (units per second)
+   */
+  filter(raw: number, dtSeconds: number, config: LandmarkFilterConfig): { value: number; velocity: number } {
+    if (this.value === undefined || dtSeconds <= 0) {
+      this.value = raw
+      this.velocity = 0
+      return { value: raw, velocity: 0 }
+    }
+    const rawVelocity = (raw - this.value) / dtSeconds
+    this.velocity += (rawVelocity - this.velocity) * smoothingFactor(config.derivativeCutoff, dtSeconds)
+    const cutoff = config.minCutoff + config.beta * Math.abs(this.velocity)
+    this.value += (raw - this.value) * smoothingFactor(cutoff, dtSeconds)
+    return { value: this.value, velocity: this.velocity }
+  }
+}
+
+interface HandFilters {
+  /** x, y and z filters for each landmark */
+  axes: OneEuroFilter[][]
+  lastTimestamp: number
+}
+
+export interface LandmarkFilter {
+  apply: (frame: HandFrame) => HandFrame
+  setConfig: (config: Partial<LandmarkFilterConfig>) => void
+  reset: () => void
+}
+
+export const createLandmarkFilter = (config: Partial<LandmarkFilterConfig> = {}): LandmarkFilter => {
+  let settings: LandmarkFilterConfig = { ...DEFAULT_LANDMARK_FILTER, ...config }
+  const hands = new Map<Handedness, HandFilters>()
+
+  const filterLandmarks = (filters: HandFilters, landmarks: HandLandmark[], dtSeconds: number) => {
+    const lead = settings.predictionMs / 1000
+    return landmarks.map((landmark, index) => {
+      filters.axes[index] ??= [new OneEuroFilter(), new OneEuroFilter(), new OneEuroFilter()]
+      const [x, y, z] = filters.axes[index].map((axis, axisIndex) => {
+        const { value, velocity } = axis.filter([landmark.x, landmark.y, landmark.z][axisIndex], dtSeconds, settings)
+        return value + velocity * lead
+      })
+      return { x, y, z }
+    })
+  }
+
+  return {
+    apply: (frame) => {
+      if (!settings.enabled) return frame
+
+      // Hands that dropped out of view start fresh when they come back
+      const present = new Set(frame.hands.map((hand) => hand.handedness))
+      hands.forEach((_, handedness) => {
+        if (!present.has(handedness)) hands.delete(handedness)
+      })
+
+      return {
+        ...frame,
+        hands: frame.hands.map((hand) => {
+          let filters = hands.get(hand.handedness)
+          if (!filters || frame.timestamp - filters.lastTimestamp > MAX_GAP_MS) {
+            filters = { axes: [], lastTimestamp: frame.timestamp }
+            hands.set(hand.handedness, filters)
+          }
+          const dtSeconds = (frame.timestamp - filters.lastTimestamp) / 1000
+          filters.lastTimestamp = frame.timestamp
+          return { ...hand, landmarks: filterLandmarks(filters, hand.landmarks, dtSeconds) }
+        }),
+      }
+    },
+    setConfig: (next) => {
+      settings = { ...DEFAULT_LANDMARK_FILTER, ...next }
+      hands.clear()
+    },
+    reset: () => hands.clear(),
+  }
+}
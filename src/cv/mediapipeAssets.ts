@@ -0,0 +1,92 @@
+import { FilesetResolver } from '@mediapipe/tasks-vision'
+
+/**
+ * MediaPipe assets
+ * The hand model and WASM runtime are served with the app (see
+ * scripts/prepare-mediapipe-assets.mjs) and checked against the hashes the
+ * build embeds before MediaPipe gets them, so tracking starts offline and a
+ * damaged cache or a meddling proxy can't slip a bad file through.
+ */
+
+const MODEL_FILE = 'hand_landmarker.task'
+
+interface AssetManifest {
+  /** @mediapipe/tasks-vision version the WASM came from */
+  version: string
+  /** SHA-256 of each file, keyed by its path under the asset base */
+  files: Record<string, string>
+}
+
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>
+
+export interface HandTrackingAssets {
+  /** Object URLs for the verified WASM loader and binary; revoke once loaded */
+  fileset: WasmFileset
+  model: Uint8Array
+}
+
+/**
+ * Where the assets are served from: `mediapipe/` in the app by default, or
+ * VITE_MEDIAPIPE_ASSET_BASE (e.g. an internal mirror)
+ */
+export function getAssetBase(): string {
+  const base = import.meta.env.VITE_MEDIAPIPE_ASSET_BASE || `${import.meta.env.BASE_URL}mediapipe/`
+  return new URL(base.endsWith('/') ? base : `${base}/`, self.location.href).href
+}
+
+/**
+ * The asset manifest embedded at build time. A manifest fetched from the asset
+ * base would come from whoever serves the files it's meant to check.
+ */
+const getManifest = (): AssetManifest => {
+  const embedded: string | undefined = import.meta.env.VITE_MEDIAPIPE_MANIFEST
+  if (!embedded) throw new Error('No MediaPipe asset manifest was built in; run `npm run assets` and rebuild')
+  return JSON.parse(embedded) as AssetManifest
+}
+
+const digest = async (bytes: ArrayBuffer): Promise<string> => {
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes))
+  return `sha256-${btoa(String.fromCharCode(...hash))}`
+}
+
+const fetchBytes = async (url: string, cache: RequestCache): Promise<ArrayBuffer> => {
+  const response = await fetch(url, { cache })
+  if (!response.ok) throw new Error(`${url} returned HTTP ${response.status}`)
+  return response.arrayBuffer()
+}
+
+const fetchVerified = async (base: string, manifest: AssetManifest, file: string): Promise<ArrayBuffer> => {
+  const expected = manifest.files[file]
+  if (!expected) throw new Error(`${file} is missing from the MediaPipe asset manifest`)
+  const url = new URL(file, base).href
+  let bytes = await fetchBytes(url, 'default')
+  // A stale or damaged copy gets one fresh download before we give up
+  if ((await digest(bytes)) !== expected) bytes = await fetchBytes(url, 'reload')
+  if ((await digest(bytes)) !== expected) throw new Error(`${file} failed its integrity check`)
+  return bytes
+}
+
+/**
+ * Fetch and verify everything the hand landmarker needs
+ */
+export async function loadHandTrackingAssets(): Promise<HandTrackingAssets> {
+  const base = getAssetBase()
+  const manifest = getManifest()
+
+  // Only picks the SIMD or plain build for this browser; nothing is fetched
+  const paths = await FilesetResolver.forVisionTasks(new URL('wasm', base).href)
+  const fileKey = (path: string) => `wasm/${path.split('/').pop()}`
+  const [loader, binary, model] = await Promise.all([
+    fetchVerified(base, manifest, fileKey(paths.wasmLoaderPath)),
+    fetchVerified(base, manifest, fileKey(paths.wasmBinaryPath)),
+    fetchVerified(base, manifest, MODEL_FILE),
+  ])
+
+  return {
+    fileset: {
+      wasmLoaderPath: URL.createObjectURL(new Blob([loader], { type: 'text/javascript' })),
+      wasmBinaryPath: URL.createObjectURL(new Blob([binary], { type: 'application/wasm' })),
+    },
+    model: new Uint8Array(model),
+  }
+}
@@ -1,19 +1,39 @@
 import * as THREE from 'three'
-import type { GestureEvent } from '@/types'
+import type { GestureEvent, PowerUpKind, PowerUpTimers, SliceEvent } from '@/types'
 import { SeededRNG } from '@/multiplayer/SeededRNG'
-
-const GRAVITY = new THREE.Vector3(0, -8.0, 0)
-
-type FruitType = 'strawberry' | 'orange' | 'apple' | 'watermelon' | 'grape' | 'lemon' | 'kiwi' | 'bomb'
-
-export interface FruitSpawnData {
-  id: string
-  type: FruitType
-  isBomb: boolean
-  position: { x: number; y: number; z: number }
-  velocity: { x: number; y: number; z: number }
-  spin: { x: number; y: number; z: number }
-}
+import { audioEngine } from '@/audio'
+import {
+  DEFAULT_SLICE_RULE,
+  FIXED_TIMESTEP,
+  FruitSimulation,
+  GRAVITY,
+  type FruitSpawnData,
+  type FruitType,
+  type ScreenPoint,
+  type SimCut,
+  type SimFruit,
+  type SliceRule,
+} from './FruitSimulation'
+import { ReplayRecorder, type Replay, type ReplaySettings } from './replay'
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, type DifficultyPreset } from './difficulty'
+import { DEFAULT_FRUIT_CATALOG, FRUIT_CATALOGS, type FruitCatalogPreset } from './fruitCatalog'
+import { FREEZE_TIME_SCALE } from './powerUps'
+
+export type { FruitSpawnData } from './FruitSimulation'
+
+// A throttled or backgrounded tab catches up over several frames rather than
+// dropping time, so it stays on the same tick as the other player
+const MAX_STEPS_PER_FRAME = 300
+// Visual effects don't need to catch up; clamp their delta like before
+const MAX_EFFECT_DELTA = 0.1
+// A swipe cuts along the last stretch of fingertip motion: this many seconds
+// of it at the gesture's speed, capped to a fraction of the screen
+const SWIPE_TRAIL_SECONDS = 0.08
+const MAX_SWIPE_LENGTH = 0.3
+const SCORE_POPUP_LIFESPAN = 0.9
+const SCORE_POPUP_RISE = 0.6 // World units over its lifespan
+// Rare and power-up fruit glow so they stand out in a busy volley
+const GLOWING_FRUIT: FruitType[] = ['golden', 'frost-berry', 'star-fruit', 'dragon-fruit']
 
 export type FruitSpawnCallback = (data: FruitSpawnData) => void
 
@@ -26,17 +46,12 @@ interface FruitConfig {
   isBomb?: boolean
 }
 
-interface FruitBody {
-  id: string
+// Mesh drawn for a simulated fruit
+interface FruitView {
   mesh: THREE.Mesh
-  velocity: THREE.Vector3
-  spin: THREE.Vector3
-  createdAt: number
   outerColor: number
   innerColor: number
   initialScale: THREE.Vector3
-  type: FruitType
-  isBomb: boolean
 }
 
 interface SliceHalf {
@@ -78,27 +93,77 @@ interface ExplosionEffect {
 
 export interface SliceResult {
   fruitId: string
+  type: FruitType
   hand: import('@/types').Handedness
   isBomb: boolean
+  position: { x: number; y: number; z: number } // World position when cut, e.g. for score popups
+  points: number // Catalog points before any multiplier; 0 for bombs and fruit still whole
+  hitsLeft: number // Above 0 when a tough fruit took the hit without breaking
+  powerUp?: PowerUpKind // Power-up this cut set off
+  doublePoints: boolean // Cut while double points was running
+}
+
+export type ScorePopupTone = 'normal' | 'bonus' | 'penalty'
+
+interface ScorePopup {
+  sprite: THREE.Sprite
+  origin: THREE.Vector3
+  elapsed: number
+}
+
+const SCORE_POPUP_COLORS: Record<ScorePopupTone, string> = {
+  normal: '#ffffff',
+  bonus: '#ffd36b',
+  penalty: '#ff6b6b',
+}
+
+/**
+ * Screen segment a swipe covered, ending at the fingertip
+ */
+function getSwipeSegment(gesture: GestureEvent): { start: ScreenPoint; end: ScreenPoint } {
+  const length = Math.min(MAX_SWIPE_LENGTH, gesture.speed * SWIPE_TRAIL_SECONDS)
+  return {
+    start: {
+      x: gesture.origin.x - gesture.direction.x * length,
+      y: gesture.origin.y - gesture.direction.y * length,
+    },
+    end: gesture.origin,
+  }
 }
 
 export type FruitMissedCallback = (fruitId: string) => void
 
+export type SimulationTickCallback = (tick: number) => void
+
+export type LevelChangeCallback = (level: number) => void
+
+export type PowerUpChangeCallback = (timers: PowerUpTimers) => void
+
 export class FruitGame {
   private scene = new THREE.Scene()
   private camera: THREE.PerspectiveCamera
   private renderer: THREE.WebGLRenderer
-  private fruits: FruitBody[] = []
+  private simulation = new FruitSimulation()
+  private fruitViews = new Map<string, FruitView>()
   private effects: SliceEffect[] = []
   private animationHandle: number | null = null
   private lastTime = performance.now()
-  private spawnAccumulator = 0
+  private stepAccumulator = 0
+  private timeScale = 1
+  private fixedAspect: number | null = null
+  private recorder: ReplayRecorder | null = null
+  private onTick: SimulationTickCallback | null = null
+  private onLevelChange: LevelChangeCallback | null = null
+  private onPowerUpChange: PowerUpChangeCallback | null = null
+  private powerUpKey = ''
+  private sliceRule: SliceRule = DEFAULT_SLICE_RULE
+  private scorePopups: ScorePopup[] = []
+  private difficulty: DifficultyPreset = DEFAULT_DIFFICULTY
+  private fruitCatalog: FruitCatalogPreset = DEFAULT_FRUIT_CATALOG
   private canvas: HTMLCanvasElement
-  private projectionHelper = new THREE.Vector3()
   private envMap: THREE.Texture | null = null
-  private spawningEnabled = true
   private onFruitMissed: FruitMissedCallback | null = null
-  private sliceHitboxRadius = 0.15 // Default hitbox radius (normalized screen coords)
+  private soundEnabled = true
 
   // Shared Geometries - higher poly for smoother look
   private sphereGeo = new THREE.SphereGeometry(1, 64, 64)
@@ -113,8 +178,6 @@ export class FruitGame {
   // Explosion effects
   private explosionEffects: ExplosionEffect[] = []
   
-  // Seeded RNG for multiplayer sync
-  private rng: SeededRNG | null = null
   private onFruitSpawn: FruitSpawnCallback | null = null
 
   constructor(canvas: HTMLCanvasElement) {
@@ -140,9 +203,8 @@ export class FruitGame {
     this.renderer.toneMappingExposure = 1.4
     this.renderer.outputColorSpace = THREE.SRGBColorSpace
     
-    this.camera = new THREE.PerspectiveCamera(45, 1, 0.1, 100)
-    this.camera.position.set(0, 1.5, 4)
-    this.camera.lookAt(0, 1, 0)
+    // Render through the same camera the simulation hit tests with
+    this.camera = this.simulation.camera
 
     // Create procedural environment map for realistic reflections
     this.createEnvironmentMap()
@@ -363,9 +425,9 @@ export class FruitGame {
       sheenRoughness: fruitType === 'kiwi' ? 0.8 : 0.3,
       sheenColor: new THREE.Color(color).lerp(new THREE.Color(0xffffff), 0.5),
       
-      // Subtle glow
+      // Subtle glow; golden fruit shine so they stand out
       emissive: color,
-      emissiveIntensity: isInner ? 0.15 : 0.05,
+      emissiveIntensity: fruitType && GLOWING_FRUIT.includes(fruitType) ? 0.45 : isInner ? 0.15 : 0.05,
       
       // Use environment map
       envMapIntensity: isInner ? 0.3 : 0.6,
@@ -381,6 +443,7 @@ export class FruitGame {
   start() {
     if (this.animationHandle) return
     this.lastTime = performance.now()
+    this.stepAccumulator = 0
     this.renderer.setAnimationLoop(this.tick)
     this.animationHandle = 1
   }
@@ -394,24 +457,9 @@ export class FruitGame {
   dispose() {
     this.stop()
     window.removeEventListener('resize', this.handleResize)
-    this.fruits.forEach((fruit) => {
-      this.scene.remove(fruit.mesh)
-      ;(fruit.mesh.material as THREE.Material).dispose()
-    })
-    this.effects.forEach((effect) => {
-      effect.halves.forEach(h => {
-        this.scene.remove(h.mesh)
-        ;(h.mesh.material as THREE.Material).dispose()
-      })
-      this.scene.remove(effect.juiceMesh)
-      effect.juiceMesh.dispose()
-    })
-    this.explosionEffects.forEach((effect) => {
-      this.scene.remove(effect.particleMesh)
-      this.scene.remove(effect.flashMesh)
-      effect.particleMesh.dispose()
-      ;(effect.flashMesh.material as THREE.Material).dispose()
-    })
+    this.fruitViews.forEach((view) => this.removeView(view))
+    this.fruitViews.clear()
+    this.clearEffects()
     this.sphereGeo.dispose()
     this.halfSphereGeo.dispose()
     this.strawberryGeo.dispose()
@@ -424,25 +472,154 @@ export class FruitGame {
     this.renderer.dispose()
   }
 
-  handleGesture(gesture: GestureEvent): SliceResult | null {
-    const candidate = this.pickGestureTarget(gesture)
-    if (!candidate) return null
-    
-    if (candidate.isBomb) {
-      this.explodeBomb(candidate)
+  /**
+   * Headless game state this view renders
+   */
+  getSimulation(): FruitSimulation {
+    return this.simulation
+  }
+
+  /**
+   * Current simulation tick (same on every client for a seeded game)
+   */
+  getTick(): number {
+    return this.simulation.tick
+  }
+
+  /**
+   * Cut whatever the gesture hits, in the order the swipe reached it.
+   * Empty when it missed everything.
+   */
+  handleGesture(gesture: GestureEvent): SliceResult[] {
+    // Poses are commands, not cuts, and stay out of replays
+    if (gesture.type !== 'slice') return []
+    this.recorder?.record(this.simulation.tick, gesture)
+    let cuts: SimCut[]
+    if (this.sliceRule === 'swept') {
+      // Gestures without a previous sample fall back to the estimated trail
+      const start = gesture.previous ?? getSwipeSegment(gesture).start
+      cuts = this.simulation.sliceSwept(start, gesture.origin)
+    } else if (this.sliceRule === 'swipe') {
+      const { start, end } = getSwipeSegment(gesture)
+      cuts = this.simulation.sliceAlong(start, end)
     } else {
-      this.sliceFruit(candidate, gesture)
-    }
-    
-    return {
-      fruitId: candidate.id,
-      hand: gesture.hand,
-      isBomb: candidate.isBomb,
+      const cut = this.simulation.slice(gesture.origin)
+      cuts = cut ? [cut] : []
     }
+
+    const results = cuts.map(({ fruit, hitsLeft, pieces, powerUp, doublePoints }) => {
+      if (powerUp && this.soundEnabled) {
+        audioEngine.playPowerUp(powerUp)
+      }
+      if (fruit.isBomb) {
+        this.explodeBomb(fruit)
+      } else if (hitsLeft > 0) {
+        this.chipFruit(fruit, gesture)
+      } else {
+        this.sliceFruit(fruit, gesture)
+      }
+      pieces.forEach((piece) => this.addFruitView(piece))
+      return {
+        fruitId: fruit.id,
+        type: fruit.type,
+        hand: gesture.hand,
+        isBomb: fruit.isBomb,
+        position: { x: fruit.position.x, y: fruit.position.y, z: fruit.position.z },
+        points: fruit.isBomb || hitsLeft > 0 ? 0 : this.simulation.getFruitSpec(fruit.type).points,
+        hitsLeft,
+        powerUp,
+        doublePoints,
+      }
+    })
+    this.syncPowerUps()
+    return results
+  }
+
+  /**
+   * Choose how gestures pick targets (replays pin the rule they were recorded with)
+   */
+  setSliceRule(rule: SliceRule) {
+    this.sliceRule = rule
+  }
+
+  /**
+   * Float a line of text up from a point in the scene, e.g. "+20"
+   */
+  showScorePopup(position: { x: number; y: number; z: number }, text: string, tone: ScorePopupTone = 'normal') {
+    const canvas = document.createElement('canvas')
+    canvas.width = 256
+    canvas.height = 96
+    const context = canvas.getContext('2d')
+    if (!context) return
+
+    context.font = '800 56px Sora, sans-serif'
+    context.textAlign = 'center'
+    context.textBaseline = 'middle'
+    context.lineWidth = 8
+    context.strokeStyle = 'rgba(0, 0, 0, 0.6)'
+    context.strokeText(text, canvas.width / 2, canvas.height / 2)
+    context.fillStyle = SCORE_POPUP_COLORS[tone]
+    context.fillText(text, canvas.width / 2, canvas.height / 2)
+
+    const texture = new THREE.CanvasTexture(canvas)
+    texture.colorSpace = THREE.SRGBColorSpace
+    const material = new THREE.SpriteMaterial({ map: texture, transparent: true, depthTest: false })
+    const sprite = new THREE.Sprite(material)
+    const height = tone === 'bonus' ? 0.32 : 0.22
+    sprite.scale.set(height * (canvas.width / canvas.height), height, 1)
+    sprite.position.set(position.x, position.y, position.z)
+    sprite.renderOrder = 10
+    this.scene.add(sprite)
+    this.scorePopups.push({ sprite, origin: sprite.position.clone(), elapsed: 0 })
   }
 
   setSpawning(enabled: boolean) {
-    this.spawningEnabled = enabled
+    this.simulation.setSpawning(enabled)
+  }
+
+  /**
+   * Difficulty curve for spawning. Call before reset() at the start of a round.
+   */
+  setDifficulty(preset: DifficultyPreset) {
+    this.difficulty = preset
+    this.simulation.setDifficulty(DIFFICULTY_PRESETS[preset])
+  }
+
+  getDifficulty(): DifficultyPreset {
+    return this.difficulty
+  }
+
+  /**
+   * Fruit catalog spawns are rolled from. Call before reset() at the start of a round.
+   */
+  setFruitCatalog(preset: FruitCatalogPreset) {
+    this.fruitCatalog = preset
+    this.simulation.setCatalog(FRUIT_CATALOGS[preset])
+  }
+
+  getFruitCatalog(): FruitCatalogPreset {
+    return this.fruitCatalog
+  }
+
+  /**
+   * Called whenever the difficulty level changes (including back to 1 on reset)
+   */
+  setOnLevelChange(callback: LevelChangeCallback | null) {
+    this.onLevelChange = callback
+  }
+
+  /**
+   * Called when a power-up starts or ends and as its seconds count down
+   */
+  setOnPowerUpChange(callback: PowerUpChangeCallback | null) {
+    this.onPowerUpChange = callback
+  }
+
+  /**
+   * Mute this view's slice and explosion sounds (opponent and ghost views)
+   */
+  setSoundEnabled(enabled: boolean) {
+    this.soundEnabled = enabled
   }
 
   setOnFruitMissed(callback: FruitMissedCallback | null) {
@@ -453,7 +630,7 @@ export class FruitGame {
    * Set a seeded RNG for deterministic spawns (multiplayer sync)
    */
   setSeededRNG(rng: SeededRNG | null) {
-    this.rng = rng
+    this.simulation.setSeededRNG(rng)
   }
 
   /**
@@ -469,15 +646,14 @@ export class FruitGame {
    * Default is 0.15, multiplayer uses 0.25 for better responsiveness.
    */
   setSliceHitboxRadius(radius: number) {
-    this.sliceHitboxRadius = radius
+    this.simulation.setHitboxRadius(radius)
   }
 
   clearFruits() {
-    this.fruits.forEach((fruit) => {
-      this.scene.remove(fruit.mesh)
-      ;(fruit.mesh.material as THREE.Material).dispose()
-    })
-    this.fruits = []
+    this.fruitViews.forEach((view) => this.removeView(view))
+    this.fruitViews.clear()
+    this.simulation.clear()
+    this.syncPowerUps()
     
     // Also clear explosion effects
     this.explosionEffects.forEach((effect) => {
@@ -493,36 +669,118 @@ export class FruitGame {
     this.handleResize()
   }
 
+  /**
+   * Start the simulation over from tick 0, e.g. at the start of a round
+   */
+  reset(rng: SeededRNG | null) {
+    this.fruitViews.forEach((view) => this.removeView(view))
+    this.fruitViews.clear()
+    this.clearEffects()
+    const previousLevel = this.simulation.level
+    this.simulation.reset(rng)
+    this.stepAccumulator = 0
+    this.syncPowerUps()
+    if (previousLevel !== this.simulation.level) {
+      this.onLevelChange?.(this.simulation.level)
+    }
+  }
+
+  /**
+   * Record every gesture passed to handleGesture until stopRecording.
+   * Call right after reset() so the recording starts at tick 0.
+   */
+  startRecording(
+    seed: number,
+    settings: Omit<ReplaySettings, 'hitboxRadius' | 'aspect' | 'difficulty' | 'sliceRule' | 'fruitCatalog'>
+  ) {
+    this.recorder = new ReplayRecorder(seed, {
+      ...settings,
+      hitboxRadius: this.simulation.getHitboxRadius(),
+      difficulty: this.difficulty,
+      sliceRule: this.sliceRule,
+      fruitCatalog: this.fruitCatalog,
+    })
+  }
+
+  /**
+   * Note a scored slice in the current recording
+   */
+  recordSlice(event: SliceEvent) {
+    this.recorder?.recordSlice(this.simulation.tick, event)
+  }
+
+  stopRecording(finalScore: number, playerName?: string): Replay | null {
+    const recorder = this.recorder
+    this.recorder = null
+    if (!recorder) return null
+    return recorder.finish({
+      durationTicks: this.simulation.tick,
+      finalScore,
+      aspect: this.camera.aspect,
+      playerName,
+    })
+  }
+
+  /**
+   * Playback speed of simulation and effects (0 freezes everything)
+   */
+  setTimeScale(scale: number) {
+    this.timeScale = Math.max(0, scale)
+    if (this.timeScale === 0) {
+      this.stepAccumulator = 0
+    }
+  }
+
+  /**
+   * Called after every fixed simulation step
+   */
+  setOnTick(callback: SimulationTickCallback | null) {
+    this.onTick = callback
+  }
+
+  /**
+   * Step the simulation immediately without waiting for frames.
+   * In-flight effects are dropped; they'd all have finished anyway.
+   */
+  fastForward(ticks: number) {
+    for (let i = 0; i < ticks; i++) {
+      this.stepSimulation()
+    }
+    this.clearEffects()
+    this.updateFruits(1)
+  }
+
+  /**
+   * Hit test with this aspect ratio whatever the canvas size (replays must
+   * project exactly like the recorded round). Null follows the canvas again.
+   */
+  setFixedAspect(aspect: number | null) {
+    this.fixedAspect = aspect
+    if (aspect !== null) {
+      this.simulation.setAspect(aspect)
+    }
+    this.handleResize()
+  }
+
   /**
    * Trigger a slice effect for opponent visualization
    * First tries to match by fruit ID (most reliable), then falls back to position
    */
   triggerSliceEffectById(fruitId: string, fallbackX: number, fallbackY: number) {
-    if (!this.fruits.length) return
+    if (!this.simulation.activeFruits.length) return
 
     // First, try to find fruit by exact ID match (works with deterministic IDs)
-    let targetFruit = this.fruits.find(f => f.id === fruitId) || null
-
     // If no ID match, fall back to position-based matching with generous threshold
-    if (!targetFruit) {
-      let nearestDistance = Infinity
-      for (const fruit of this.fruits) {
-        const screen = this.projectToScreen(fruit)
-        const dx = screen.x - fallbackX
-        const dy = screen.y - fallbackY
-        const distance = Math.hypot(dx, dy)
-        if (distance < nearestDistance) {
-          targetFruit = fruit
-          nearestDistance = distance
-        }
-      }
-      // Use generous threshold since positions may have drifted
-      if (nearestDistance > 0.4) {
-        targetFruit = null
-      }
-    }
+    // since positions may have drifted
+    const targetFruit =
+      this.simulation.getFruit(fruitId) ??
+      this.simulation.pickTarget({ x: fallbackX, y: fallbackY }, 0.4)
 
     if (!targetFruit) return
+    // Only breaking cuts are reported, so this one always goes through
+    targetFruit.hitsLeft = 1
+    const { pieces } = this.simulation.hitFruit(targetFruit)
+    pieces.forEach((piece) => this.addFruitView(piece))
 
     // Create a synthetic gesture for the slice direction
     const fakeGesture: GestureEvent = {
@@ -552,53 +810,136 @@ export class FruitGame {
 
   private tick = () => {
     const now = performance.now()
-    const delta = Math.min((now - this.lastTime) / 1000, 0.1)
+    const delta = ((now - this.lastTime) / 1000) * this.timeScale
     this.lastTime = now
     this.update(delta)
     this.renderer.render(this.scene, this.camera)
   }
 
   private update(delta: number) {
-    if (this.spawningEnabled) {
-      this.spawnAccumulator += delta
-      if (this.spawnAccumulator >= 1.0) {
-        // Use seeded RNG if available, otherwise Math.random
-        this.spawnAccumulator = (this.rng?.nextFloat(0, 0.3) ?? Math.random() * 0.3)
-        this.spawnFruit()
+    // Fixed-step simulation; leftover time is used to interpolate rendering.
+    // Freeze slows only the physics; effects play out at full speed.
+    this.stepAccumulator += this.simulation.isPowerUpActive('freeze') ? delta * FREEZE_TIME_SCALE : delta
+    let steps = 0
+    while (this.stepAccumulator >= FIXED_TIMESTEP && steps < MAX_STEPS_PER_FRAME) {
+      // Consume the step first: an onTick handler may pause and reset the accumulator
+      this.stepAccumulator -= FIXED_TIMESTEP
+      this.stepSimulation()
+      steps++
+    }
+
+    const effectDelta = Math.min(delta, MAX_EFFECT_DELTA)
+    this.updateFruits(Math.min(this.stepAccumulator / FIXED_TIMESTEP, 1))
+    this.updateEffects(effectDelta)
+    this.updateExplosions(effectDelta)
+    this.updateScorePopups(effectDelta)
+  }
+
+  private stepSimulation() {
+    const { spawned, missed, levelChanged } = this.simulation.step()
+
+    spawned.forEach((fruit) => this.addFruitView(fruit))
+    missed.forEach((fruit) => {
+      // Notify that a fruit was missed (not bombs, and split pieces are only a bonus)
+      if (!fruit.isBomb && !fruit.parentId && this.onFruitMissed) {
+        this.onFruitMissed(fruit.id)
       }
+      this.removeFruitView(fruit.id)
+    })
+
+    if (levelChanged) {
+      this.onLevelChange?.(this.simulation.level)
     }
-    this.updateFruits(delta)
-    this.updateEffects(delta)
-    this.updateExplosions(delta)
+    this.syncPowerUps()
+    this.onTick?.(this.simulation.tick)
   }
 
-  private updateFruits(delta: number) {
-    this.fruits = this.fruits.filter((fruit) => {
-      fruit.velocity.addScaledVector(GRAVITY, delta)
-      fruit.mesh.position.addScaledVector(fruit.velocity, delta)
-      
-      fruit.mesh.rotation.x += fruit.spin.x * delta
-      fruit.mesh.rotation.y += fruit.spin.y * delta
-      fruit.mesh.rotation.z += fruit.spin.z * delta
+  // Only report when the whole seconds shown actually change
+  private syncPowerUps() {
+    const timers = this.simulation.getPowerUpTimers()
+    const key = JSON.stringify(timers)
+    if (key === this.powerUpKey) return
+    this.powerUpKey = key
+    this.onPowerUpChange?.(timers)
+  }
+
+  private clearEffects() {
+    this.effects.forEach((effect) => {
+      effect.halves.forEach(h => {
+        this.scene.remove(h.mesh)
+        ;(h.mesh.material as THREE.Material).dispose()
+      })
+      this.scene.remove(effect.juiceMesh)
+      effect.juiceMesh.dispose()
+    })
+    this.effects = []
+    this.explosionEffects.forEach((effect) => {
+      this.scene.remove(effect.particleMesh)
+      this.scene.remove(effect.flashMesh)
+      effect.particleMesh.dispose()
+      ;(effect.flashMesh.material as THREE.Material).dispose()
+    })
+    this.explosionEffects = []
+    this.scorePopups.forEach((popup) => this.removeScorePopup(popup))
+    this.scorePopups = []
+  }
+
+  // Rise and fade, then go
+  private updateScorePopups(delta: number) {
+    this.scorePopups = this.scorePopups.filter((popup) => {
+      popup.elapsed += delta
+      const progress = popup.elapsed / SCORE_POPUP_LIFESPAN
+      if (progress >= 1) {
+        this.removeScorePopup(popup)
+        return false
+      }
+      popup.sprite.position.y = popup.origin.y + this.easeOutCubic(progress) * SCORE_POPUP_RISE
+      popup.sprite.material.opacity = progress < 0.6 ? 1 : 1 - (progress - 0.6) / 0.4
+      return true
+    })
+  }
+
+  private removeScorePopup(popup: ScorePopup) {
+    this.scene.remove(popup.sprite)
+    popup.sprite.material.map?.dispose()
+    popup.sprite.material.dispose()
+  }
+
+  // Draw simulated bodies between their last two ticks
+  private updateFruits(alpha: number) {
+    for (const fruit of this.simulation.activeFruits) {
+      const view = this.fruitViews.get(fruit.id)
+      if (!view) continue
+
+      view.mesh.position.lerpVectors(fruit.previousPosition, fruit.position, alpha)
+      view.mesh.rotation.set(
+        THREE.MathUtils.lerp(fruit.previousRotation.x, fruit.rotation.x, alpha),
+        THREE.MathUtils.lerp(fruit.previousRotation.y, fruit.rotation.y, alpha),
+        THREE.MathUtils.lerp(fruit.previousRotation.z, fruit.rotation.z, alpha)
+      )
 
       // Smooth scale-in animation
-      const age = (performance.now() - fruit.createdAt) / 1000
+      const age = fruit.age + alpha * FIXED_TIMESTEP
       if (age < 0.4) {
         const t = this.easeOutBack(age / 0.4)
-        fruit.mesh.scale.copy(fruit.initialScale).multiplyScalar(t)
+        view.mesh.scale.copy(view.initialScale).multiplyScalar(t)
+      } else {
+        view.mesh.scale.copy(view.initialScale)
       }
+    }
+  }
 
-      const alive = fruit.mesh.position.y > -2.5
-      if (!alive) {
-        // Notify that a fruit was missed (not bombs)
-        if (!fruit.isBomb && this.onFruitMissed) {
-          this.onFruitMissed(fruit.id)
-        }
-        this.scene.remove(fruit.mesh)
-        ;(fruit.mesh.material as THREE.Material).dispose()
-      }
-      return alive
-    })
+  private removeView(view: FruitView) {
+    this.scene.remove(view.mesh)
+    ;(view.mesh.material as THREE.Material).dispose()
+  }
+
+  private removeFruitView(fruitId: string): FruitView | null {
+    const view = this.fruitViews.get(fruitId)
+    if (!view) return null
+    this.removeView(view)
+    this.fruitViews.delete(fruitId)
+    return view
   }
 
   private easeOutBack(x: number): number {
@@ -659,15 +1000,15 @@ export class FruitGame {
     })
   }
 
-  private spawnFruit() {
-    const config = this.getRandomFruitConfig()
-    const isBomb = config.type === 'bomb'
+  private addFruitView(fruit: SimFruit) {
+    const config = this.getFruitConfig(fruit.type)
+    const isBomb = fruit.isBomb
     
     const material = isBomb 
       ? this.createBombMaterial() 
       : this.createFruitMaterial(config.outerColor, false, config.type)
     const mesh = new THREE.Mesh(config.geometry, material)
-    mesh.scale.copy(config.scale)
+    mesh.scale.set(0, 0, 0)
     
     // Add fuse to bomb
     if (isBomb) {
@@ -691,65 +1032,31 @@ export class FruitGame {
       mesh.add(spark)
     }
     
-    // Use seeded RNG if available for deterministic spawns
-    const randFloat = (min: number, max: number) => 
-      this.rng ? this.rng.nextFloat(min, max) : THREE.MathUtils.randFloat(min, max)
-    const randSpread = (range: number) => randFloat(-range / 2, range / 2)
-    
-    const startX = randSpread(1.8)
-    const startZ = randFloat(-0.3, 0.3)
-    mesh.position.set(startX, -1.5, startZ)
+    mesh.position.copy(fruit.position)
     this.scene.add(mesh)
 
-    const velocity = new THREE.Vector3(
-      randFloat(-0.4, 0.4),
-      randFloat(5.5, 7.0),
-      randFloat(-0.15, 0.15),
-    )
-    
-    const spin = new THREE.Vector3(
-      randFloat(-3, 3),
-      randFloat(-3, 3),
-      randFloat(-3, 3),
-    )
-
-    // Use deterministic ID for multiplayer sync (based only on seeded RNG)
-    // This ensures both clients generate the same fruit IDs
-    const fruitId = this.rng 
-      ? `f_${Math.floor(this.rng.next() * 1000000)}_${Math.floor(this.rng.next() * 1000000)}`
-      : THREE.MathUtils.generateUUID()
-
-    const fruitBody: FruitBody = {
-      id: fruitId,
+    this.fruitViews.set(fruit.id, {
       mesh,
-      velocity,
-      spin,
-      createdAt: performance.now(),
       outerColor: config.outerColor,
       innerColor: config.innerColor,
       initialScale: config.scale.clone(),
-      type: config.type,
-      isBomb,
-    }
-    
-    this.fruits.push(fruitBody)
+    })
 
     // Notify spawn callback for multiplayer sync
     if (this.onFruitSpawn) {
       this.onFruitSpawn({
-        id: fruitId,
-        type: config.type,
+        id: fruit.id,
+        type: fruit.type,
         isBomb,
-        position: { x: startX, y: -1.5, z: startZ },
-        velocity: { x: velocity.x, y: velocity.y, z: velocity.z },
-        spin: { x: spin.x, y: spin.y, z: spin.z },
+        position: { x: fruit.position.x, y: fruit.position.y, z: fruit.position.z },
+        velocity: { x: fruit.velocity.x, y: fruit.velocity.y, z: fruit.velocity.z },
+        spin: { x: fruit.spin.x, y: fruit.spin.y, z: fruit.spin.z },
       })
     }
   }
 
-  private getRandomFruitConfig(): FruitConfig {
-    // 15% chance of spawning a bomb
-    if (Math.random() < 0.15) {
+  private getFruitConfig(type: FruitType): FruitConfig {
+    if (type === 'bomb') {
       return {
         type: 'bomb',
         outerColor: 0x1a1a1a,
@@ -760,9 +1067,6 @@ export class FruitGame {
       }
     }
     
-    const types: FruitType[] = ['strawberry', 'orange', 'apple', 'watermelon', 'grape', 'lemon', 'kiwi']
-    const type = types[Math.floor(Math.random() * types.length)]
-
     switch (type) {
       case 'strawberry':
         return {
@@ -820,6 +1124,54 @@ export class FruitGame {
           geometry: this.sphereGeo,
           scale: new THREE.Vector3(0.22, 0.26, 0.22),
         }
+      case 'pomegranate':
+        return {
+          type,
+          outerColor: 0x7a1020,  // Dark garnet
+          innerColor: 0xd7263d,  // Ruby seeds inside
+          geometry: this.appleGeo,
+          scale: new THREE.Vector3(0.3, 0.3, 0.3),
+        }
+      case 'golden':
+        return {
+          type,
+          outerColor: 0xffc83d,  // Polished gold
+          innerColor: 0xfff1b8,  // Pale gold inside
+          geometry: this.appleGeo,
+          scale: new THREE.Vector3(0.26, 0.26, 0.26),
+        }
+      case 'frost-berry':
+        return {
+          type,
+          outerColor: 0x7fd6ff,  // Icy blue
+          innerColor: 0xe0f7ff,  // Frosted white inside
+          geometry: this.sphereGeo,
+          scale: new THREE.Vector3(0.24, 0.24, 0.24),
+        }
+      case 'star-fruit':
+        return {
+          type,
+          outerColor: 0xffb000,  // Hot amber
+          innerColor: 0xfff4a3,  // Pale yellow inside
+          geometry: this.lemonGeo,
+          scale: new THREE.Vector3(0.26, 0.26, 0.26),
+        }
+      case 'dragon-fruit':
+        return {
+          type,
+          outerColor: 0xff2e88,  // Vivid magenta
+          innerColor: 0xf5f5f5,  // White flesh inside
+          geometry: this.sphereGeo,
+          scale: new THREE.Vector3(0.26, 0.3, 0.26),
+        }
+      case 'melon-wedge':
+        return {
+          type,
+          outerColor: 0x1a4d1a,  // Watermelon rind
+          innerColor: 0xe63950,  // Deep pink flesh
+          geometry: this.sphereGeo,
+          scale: new THREE.Vector3(0.2, 0.16, 0.2),
+        }
       default:
         return {
           type: 'apple',
@@ -831,44 +1183,44 @@ export class FruitGame {
     }
   }
 
-  private pickGestureTarget(gesture: GestureEvent): FruitBody | null {
-    if (!this.fruits.length) return null
-    let bestFruit: FruitBody | null = null
-    let bestDistance = Infinity
-    for (const fruit of this.fruits) {
-      const screen = this.projectToScreen(fruit)
-      const dx = screen.x - gesture.origin.x
-      const dy = screen.y - gesture.origin.y
-      const distance = Math.hypot(dx, dy)
-      if (distance > this.sliceHitboxRadius) continue
-      if (distance < bestDistance) {
-        bestFruit = fruit
-        bestDistance = distance
-      }
+  // Fruit has already been removed from the simulation; swap its mesh for halves
+  private sliceFruit(fruit: SimFruit, gesture: GestureEvent) {
+    const view = this.removeFruitView(fruit.id)
+    if (!view) return
+
+    // The canvas is mirrored, so the camera-space x flips on screen
+    if (this.soundEnabled) {
+      audioEngine.playSlice(gesture.speed, 1 - gesture.origin.x)
     }
-    return bestFruit
+
+    // Create slice effect
+    this.createSliceEffect(
+      fruit.position.clone(),
+      view.initialScale.clone(),
+      view.outerColor,
+      view.innerColor,
+      gesture,
+      fruit.velocity.clone()
+    )
   }
 
-  private projectToScreen(fruit: FruitBody) {
-    this.projectionHelper.copy(fruit.mesh.position)
-    this.projectionHelper.project(this.camera)
-    return {
-      x: (this.projectionHelper.x + 1) / 2,
-      y: (1 - this.projectionHelper.y) / 2,
+  // A tough fruit took a hit but held together: just a splash of juice
+  private chipFruit(fruit: SimFruit, gesture: GestureEvent) {
+    const view = this.fruitViews.get(fruit.id)
+    if (!view) return
+
+    if (this.soundEnabled) {
+      audioEngine.playSlice(gesture.speed * 0.6, 1 - gesture.origin.x)
     }
-  }
 
-  private sliceFruit(fruit: FruitBody, gesture: GestureEvent) {
-    const origin = fruit.mesh.position.clone()
-    const scale = fruit.initialScale.clone()
-    
-    // Create slice effect
-    this.createSliceEffect(origin, scale, fruit.outerColor, fruit.innerColor, gesture, fruit.velocity.clone())
-    
-    // Remove original fruit
-    this.scene.remove(fruit.mesh)
-    ;(fruit.mesh.material as THREE.Material).dispose()
-    this.fruits = this.fruits.filter((f) => f.id !== fruit.id)
+    const { juiceMesh, juiceParticles } = this.createJuice(fruit.position.clone(), view.innerColor, 10)
+    this.effects.push({
+      halves: [],
+      juiceParticles,
+      juiceMesh,
+      elapsed: 0,
+      lifespan: 0.8,
+    })
   }
 
   private createSliceEffect(
@@ -920,8 +1272,18 @@ export class FruitGame {
       halves.push({ mesh: halfMesh, velocity, spin, life: 0 })
     }
     
-    // Create juice particles
-    const juiceCount = 20
+    const { juiceMesh, juiceParticles } = this.createJuice(origin, innerColor, 20)
+
+    this.effects.push({
+      halves,
+      juiceParticles,
+      juiceMesh,
+      elapsed: 0,
+      lifespan: 1.2
+    })
+  }
+
+  private createJuice(origin: THREE.Vector3, innerColor: number, juiceCount: number) {
     const juiceMat = new THREE.MeshBasicMaterial({
       color: innerColor,
       transparent: true,
@@ -952,26 +1314,20 @@ export class FruitGame {
     }
     
     this.scene.add(juiceMesh)
-
-    this.effects.push({
-      halves,
-      juiceParticles,
-      juiceMesh,
-      elapsed: 0,
-      lifespan: 1.2
-    })
+    return { juiceMesh, juiceParticles }
   }
 
-  private explodeBomb(bomb: FruitBody) {
-    const origin = bomb.mesh.position.clone()
-    
+  private explodeBomb(bomb: SimFruit) {
     // Remove bomb
-    this.scene.remove(bomb.mesh)
-    ;(bomb.mesh.material as THREE.Material).dispose()
-    this.fruits = this.fruits.filter((f) => f.id !== bomb.id)
+    this.removeFruitView(bomb.id)
+
+    if (this.soundEnabled) {
+      const ndc = bomb.position.clone().project(this.camera)
+      audioEngine.playExplosion((1 - ndc.x) / 2)
+    }
     
     // Create explosion effect
-    this.createExplosionEffect(origin)
+    this.createExplosionEffect(bomb.position.clone())
   }
 
   private createExplosionEffect(origin: THREE.Vector3) {
@@ -1072,8 +1428,7 @@ export class FruitGame {
     const host = this.canvas.parentElement ?? this.canvas
     const { clientWidth, clientHeight } = host
     if (clientWidth === 0 || clientHeight === 0) return
-    this.camera.aspect = clientWidth / clientHeight
-    this.camera.updateProjectionMatrix()
+    this.simulation.setAspect(this.fixedAspect ?? clientWidth / clientHeight)
     this.renderer.setSize(clientWidth, clientHeight, false)
   }
 }
@@ -0,0 +1,259 @@
+import { describe, expect, it } from 'vitest'
+import { SeededRNG } from '@/multiplayer/SeededRNG'
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS } from './difficulty'
+import { FRENZY_FRUIT_COUNT, FRENZY_SPAWN_TICKS, POWER_UP_SECONDS } from './powerUps'
+import { FruitSimulation, SIMULATION_HZ, type FruitSpawnData, type FruitType, type SimFruit } from './FruitSimulation'
+
+const SEED = 12345
+
+const seeded = (seed = SEED) => new FruitSimulation({ rng: new SeededRNG(seed) })
+
+// Every fruit the simulation spawns over `ticks` fixed steps, with the tick it appeared on
+const runSchedule = (simulation: FruitSimulation, ticks: number, onSpawn?: (fruit: SimFruit) => void) => {
+  const schedule: { tick: number; id: string; type: FruitType }[] = []
+  for (let i = 0; i < ticks; i++) {
+    for (const fruit of simulation.step().spawned) {
+      schedule.push({ tick: simulation.tick, id: fruit.id, type: fruit.type })
+      onSpawn?.(fruit)
+    }
+  }
+  return schedule
+}
+
+const fruitAt = (id: string, x: number, y: number, type: FruitType = 'apple'): FruitSpawnData => ({
+  id,
+  type,
+  isBomb: type === 'bomb',
+  position: { x, y, z: 0 },
+  velocity: { x: 0, y: 0, z: 0 },
+  spin: { x: 0, y: 0, z: 0 },
+})
+
+describe('FruitSimulation', () => {
+  describe('seeded spawn schedule', () => {
+    it('spawns the same fruit on the same ticks for the same seed', () => {
+      const first = runSchedule(seeded(), 20 * SIMULATION_HZ)
+      const second = runSchedule(seeded(), 20 * SIMULATION_HZ)
+
+      expect(first.length).toBeGreaterThan(0)
+      expect(second).toEqual(first)
+    })
+
+    it('spawns different fruit for a different seed', () => {
+      const first = runSchedule(seeded(SEED), 10 * SIMULATION_HZ)
+      const other = runSchedule(seeded(SEED + 1), 10 * SIMULATION_HZ)
+
+      expect(other.map((spawn) => spawn.id)).not.toEqual(first.map((spawn) => spawn.id))
+    })
+
+    it('launches the first volley after the opening spawn interval', () => {
+      const opening = Math.round(DIFFICULTY_PRESETS[DEFAULT_DIFFICULTY].levels[0].spawnInterval * SIMULATION_HZ)
+      const [firstSpawn] = runSchedule(seeded(), opening + 1)
+
+      expect(firstSpawn.tick).toBe(opening)
+    })
+
+    it('names spawned fruit from the rng alone', () => {
+      const schedule = runSchedule(seeded(), 10 * SIMULATION_HZ)
+
+      schedule.forEach(({ id }) => expect(id).toMatch(/^f_\d+_\d+$/))
+    })
+
+    it('starts the schedule over on reset', () => {
+      const simulation = seeded()
+      const first = runSchedule(simulation, 10 * SIMULATION_HZ)
+
+      simulation.reset(new SeededRNG(SEED))
+
+      expect(simulation.tick).toBe(0)
+      expect(simulation.activeFruits).toHaveLength(0)
+      expect(runSchedule(simulation, 10 * SIMULATION_HZ)).toEqual(first)
+    })
+  })
+
+  describe('fixed-tick determinism', () => {
+    it('puts every fruit in the same place after the same number of ticks', () => {
+      const first = seeded()
+      const second = seeded()
+      for (let i = 0; i < 12 * SIMULATION_HZ; i++) {
+        first.step()
+        second.step()
+      }
+
+      const snapshot = (simulation: FruitSimulation) =>
+        simulation.activeFruits.map((fruit) => ({
+          id: fruit.id,
+          position: fruit.position.toArray(),
+          rotation: fruit.rotation.toArray(),
+        }))
+      expect(first.activeFruits.length).toBeGreaterThan(0)
+      expect(snapshot(second)).toEqual(snapshot(first))
+    })
+
+    it('keeps the spawn schedule when fruit are cut', () => {
+      const untouched = runSchedule(seeded(), 30 * SIMULATION_HZ)
+      const cutting = seeded()
+      // Cut everything on sight, including split pieces and power-ups
+      const spawnedWhileCutting = runSchedule(cutting, 30 * SIMULATION_HZ, (fruit) => cutting.hitFruit(fruit))
+
+      const rolled = (schedule: typeof untouched) => schedule.filter(({ id }) => !id.includes(':'))
+      expect(rolled(spawnedWhileCutting)).toEqual(rolled(untouched))
+    })
+  })
+
+  describe('hitFruit', () => {
+    it('splits a fruit into pieces named after their parent', () => {
+      const simulation = seeded()
+      const watermelon = simulation.addFruit(fruitAt('f_1_2', 0, 0, 'watermelon'))
+
+      const cut = simulation.hitFruit(watermelon)
+
+      expect(cut.hitsLeft).toBe(0)
+      expect(cut.pieces.map((piece) => piece.id)).toEqual(['f_1_2:0', 'f_1_2:1', 'f_1_2:2'])
+      cut.pieces.forEach((piece) => {
+        expect(piece.type).toBe('melon-wedge')
+        expect(piece.parentId).toBe('f_1_2')
+      })
+      expect(simulation.getFruit('f_1_2')).toBeNull()
+      expect(simulation.activeFruits.map((fruit) => fruit.id)).toEqual(['f_1_2:0', 'f_1_2:1', 'f_1_2:2'])
+    })
+
+    it('keeps a tough fruit whole until its last hit', () => {
+      const simulation = seeded()
+      const pomegranate = simulation.addFruit(fruitAt('tough', 0, 0, 'pomegranate'))
+
+      expect(simulation.hitFruit(pomegranate).hitsLeft).toBe(2)
+      expect(simulation.hitFruit(pomegranate).hitsLeft).toBe(1)
+      expect(simulation.getFruit('tough')).not.toBeNull()
+
+      const lastCut = simulation.hitFruit(pomegranate)
+      expect(lastCut.hitsLeft).toBe(0)
+      expect(lastCut.pieces).toEqual([])
+      expect(simulation.getFruit('tough')).toBeNull()
+    })
+
+    it('never splits a bomb', () => {
+      const simulation = seeded()
+      const bomb = simulation.addFruit(fruitAt('boom', 0, 0, 'bomb'))
+
+      const cut = simulation.hitFruit(bomb)
+
+      expect(cut.pieces).toEqual([])
+      expect(cut.powerUp).toBeUndefined()
+      expect(simulation.activeFruits).toHaveLength(0)
+    })
+  })
+
+  describe('power-ups', () => {
+    it('sets off the power-up of the fruit it cuts', () => {
+      const simulation = seeded()
+      const frostBerry = simulation.addFruit(fruitAt('cold', 0, 0, 'frost-berry'))
+
+      expect(simulation.hitFruit(frostBerry).powerUp).toBe('freeze')
+      expect(simulation.isPowerUpActive('freeze')).toBe(true)
+    })
+
+    it('runs out after its length in simulated time', () => {
+      const simulation = seeded()
+      simulation.hitFruit(simulation.addFruit(fruitAt('cold', 0, 0, 'frost-berry')))
+      expect(simulation.getPowerUpTimers()).toEqual({ freeze: POWER_UP_SECONDS.freeze })
+
+      for (let i = 0; i < POWER_UP_SECONDS.freeze * SIMULATION_HZ - 1; i++) simulation.step()
+      expect(simulation.isPowerUpActive('freeze')).toBe(true)
+
+      simulation.step()
+      expect(simulation.isPowerUpActive('freeze')).toBe(false)
+      expect(simulation.getPowerUpTimers()).toEqual({})
+    })
+
+    it('doubles the points of cuts made while double is running', () => {
+      const simulation = seeded()
+      const before = simulation.hitFruit(simulation.addFruit(fruitAt('first', 0, 0)))
+      simulation.hitFruit(simulation.addFruit(fruitAt('dragon', 0, 0, 'dragon-fruit')))
+      const during = simulation.hitFruit(simulation.addFruit(fruitAt('second', 0, 0)))
+
+      expect(before.doublePoints).toBe(false)
+      expect(during.doublePoints).toBe(true)
+    })
+
+    it('launches a frenzy of fruit named after the star fruit that set it off', () => {
+      const simulation = seeded()
+      simulation.hitFruit(simulation.addFruit(fruitAt('star', 0, 0, 'star-fruit')))
+
+      const launched = runSchedule(simulation, POWER_UP_SECONDS.frenzy * SIMULATION_HZ)
+        .filter(({ id }) => id.startsWith('star:'))
+
+      expect(launched).toHaveLength(FRENZY_FRUIT_COUNT)
+      expect(launched[0]).toMatchObject({ tick: 1, id: 'star:0' })
+      expect(launched[1]).toMatchObject({ tick: 1 + FRENZY_SPAWN_TICKS, id: 'star:1' })
+    })
+
+    it('clears running power-ups on reset', () => {
+      const simulation = seeded()
+      simulation.hitFruit(simulation.addFruit(fruitAt('star', 0, 0, 'star-fruit')))
+
+      simulation.reset()
+
+      expect(simulation.getPowerUpTimers()).toEqual({})
+      expect(runSchedule(simulation, 60).some(({ id }) => id.startsWith('star:'))).toBe(false)
+    })
+  })
+
+  describe('pickTargetsSwept', () => {
+    it('hits a fruit whose outline the fingertip crossed', () => {
+      const simulation = seeded()
+      const apple = simulation.addFruit(fruitAt('apple', 0, 0))
+      const center = simulation.projectToScreen(apple)
+
+      const hits = simulation.pickTargetsSwept({ x: center.x - 0.2, y: center.y }, { x: center.x + 0.2, y: center.y })
+
+      expect(hits).toEqual([apple])
+    })
+
+    it('misses a fruit the fingertip passed well clear of', () => {
+      const simulation = seeded()
+      const apple = simulation.addFruit(fruitAt('apple', 0, 0))
+      const center = simulation.projectToScreen(apple)
+
+      const hits = simulation.pickTargetsSwept(
+        { x: center.x - 0.2, y: center.y - 0.3 },
+        { x: center.x + 0.2, y: center.y - 0.3 }
+      )
+
+      expect(hits).toEqual([])
+    })
+
+    it('hits a fruit the fingertip is resting inside', () => {
+      const simulation = seeded()
+      const apple = simulation.addFruit(fruitAt('apple', 0, 0))
+      const center = simulation.projectToScreen(apple)
+
+      expect(simulation.pickTargetsSwept(center, center)).toEqual([apple])
+    })
+
+    it('orders hits along the swipe', () => {
+      const simulation = seeded()
+      const left = simulation.addFruit(fruitAt('left', -0.5, 0))
+      const right = simulation.addFruit(fruitAt('right', 0.5, 0))
+      const leftCenter = simulation.projectToScreen(left)
+      const rightCenter = simulation.projectToScreen(right)
+      const start = { x: leftCenter.x - 0.1, y: leftCenter.y }
+      const end = { x: rightCenter.x + 0.1, y: rightCenter.y }
+
+      expect(simulation.pickTargetsSwept(start, end)).toEqual([left, right])
+      expect(simulation.pickTargetsSwept(end, start)).toEqual([right, left])
+    })
+
+    it('widens the outline with the hitbox radius', () => {
+      const simulation = seeded()
+      const apple = simulation.addFruit(fruitAt('apple', 0, 0))
+      const { center, radiusY } = simulation.projectHitEllipse(apple)
+      const start = { x: center.x - 0.2, y: center.y - radiusY * 1.5 }
+      const end = { x: center.x + 0.2, y: center.y - radiusY * 1.5 }
+
+      expect(simulation.pickTargetsSwept(start, end)).toEqual([])
+      simulation.setHitboxRadius(simulation.getHitboxRadius() * 2)
+      expect(simulation.pickTargetsSwept(start, end)).toEqual([apple])
+    })
+  })
+})
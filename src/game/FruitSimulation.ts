@@ -0,0 +1,651 @@
+import * as THREE from 'three'
+import type { PowerUpKind, PowerUpTimers } from '@/types'
+import { SeededRNG } from '@/multiplayer/SeededRNG'
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, getLevelAt, getLevelParams, type DifficultyConfig, type DifficultyLevel } from './difficulty'
+import {
+  DEFAULT_FRUIT_CATALOG,
+  FRUIT_CATALOGS,
+  getChildFruitType,
+  getFruitSpec,
+  getSplitPieceId,
+  pickCatalogFruit,
+  type FruitCatalog,
+  type FruitSpec,
+} from './fruitCatalog'
+import { FRENZY_FRUIT_COUNT, FRENZY_SPAWN_TICKS, POWER_UP_KINDS, POWER_UP_SECONDS } from './powerUps'
+
+/**
+ * Fruit Simulation
+ * Renderer-agnostic game core: fruit bodies, spawning, gravity, hit testing
+ * and misses. No DOM or WebGL, so it runs in Node (tests, bots, verification)
+ * and FruitGame just draws whatever state it holds.
+ */
+
+export const GRAVITY = new THREE.Vector3(0, -8.0, 0)
+
+// Fixed simulation rate. Every client steps at exactly this rate, so a seeded
+// game spawns fruit N at the same tick everywhere regardless of frame rate.
+export const SIMULATION_HZ = 60
+export const FIXED_TIMESTEP = 1 / SIMULATION_HZ
+
+const MISS_HEIGHT = -2.5
+const SPAWN_HEIGHT = -1.5
+export const DEFAULT_HITBOX_RADIUS = 0.15
+
+export type FruitType =
+  | 'strawberry'
+  | 'orange'
+  | 'apple'
+  | 'watermelon'
+  | 'grape'
+  | 'lemon'
+  | 'kiwi'
+  | 'pomegranate'
+  | 'golden'
+  | 'melon-wedge'
+  | 'frost-berry'
+  | 'star-fruit'
+  | 'dragon-fruit'
+  | 'bomb'
+
+/**
+ * Half-width and half-height of each fruit in world units, matching the
+ * meshes FruitGame draws. Swept hit testing projects these to the screen.
+ */
+export const FRUIT_HIT_SIZES: Record<FruitType, { x: number; y: number }> = {
+  strawberry: { x: 0.25, y: 0.25 },
+  orange: { x: 0.28, y: 0.28 },
+  apple: { x: 0.32, y: 0.32 },
+  watermelon: { x: 0.26, y: 0.34 },
+  grape: { x: 0.18, y: 0.18 },
+  lemon: { x: 0.28, y: 0.28 },
+  kiwi: { x: 0.22, y: 0.26 },
+  pomegranate: { x: 0.3, y: 0.3 },
+  golden: { x: 0.26, y: 0.26 },
+  'melon-wedge': { x: 0.2, y: 0.2 },
+  'frost-berry': { x: 0.24, y: 0.24 },
+  'star-fruit': { x: 0.26, y: 0.26 },
+  'dragon-fruit': { x: 0.26, y: 0.3 },
+  bomb: { x: 0.28, y: 0.28 },
+}
+
+// Split pieces fan out sideways from the fruit they came from
+const SPLIT_SPREAD_SPEED = 1.2
+const SPLIT_LIFT_SPEED = 1.5
+
+// At the default hitbox radius a swept cut lands within this many times a
+// fruit's drawn size; calibrated radii grow or shrink every outline alike
+const SWEPT_HIT_SCALE = 1.5
+
+export interface FruitSpawnData {
+  id: string
+  type: FruitType
+  isBomb: boolean
+  position: { x: number; y: number; z: number }
+  velocity: { x: number; y: number; z: number }
+  spin: { x: number; y: number; z: number }
+  parentId?: string // Set on the pieces of a split fruit
+}
+
+export interface SimFruit {
+  id: string
+  type: FruitType
+  isBomb: boolean
+  hitsLeft: number // Cuts still needed to break it
+  parentId?: string
+  position: THREE.Vector3
+  velocity: THREE.Vector3
+  rotation: THREE.Vector3
+  spin: THREE.Vector3
+  previousPosition: THREE.Vector3 // State one tick ago, for render interpolation
+  previousRotation: THREE.Vector3
+  spawnTick: number
+  age: number // Seconds since spawn
+}
+
+/**
+ * What one cut did to a fruit
+ */
+export interface SimCut {
+  fruit: SimFruit
+  /** Above 0 when it soaked up the hit and is still whole */
+  hitsLeft: number
+  /** Pieces it split into */
+  pieces: SimFruit[]
+  /** Power-up it set off */
+  powerUp?: PowerUpKind
+  /** Double points was already running when the cut landed */
+  doublePoints: boolean
+}
+
+export interface SimulationStepResult {
+  spawned: SimFruit[]
+  missed: SimFruit[]
+  levelChanged: boolean
+}
+
+export interface ScreenPoint {
+  x: number
+  y: number
+}
+
+/**
+ * Projected outline of a fruit in normalized screen coordinates
+ */
+export interface ScreenEllipse {
+  center: ScreenPoint
+  radiusX: number
+  radiusY: number
+}
+
+/**
+ * How a gesture picks what it cuts: only the fruit nearest the fingertip,
+ * everything within the hitbox of an estimated swipe, or everything whose
+ * outline the fingertip crossed since the previous hand sample. Replays keep
+ * the rule they were recorded with.
+ */
+export type SliceRule = 'nearest' | 'swipe' | 'swept'
+
+export const DEFAULT_SLICE_RULE: SliceRule = 'swept'
+
+export interface FruitSimulationOptions {
+  rng?: SeededRNG | null
+  hitboxRadius?: number
+  aspect?: number
+  difficulty?: DifficultyConfig
+  catalog?: FruitCatalog
+}
+
+/**
+ * Camera the playfield is viewed (and hit tested) through
+ */
+export function createGameCamera(aspect = 1): THREE.PerspectiveCamera {
+  const camera = new THREE.PerspectiveCamera(45, aspect, 0.1, 100)
+  camera.position.set(0, 1.5, 4)
+  camera.lookAt(0, 1, 0)
+  camera.updateMatrixWorld()
+  return camera
+}
+
+export class FruitSimulation {
+  readonly camera: THREE.PerspectiveCamera
+  private fruits: SimFruit[] = []
+  private ticksUntilSpawn: number
+  private spawningEnabled = true
+  private tickCount = 0
+  private rng: SeededRNG | null
+  private hitboxRadius: number
+  private difficulty: DifficultyConfig
+  private catalog: FruitCatalog
+  private currentLevel = 1
+  private powerUpTicks: Record<PowerUpKind, number> = { freeze: 0, frenzy: 0, double: 0 }
+  private frenzy: { source: SimFruit; launched: number } | null = null
+  private projectionHelper = new THREE.Vector3()
+
+  constructor(options: FruitSimulationOptions = {}) {
+    this.rng = options.rng ?? null
+    this.hitboxRadius = options.hitboxRadius ?? DEFAULT_HITBOX_RADIUS
+    this.difficulty = options.difficulty ?? DIFFICULTY_PRESETS[DEFAULT_DIFFICULTY]
+    this.catalog = options.catalog ?? FRUIT_CATALOGS[DEFAULT_FRUIT_CATALOG]
+    this.ticksUntilSpawn = this.intervalTicks(this.difficulty.levels[0])
+    this.camera = createGameCamera(options.aspect)
+  }
+
+  get activeFruits(): readonly SimFruit[] {
+    return this.fruits
+  }
+
+  /** Fixed steps taken since creation */
+  get tick(): number {
+    return this.tickCount
+  }
+
+  /** Simulated seconds since creation */
+  get time(): number {
+    return this.tickCount * FIXED_TIMESTEP
+  }
+
+  /** 1-based difficulty level for the current tick */
+  get level(): number {
+    return this.currentLevel
+  }
+
+  /**
+   * Set a seeded RNG for deterministic spawns (multiplayer sync)
+   */
+  setSeededRNG(rng: SeededRNG | null) {
+    this.rng = rng
+  }
+
+  setSpawning(enabled: boolean) {
+    this.spawningEnabled = enabled
+  }
+
+  /**
+   * Difficulty curve to spawn by (set before reset() so the first volley follows it)
+   */
+  setDifficulty(config: DifficultyConfig) {
+    this.difficulty = config
+  }
+
+  getDifficulty(): DifficultyConfig {
+    return this.difficulty
+  }
+
+  /**
+   * Swap the fruit catalog spawns are rolled from
+   */
+  setCatalog(catalog: FruitCatalog) {
+    this.catalog = catalog
+  }
+
+  getCatalog(): FruitCatalog {
+    return this.catalog
+  }
+
+  /** Catalog entry for a fruit type */
+  getFruitSpec(type: FruitType): FruitSpec {
+    return getFruitSpec(this.catalog, type)
+  }
+
+  isPowerUpActive(kind: PowerUpKind): boolean {
+    return this.powerUpTicks[kind] > 0
+  }
+
+  /**
+   * Whole simulated seconds left on each running power-up
+   */
+  getPowerUpTimers(): PowerUpTimers {
+    const timers: PowerUpTimers = {}
+    for (const kind of POWER_UP_KINDS) {
+      if (this.powerUpTicks[kind] > 0) timers[kind] = Math.ceil(this.powerUpTicks[kind] / SIMULATION_HZ)
+    }
+    return timers
+  }
+
+  /**
+   * Slice hitbox radius in normalized screen coordinates
+   */
+  setHitboxRadius(radius: number) {
+    this.hitboxRadius = radius
+  }
+
+  getHitboxRadius(): number {
+    return this.hitboxRadius
+  }
+
+  /**
+   * Match the projection used for hit testing to the rendered viewport
+   */
+  setAspect(aspect: number) {
+    this.camera.aspect = aspect
+    this.camera.updateProjectionMatrix()
+  }
+
+  /**
+   * Advance the simulation by one fixed tick.
+   * Same rng seed + same number of ticks = same fruits.
+   */
+  step(): SimulationStepResult {
+    const dt = FIXED_TIMESTEP
+    const spawned: SimFruit[] = []
+    const missed: SimFruit[] = []
+
+    this.tickCount++
+
+    const level = getLevelAt(this.difficulty, this.time)
+    const levelChanged = level !== this.currentLevel
+    this.currentLevel = level
+
+    if (this.spawningEnabled) {
+      this.ticksUntilSpawn--
+      if (this.ticksUntilSpawn <= 0) {
+        const params = getLevelParams(this.difficulty, level)
+        // Use seeded RNG if available, otherwise Math.random
+        const headStart = this.randFloat(0, params.spawnJitter)
+        this.ticksUntilSpawn = this.intervalTicks(params) - Math.round(headStart * SIMULATION_HZ)
+        const { min, max } = params.fruitsPerVolley
+        // Single-fruit volleys skip the roll so older seeded rounds spawn identically
+        const count = min === max ? min : min + Math.floor(this.random() * (max - min + 1))
+        for (let i = 0; i < count; i++) {
+          spawned.push(this.spawnFruit(params))
+        }
+      }
+    }
+    this.stepPowerUps(spawned)
+
+    this.fruits = this.fruits.filter((fruit) => {
+      fruit.previousPosition.copy(fruit.position)
+      fruit.previousRotation.copy(fruit.rotation)
+      fruit.velocity.addScaledVector(GRAVITY, dt)
+      fruit.position.addScaledVector(fruit.velocity, dt)
+      fruit.rotation.addScaledVector(fruit.spin, dt)
+      fruit.age += dt
+
+      const alive = fruit.position.y > MISS_HEIGHT
+      if (!alive) {
+        missed.push(fruit)
+      }
+      return alive
+    })
+
+    return { spawned, missed, levelChanged }
+  }
+
+  /**
+   * Add a fruit from explicit spawn data (e.g. mirrored from another client)
+   */
+  addFruit(data: FruitSpawnData): SimFruit {
+    const position = new THREE.Vector3(data.position.x, data.position.y, data.position.z)
+    const fruit: SimFruit = {
+      id: data.id,
+      type: data.type,
+      isBomb: data.isBomb,
+      hitsLeft: data.isBomb ? 1 : (this.getFruitSpec(data.type).hits ?? 1),
+      parentId: data.parentId,
+      position,
+      velocity: new THREE.Vector3(data.velocity.x, data.velocity.y, data.velocity.z),
+      rotation: new THREE.Vector3(),
+      spin: new THREE.Vector3(data.spin.x, data.spin.y, data.spin.z),
+      previousPosition: position.clone(),
+      previousRotation: new THREE.Vector3(),
+      spawnTick: this.tickCount,
+      age: 0,
+    }
+    this.fruits.push(fruit)
+    return fruit
+  }
+
+  /**
+   * Nearest fruit (or bomb) within the hitbox of a normalized screen point
+   */
+  pickTarget(point: ScreenPoint, radius = this.hitboxRadius): SimFruit | null {
+    let bestFruit: SimFruit | null = null
+    let bestDistance = Infinity
+    for (const fruit of this.fruits) {
+      const screen = this.projectToScreen(fruit)
+      const distance = Math.hypot(screen.x - point.x, screen.y - point.y)
+      if (distance > radius) continue
+      if (distance < bestDistance) {
+        bestFruit = fruit
+        bestDistance = distance
+      }
+    }
+    return bestFruit
+  }
+
+  /**
+   * Every fruit (and bomb) whose hitbox the segment passes through, ordered
+   * from the start of the segment to its end
+   */
+  pickTargetsAlong(start: ScreenPoint, end: ScreenPoint, radius = this.hitboxRadius): SimFruit[] {
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const lengthSq = dx * dx + dy * dy
+    const hits: { fruit: SimFruit; along: number }[] = []
+
+    for (const fruit of this.fruits) {
+      const screen = this.projectToScreen(fruit)
+      // Closest point on the segment to the fruit
+      const along = lengthSq > 0
+        ? THREE.MathUtils.clamp(((screen.x - start.x) * dx + (screen.y - start.y) * dy) / lengthSq, 0, 1)
+        : 0
+      const distance = Math.hypot(screen.x - (start.x + dx * along), screen.y - (start.y + dy * along))
+      if (distance <= radius) hits.push({ fruit, along })
+    }
+
+    return hits.sort((a, b) => a.along - b.along).map((hit) => hit.fruit)
+  }
+
+  /**
+   * Hit test a swipe segment and cut everything it crossed
+   */
+  sliceAlong(start: ScreenPoint, end: ScreenPoint): SimCut[] {
+    return this.pickTargetsAlong(start, end).map((target) => this.hitFruit(target))
+  }
+
+  /**
+   * Every fruit (and bomb) whose projected outline the fingertip crossed
+   * moving from `start` to `end`, in the order it reached them
+   */
+  pickTargetsSwept(start: ScreenPoint, end: ScreenPoint): SimFruit[] {
+    const hits: { fruit: SimFruit; along: number }[] = []
+
+    for (const fruit of this.fruits) {
+      const { center, radiusX, radiusY } = this.projectHitEllipse(fruit)
+      // Scale the ellipse to a unit circle and test the segment against that
+      const ax = (start.x - center.x) / radiusX
+      const ay = (start.y - center.y) / radiusY
+      const dx = (end.x - start.x) / radiusX
+      const dy = (end.y - start.y) / radiusY
+      const lengthSq = dx * dx + dy * dy
+      const along = lengthSq > 0 ? THREE.MathUtils.clamp(-(ax * dx + ay * dy) / lengthSq, 0, 1) : 0
+      if (Math.hypot(ax + dx * along, ay + dy * along) <= 1) hits.push({ fruit, along })
+    }
+
+    return hits.sort((a, b) => a.along - b.along).map((hit) => hit.fruit)
+  }
+
+  /**
+   * Hit test the fingertip's path between two samples and cut everything it crossed
+   */
+  sliceSwept(start: ScreenPoint, end: ScreenPoint): SimCut[] {
+    return this.pickTargetsSwept(start, end).map((target) => this.hitFruit(target))
+  }
+
+  /**
+   * Hit test a point and cut whatever was hit
+   */
+  slice(point: ScreenPoint): SimCut | null {
+    const target = this.pickTarget(point)
+    return target ? this.hitFruit(target) : null
+  }
+
+  /**
+   * Land one cut: tough fruit soak it up until their last hit, everything
+   * else is removed, and splitting fruit leave their pieces behind
+   */
+  hitFruit(fruit: SimFruit): SimCut {
+    const doublePoints = this.isPowerUpActive('double')
+    fruit.hitsLeft = Math.max(0, fruit.hitsLeft - 1)
+    if (fruit.hitsLeft > 0) return { fruit, hitsLeft: fruit.hitsLeft, pieces: [], doublePoints }
+
+    this.removeFruit(fruit.id)
+    const powerUp = fruit.isBomb ? undefined : this.getFruitSpec(fruit.type).powerUp
+    if (powerUp) this.startPowerUp(powerUp, fruit)
+    return { fruit, hitsLeft: 0, pieces: this.splitFruit(fruit), powerUp, doublePoints }
+  }
+
+  /**
+   * Run a power-up for its full length (cutting another restarts it)
+   */
+  startPowerUp(kind: PowerUpKind, source: SimFruit) {
+    this.powerUpTicks[kind] = Math.round(POWER_UP_SECONDS[kind] * SIMULATION_HZ)
+    if (kind === 'frenzy') {
+      this.frenzy = { source, launched: 0 }
+    }
+  }
+
+  getFruit(fruitId: string): SimFruit | null {
+    return this.fruits.find((f) => f.id === fruitId) ?? null
+  }
+
+  removeFruit(fruitId: string): SimFruit | null {
+    const fruit = this.getFruit(fruitId)
+    if (fruit) {
+      this.fruits = this.fruits.filter((f) => f.id !== fruitId)
+    }
+    return fruit
+  }
+
+  clear() {
+    this.fruits = []
+    this.clearPowerUps()
+  }
+
+  /**
+   * Start over from tick 0 (optionally with a fresh rng), as if just created
+   */
+  reset(rng: SeededRNG | null = this.rng) {
+    this.rng = rng
+    this.fruits = []
+    this.tickCount = 0
+    this.currentLevel = 1
+    this.ticksUntilSpawn = this.intervalTicks(this.difficulty.levels[0])
+    this.clearPowerUps()
+  }
+
+  /**
+   * Project a fruit into normalized screen coordinates (0-1, y down)
+   */
+  projectToScreen(fruit: SimFruit): ScreenPoint {
+    this.projectionHelper.copy(fruit.position)
+    this.projectionHelper.project(this.camera)
+    return {
+      x: (this.projectionHelper.x + 1) / 2,
+      y: (1 - this.projectionHelper.y) / 2,
+    }
+  }
+
+  /**
+   * Screen-space outline a swept cut has to cross to hit this fruit, sized by
+   * its type and the hitbox radius
+   */
+  projectHitEllipse(fruit: SimFruit): ScreenEllipse {
+    const size = FRUIT_HIT_SIZES[fruit.type]
+    const scale = SWEPT_HIT_SCALE * (this.hitboxRadius / DEFAULT_HITBOX_RADIUS)
+    const center = this.projectToScreen(fruit)
+
+    this.projectionHelper.copy(fruit.position)
+    this.projectionHelper.x += size.x * scale
+    this.projectionHelper.project(this.camera)
+    const radiusX = Math.abs((this.projectionHelper.x + 1) / 2 - center.x)
+
+    this.projectionHelper.copy(fruit.position)
+    this.projectionHelper.y += size.y * scale
+    this.projectionHelper.project(this.camera)
+    const radiusY = Math.abs((1 - this.projectionHelper.y) / 2 - center.y)
+
+    return {
+      center,
+      radiusX: Math.max(radiusX, Number.EPSILON),
+      radiusY: Math.max(radiusY, Number.EPSILON),
+    }
+  }
+
+  private random(): number {
+    return this.rng ? this.rng.next() : Math.random()
+  }
+
+  private randFloat(min: number, max: number): number {
+    return this.rng ? this.rng.nextFloat(min, max) : THREE.MathUtils.randFloat(min, max)
+  }
+
+  private intervalTicks(params: DifficultyLevel): number {
+    return Math.round(params.spawnInterval * SIMULATION_HZ)
+  }
+
+  private pickFruitType(bombChance: number): FruitType {
+    if (this.random() < bombChance) return 'bomb'
+    return pickCatalogFruit(this.catalog, this.random())
+  }
+
+  private clearPowerUps() {
+    POWER_UP_KINDS.forEach((kind) => {
+      this.powerUpTicks[kind] = 0
+    })
+    this.frenzy = null
+  }
+
+  // Count power-ups down, launching frenzy fruit on the way
+  private stepPowerUps(spawned: SimFruit[]) {
+    if (this.frenzy && this.spawningEnabled && this.frenzy.launched < FRENZY_FRUIT_COUNT) {
+      const elapsed = Math.round(POWER_UP_SECONDS.frenzy * SIMULATION_HZ) - this.powerUpTicks.frenzy
+      if (elapsed % FRENZY_SPAWN_TICKS === 0) {
+        const fruit = this.launchFrenzyFruit(this.frenzy)
+        if (fruit) spawned.push(fruit)
+      }
+    }
+
+    POWER_UP_KINDS.forEach((kind) => {
+      this.powerUpTicks[kind] = Math.max(0, this.powerUpTicks[kind] - 1)
+    })
+    if (this.powerUpTicks.frenzy === 0) this.frenzy = null
+  }
+
+  // Like split pieces, frenzy fruit follow a fixed pattern instead of the rng
+  private launchFrenzyFruit(frenzy: { source: SimFruit; launched: number }): SimFruit | null {
+    const index = frenzy.launched++
+    const type = getChildFruitType(this.catalog, frenzy.source.type, index)
+    if (!type) return null
+
+    // Golden-ratio steps spread the launches evenly across the screen
+    const lane = ((index * 0.618) % 1) * 1.8 - 0.9
+    return this.addFruit({
+      id: getSplitPieceId(frenzy.source.id, index),
+      type,
+      isBomb: false,
+      position: { x: lane, y: SPAWN_HEIGHT, z: 0 },
+      velocity: { x: -lane * 0.4, y: 6.2 + (index % 3) * 0.4, z: 0 },
+      spin: { x: 2, y: 3, z: index % 2 === 0 ? 2 : -2 },
+      parentId: frenzy.source.id,
+    })
+  }
+
+  // Fixed fan pattern and ids from the parent: pieces never draw from the rng,
+  // so one player's cuts can't shift the spawns the other player sees
+  private splitFruit(fruit: SimFruit): SimFruit[] {
+    const split = fruit.isBomb ? undefined : this.getFruitSpec(fruit.type).splitsInto
+    if (!split) return []
+
+    return Array.from({ length: split.count }, (_, index) => {
+      const spread = index - (split.count - 1) / 2
+      return this.addFruit({
+        id: getSplitPieceId(fruit.id, index),
+        type: split.type,
+        isBomb: false,
+        position: { x: fruit.position.x, y: fruit.position.y, z: fruit.position.z },
+        velocity: {
+          x: fruit.velocity.x + spread * SPLIT_SPREAD_SPEED,
+          y: Math.max(fruit.velocity.y, 0) + SPLIT_LIFT_SPEED,
+          z: fruit.velocity.z,
+        },
+        spin: { x: spread * 4, y: 3, z: -spread * 4 },
+        parentId: fruit.id,
+      })
+    })
+  }
+
+  private spawnFruit(params: DifficultyLevel): SimFruit {
+    const type = this.pickFruitType(params.bombChance)
+    const startX = this.randFloat(-0.9, 0.9)
+    const startZ = this.randFloat(-0.3, 0.3)
+
+    const velocity = {
+      x: this.randFloat(-params.lateralSpeed, params.lateralSpeed),
+      y: this.randFloat(params.launchSpeed.min, params.launchSpeed.max),
+      z: this.randFloat(-0.15, 0.15),
+    }
+
+    const spin = {
+      x: this.randFloat(-3, 3),
+      y: this.randFloat(-3, 3),
+      z: this.randFloat(-3, 3),
+    }
+
+    // Use deterministic ID for multiplayer sync (based only on seeded RNG)
+    // This ensures both clients generate the same fruit IDs
+    const id = this.rng
+      ? `f_${Math.floor(this.rng.next() * 1000000)}_${Math.floor(this.rng.next() * 1000000)}`
+      : THREE.MathUtils.generateUUID()
+
+    return this.addFruit({
+      id,
+      type,
+      isBomb: type === 'bomb',
+      position: { x: startX, y: SPAWN_HEIGHT, z: startZ },
+      velocity,
+      spin,
+    })
+  }
+}
@@ -0,0 +1,236 @@
+import { SeededRNG } from '@/multiplayer/SeededRNG'
+import type { FruitGame, SliceResult } from './FruitGame'
+import type { Replay } from './replay'
+import { DEFAULT_DIFFICULTY } from './difficulty'
+import { DEFAULT_SLICE_RULE } from './FruitSimulation'
+import { DEFAULT_FRUIT_CATALOG } from './fruitCatalog'
+import {
+  BOMB_PENALTY,
+  decayCombo,
+  formatFruitPopup,
+  formatHitsLeftPopup,
+  formatMultiSlicePopup,
+  getFruitPoints,
+  getFruitPopupTone,
+  getPointsMultiplier,
+  getMultiSliceBonus,
+  hasComboLapsed,
+  missDecaysCombo,
+} from './scoring'
+
+/**
+ * Replay Player
+ * Re-drives a FruitGame from a recorded replay: same seed, same settings and
+ * every recorded gesture fed back in right after the tick it happened on.
+ * Seeking re-simulates from tick 0, which is cheap at a fixed 60Hz.
+ */
+
+export interface ReplayPlaybackState {
+  tick: number
+  totalTicks: number
+  playing: boolean
+  speed: number
+  score: number
+  combo: number
+  lives: number | null // Solo rounds only
+}
+
+export type ReplayUpdateCallback = (state: ReplayPlaybackState) => void
+
+export class ReplayPlayer {
+  private game: FruitGame
+  private replay: Replay
+  private cursor = 0
+  private lastSliceTick: number | null = null
+  private seeking = false
+  private state: ReplayPlaybackState
+  private onUpdate: ReplayUpdateCallback | null = null
+
+  constructor(game: FruitGame, replay: Replay) {
+    this.game = game
+    this.replay = replay
+    this.state = {
+      tick: 0,
+      totalTicks: replay.durationTicks,
+      playing: false,
+      speed: 1,
+      score: 0,
+      combo: 0,
+      lives: null,
+    }
+
+    game.setFixedAspect(replay.settings.aspect)
+    game.setSliceHitboxRadius(replay.settings.hitboxRadius)
+    game.setDifficulty(replay.settings.difficulty ?? 'constant')
+    game.setSliceRule(replay.settings.sliceRule ?? 'nearest')
+    game.setFruitCatalog(replay.settings.fruitCatalog ?? 'uniform')
+    game.setSpawning(true)
+    game.setTimeScale(0)
+    game.setOnTick(this.handleTick)
+    game.setOnFruitMissed(this.handleMiss)
+    this.restart()
+  }
+
+  getState(): ReplayPlaybackState {
+    return { ...this.state }
+  }
+
+  setOnUpdate(callback: ReplayUpdateCallback | null) {
+    this.onUpdate = callback
+  }
+
+  play() {
+    if (this.state.tick >= this.state.totalTicks) {
+      this.seek(0)
+    }
+    this.state.playing = true
+    this.game.setTimeScale(this.state.speed)
+    this.emit()
+  }
+
+  pause() {
+    this.state.playing = false
+    this.game.setTimeScale(0)
+    this.emit()
+  }
+
+  setSpeed(speed: number) {
+    this.state.speed = speed
+    if (this.state.playing) {
+      this.game.setTimeScale(speed)
+    }
+    this.emit()
+  }
+
+  /**
+   * Jump to a tick by replaying the round from the start up to it
+   */
+  seek(tick: number) {
+    const target = Math.max(0, Math.min(Math.round(tick), this.state.totalTicks))
+    this.game.setTimeScale(0)
+    // Skipped-over slices shouldn't all sound at once
+    this.game.setSoundEnabled(false)
+    this.restart()
+
+    this.seeking = true
+    this.game.fastForward(target)
+    this.seeking = false
+    this.game.setSoundEnabled(true)
+
+    if (target >= this.state.totalTicks) {
+      this.state.playing = false
+    }
+    this.game.setTimeScale(this.state.playing ? this.state.speed : 0)
+    this.emit()
+  }
+
+  dispose() {
+    this.game.setOnTick(null)
+    this.game.setOnFruitMissed(null)
+    this.game.setFixedAspect(null)
+    this.game.setDifficulty(DEFAULT_DIFFICULTY)
+    this.game.setSliceRule(DEFAULT_SLICE_RULE)
+    this.game.setFruitCatalog(DEFAULT_FRUIT_CATALOG)
+    this.onUpdate = null
+  }
+
+  private restart() {
+    this.game.reset(new SeededRNG(this.replay.seed))
+    this.cursor = 0
+    this.lastSliceTick = null
+    this.state.tick = 0
+    this.state.score = 0
+    this.state.combo = 0
+    this.state.lives = this.replay.settings.mode !== 'multiplayer' ? (this.replay.settings.lives ?? 3) : null
+    this.applyGestures(0)
+  }
+
+  private handleTick = (tick: number) => {
+    this.state.tick = tick
+    // Checked before this tick's gestures, like the playfield's onTick
+    if (hasComboLapsed(this.replay.settings.mode, this.lastSliceTick, tick)) {
+      this.state.combo = 0
+      this.lastSliceTick = null
+    }
+    this.applyGestures(tick)
+
+    if (tick >= this.state.totalTicks) {
+      this.state.playing = false
+      this.game.setTimeScale(0)
+    }
+    if (!this.seeking) {
+      this.emit()
+    }
+  }
+
+  private handleMiss = () => {
+    // Single-player rounds lose part of the combo on a missed fruit (except in Zen)
+    if (missDecaysCombo(this.replay.settings.mode)) {
+      this.state.combo = decayCombo(this.state.combo)
+    }
+    // Classic also takes a life for it
+    if (this.replay.settings.mode === 'classic' && this.state.lives !== null) {
+      this.state.lives = Math.max(0, this.state.lives - 1)
+    }
+  }
+
+  // Feed every gesture recorded at or before this tick
+  private applyGestures(tick: number) {
+    const { gestures } = this.replay
+    while (this.cursor < gestures.length && gestures[this.cursor].tick <= tick) {
+      const results = this.game.handleGesture(gestures[this.cursor].gesture)
+      if (results.length) this.scoreGesture(results, gestures[this.cursor].tick)
+      this.cursor++
+    }
+  }
+
+  // Same scoring as the playfields
+  private scoreGesture(results: SliceResult[], tick: number) {
+    const { mode } = this.replay.settings
+    const showPopups = !this.seeking
+    let fruitCount = 0
+    let lastFruit: SliceResult | null = null
+
+    for (const result of results) {
+      if (result.isBomb) {
+        this.state.score = Math.max(0, this.state.score - BOMB_PENALTY)
+        this.state.combo = 0
+        if (showPopups) this.game.showScorePopup(result.position, `-${BOMB_PENALTY}`, 'penalty')
+        if (this.state.lives !== null) {
+          this.state.lives = mode === 'classic' ? 0 : Math.max(0, this.state.lives - 1)
+          // The round ended on this bomb; nothing after it in the swipe counted
+          if (this.state.lives === 0) break
+        }
+      } else if (result.hitsLeft > 0) {
+        if (showPopups) this.game.showScorePopup(result.position, formatHitsLeftPopup(result.hitsLeft))
+      } else {
+        this.state.combo++
+        const points = getFruitPoints(mode, this.state.combo, result.points, result.doublePoints)
+        this.state.score += points
+        this.lastSliceTick = tick
+        fruitCount++
+        lastFruit = result
+        if (showPopups) {
+          this.game.showScorePopup(
+            result.position,
+            formatFruitPopup(points, getPointsMultiplier(mode, this.state.combo, result.doublePoints)),
+            getFruitPopupTone(result.points)
+          )
+        }
+      }
+    }
+
+    const bonus = getMultiSliceBonus(mode, fruitCount)
+    if (bonus > 0 && lastFruit) {
+      this.state.score += bonus
+      if (showPopups) {
+        const { x, y, z } = lastFruit.position
+        this.game.showScorePopup({ x, y: y + 0.3, z }, formatMultiSlicePopup(fruitCount, bonus), 'bonus')
+      }
+    }
+  }
+
+  private emit() {
+    this.onUpdate?.(this.getState())
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Daily challenge helpers
+ * Everyone gets the same spawn sequence for a given UTC day
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** UTC calendar day as YYYY-MM-DD, so the whole world shares one challenge */
+export const getDailyKey = (date: Date = new Date()): string => date.toISOString().slice(0, 10)
+
+/** Day key for the day before the given one */
+export const getPreviousDailyKey = (dailyKey: string): string =>
+  getDailyKey(new Date(Date.parse(`${dailyKey}T00:00:00Z`) - DAY_MS))
+
+/** Stable spawn seed for a day (FNV-1a hash of the day key) */
+export const getDailySeed = (dailyKey: string = getDailyKey()): number => {
+  let hash = 0x811c9dc5
+  const text = `frootninja-daily-${dailyKey}`
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) & 0x7fffffff
+}
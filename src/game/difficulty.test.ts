@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { DIFFICULTY_PRESETS, getLevelAt, getLevelParams } from './difficulty'
+
+const { constant, standard, classic, zen } = DIFFICULTY_PRESETS
+
+describe('getLevelAt', () => {
+  it('stays on level 1 for the constant preset', () => {
+    expect(getLevelAt(constant, 0)).toBe(1)
+    expect(getLevelAt(constant, 600)).toBe(1)
+  })
+
+  it('moves up a level as each one starts', () => {
+    expect(getLevelAt(standard, 0)).toBe(1)
+    expect(getLevelAt(standard, 7.99)).toBe(1)
+    expect(getLevelAt(standard, 8)).toBe(2)
+    expect(getLevelAt(standard, 24)).toBe(4)
+    expect(getLevelAt(standard, 60)).toBe(6)
+  })
+
+  it('stops at the last level without an endless ramp', () => {
+    expect(getLevelAt(standard, 600)).toBe(standard.levels.length)
+    expect(getLevelAt(zen, 600)).toBe(4)
+  })
+
+  it('keeps adding levels past the last one with an endless ramp', () => {
+    // Classic's last listed level starts at 75, then one more every 25 seconds
+    expect(getLevelAt(classic, 75)).toBe(5)
+    expect(getLevelAt(classic, 99.99)).toBe(5)
+    expect(getLevelAt(classic, 100)).toBe(6)
+    expect(getLevelAt(classic, 175)).toBe(9)
+  })
+})
+
+describe('getLevelParams', () => {
+  it('returns the listed levels as they are', () => {
+    standard.levels.forEach((level, index) => {
+      expect(getLevelParams(standard, index + 1)).toBe(level)
+    })
+  })
+
+  it('treats levels below 1 as level 1', () => {
+    expect(getLevelParams(standard, 0)).toBe(standard.levels[0])
+  })
+
+  it('repeats the last level without an endless ramp', () => {
+    expect(getLevelParams(standard, 20)).toBe(standard.levels[standard.levels.length - 1])
+  })
+
+  it('ramps the spawn interval and bomb chance past the listed levels', () => {
+    const last = classic.levels[classic.levels.length - 1]
+    const next = getLevelParams(classic, classic.levels.length + 1)
+
+    expect(next.startsAt).toBe(last.startsAt + 25)
+    expect(next.spawnInterval).toBeCloseTo(last.spawnInterval - 0.05)
+    expect(next.bombChance).toBeCloseTo(last.bombChance + 0.01)
+    expect(next.fruitsPerVolley).toEqual(last.fruitsPerVolley)
+  })
+
+  it('holds the ramp at its limits', () => {
+    const deep = getLevelParams(classic, 100)
+
+    expect(deep.spawnInterval).toBe(classic.endless!.minSpawnInterval)
+    expect(deep.bombChance).toBe(classic.endless!.maxBombChance)
+  })
+
+  it('starts each ramped level when getLevelAt reaches it', () => {
+    for (let level = classic.levels.length; level < classic.levels.length + 5; level++) {
+      const { startsAt } = getLevelParams(classic, level)
+
+      expect(getLevelAt(classic, startsAt)).toBe(level)
+      expect(getLevelAt(classic, startsAt - 0.01)).toBe(level - 1)
+    }
+  })
+
+  it('never launches bombs in zen', () => {
+    for (let level = 1; level <= 10; level++) {
+      expect(getLevelParams(zen, level).bombChance).toBe(0)
+    }
+  })
+})
@@ -0,0 +1,206 @@
+/**
+ * Difficulty curves
+ * Levels advance with simulated time, so a seeded round spawns the same fruit
+ * on every client and in every replay no matter how it is played.
+ */
+
+export interface Range {
+  min: number
+  max: number
+}
+
+export interface DifficultyLevel {
+  /** Simulated seconds into the round this level starts */
+  startsAt: number
+  /** Seconds between volleys */
+  spawnInterval: number
+  /** Up to this many seconds are randomly shaved off each interval */
+  spawnJitter: number
+  /** Fruit (or bombs) launched together in one volley */
+  fruitsPerVolley: Range
+  /** Chance each launched object is a bomb (0-1) */
+  bombChance: number
+  /** Upward launch speed; higher means taller arcs that stay on screen longer */
+  launchSpeed: Range
+  /** Largest sideways launch speed either way */
+  lateralSpeed: number
+}
+
+/** Keeps adding levels past the last listed one, each a notch harder */
+export interface DifficultyRamp {
+  /** Seconds per extra level */
+  every: number
+  /** Taken off the spawn interval each extra level, down to minSpawnInterval */
+  spawnIntervalStep: number
+  minSpawnInterval: number
+  /** Added to the bomb chance each extra level, up to maxBombChance */
+  bombChanceStep: number
+  maxBombChance: number
+}
+
+export interface DifficultyConfig {
+  /** Ordered by startsAt; the first level must start at 0 */
+  levels: DifficultyLevel[]
+  /** Without a ramp the last level lasts for the rest of the round */
+  endless?: DifficultyRamp
+}
+
+export type DifficultyPreset = 'constant' | 'standard' | 'classic' | 'zen'
+
+/** Level 1 is the pace every round used before progression existed */
+const BASE_LEVEL: DifficultyLevel = {
+  startsAt: 0,
+  spawnInterval: 1,
+  spawnJitter: 0.3,
+  fruitsPerVolley: { min: 1, max: 1 },
+  bombChance: 0.15,
+  launchSpeed: { min: 5.5, max: 7 },
+  lateralSpeed: 0.4,
+}
+
+const STANDARD_LEVELS: DifficultyLevel[] = [
+  { ...BASE_LEVEL, bombChance: 0.1 },
+  {
+    startsAt: 8,
+    spawnInterval: 0.9,
+    spawnJitter: 0.3,
+    fruitsPerVolley: { min: 1, max: 2 },
+    bombChance: 0.13,
+    launchSpeed: { min: 5.8, max: 7.2 },
+    lateralSpeed: 0.5,
+  },
+  {
+    startsAt: 16,
+    spawnInterval: 0.8,
+    spawnJitter: 0.25,
+    fruitsPerVolley: { min: 1, max: 2 },
+    bombChance: 0.16,
+    launchSpeed: { min: 6, max: 7.5 },
+    lateralSpeed: 0.6,
+  },
+  {
+    startsAt: 24,
+    spawnInterval: 0.7,
+    spawnJitter: 0.25,
+    fruitsPerVolley: { min: 2, max: 3 },
+    bombChance: 0.18,
+    launchSpeed: { min: 6.2, max: 7.8 },
+    lateralSpeed: 0.7,
+  },
+  {
+    startsAt: 40,
+    spawnInterval: 0.6,
+    spawnJitter: 0.2,
+    fruitsPerVolley: { min: 2, max: 3 },
+    bombChance: 0.2,
+    launchSpeed: { min: 6.5, max: 8 },
+    lateralSpeed: 0.8,
+  },
+  {
+    startsAt: 60,
+    spawnInterval: 0.5,
+    spawnJitter: 0.2,
+    fruitsPerVolley: { min: 2, max: 4 },
+    bombChance: 0.22,
+    launchSpeed: { min: 6.5, max: 8.2 },
+    lateralSpeed: 0.9,
+  },
+]
+
+export const DIFFICULTY_PRESETS: Record<DifficultyPreset, DifficultyConfig> = {
+  // One level for the whole round (replays recorded before progression)
+  constant: {
+    levels: [BASE_LEVEL],
+  },
+  standard: {
+    levels: STANDARD_LEVELS,
+  },
+  // No bombs, and the pace stops climbing partway up the standard curve
+  zen: {
+    levels: STANDARD_LEVELS.slice(0, 4).map((level) => ({ ...level, bombChance: 0 })),
+  },
+  // Gentler volleys since every miss costs a life, then harder forever
+  classic: {
+    levels: [
+      { ...BASE_LEVEL, spawnInterval: 1.2, bombChance: 0.08 },
+      {
+        startsAt: 15,
+        spawnInterval: 1,
+        spawnJitter: 0.3,
+        fruitsPerVolley: { min: 1, max: 2 },
+        bombChance: 0.1,
+        launchSpeed: { min: 5.5, max: 7.2 },
+        lateralSpeed: 0.5,
+      },
+      {
+        startsAt: 30,
+        spawnInterval: 0.9,
+        spawnJitter: 0.25,
+        fruitsPerVolley: { min: 1, max: 2 },
+        bombChance: 0.12,
+        launchSpeed: { min: 5.8, max: 7.4 },
+        lateralSpeed: 0.5,
+      },
+      {
+        startsAt: 50,
+        spawnInterval: 0.8,
+        spawnJitter: 0.25,
+        fruitsPerVolley: { min: 2, max: 3 },
+        bombChance: 0.14,
+        launchSpeed: { min: 6, max: 7.6 },
+        lateralSpeed: 0.6,
+      },
+      {
+        startsAt: 75,
+        spawnInterval: 0.7,
+        spawnJitter: 0.2,
+        fruitsPerVolley: { min: 2, max: 3 },
+        bombChance: 0.16,
+        launchSpeed: { min: 6.2, max: 7.8 },
+        lateralSpeed: 0.7,
+      },
+    ],
+    endless: {
+      every: 25,
+      spawnIntervalStep: 0.05,
+      minSpawnInterval: 0.45,
+      bombChanceStep: 0.01,
+      maxBombChance: 0.25,
+    },
+  },
+}
+
+export const DEFAULT_DIFFICULTY: DifficultyPreset = 'standard'
+
+/**
+ * 1-based level active at a point in the round
+ */
+export function getLevelAt(config: DifficultyConfig, seconds: number): number {
+  let level = 1
+  config.levels.forEach((entry, index) => {
+    if (seconds >= entry.startsAt) level = index + 1
+  })
+  const last = config.levels[config.levels.length - 1]
+  if (config.endless && level === config.levels.length) {
+    level += Math.floor((seconds - last.startsAt) / config.endless.every)
+  }
+  return level
+}
+
+/**
+ * Spawn parameters for a 1-based level, extrapolating past the listed levels
+ */
+export function getLevelParams(config: DifficultyConfig, level: number): DifficultyLevel {
+  const { levels, endless } = config
+  const last = levels[levels.length - 1]
+  const extra = level - levels.length
+  if (extra <= 0) return levels[Math.max(0, level - 1)]
+  if (!endless) return last
+
+  return {
+    ...last,
+    startsAt: last.startsAt + extra * endless.every,
+    spawnInterval: Math.max(endless.minSpawnInterval, last.spawnInterval - extra * endless.spawnIntervalStep),
+    bombChance: Math.min(endless.maxBombChance, last.bombChance + extra * endless.bombChanceStep),
+  }
+}
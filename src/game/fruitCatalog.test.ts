@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { FRUIT_CATALOGS, getSplitPieceId, parseSplitPieceId, pickCatalogFruit } from './fruitCatalog'
+
+const standard = FRUIT_CATALOGS.standard
+const totalWeight = standard.fruits.reduce((sum, spec) => sum + spec.weight, 0)
+
+describe('pickCatalogFruit', () => {
+  it('maps the roll onto the cumulative weights in catalog order', () => {
+    // Strawberry then orange, 10 each
+    expect(pickCatalogFruit(standard, 0)).toBe('strawberry')
+    expect(pickCatalogFruit(standard, 9.99 / totalWeight)).toBe('strawberry')
+    expect(pickCatalogFruit(standard, 10 / totalWeight)).toBe('orange')
+  })
+
+  it('never rolls a fruit with no weight of its own', () => {
+    // Melon wedges sit between watermelon (ends at 66) and pomegranate
+    expect(pickCatalogFruit(standard, 65.99 / totalWeight)).toBe('watermelon')
+    expect(pickCatalogFruit(standard, 66 / totalWeight)).toBe('pomegranate')
+
+    const rolled = new Set(Array.from({ length: 1000 }, (_, i) => pickCatalogFruit(standard, i / 1000)))
+    expect(rolled.has('melon-wedge')).toBe(false)
+  })
+
+  it('gives the last spawnable fruit the top of the range', () => {
+    expect(pickCatalogFruit(standard, 0.999999)).toBe('dragon-fruit')
+    expect(pickCatalogFruit(standard, 1)).toBe('dragon-fruit')
+  })
+
+  it('rolls every uniform fruit equally often', () => {
+    const { fruits } = FRUIT_CATALOGS.uniform
+    const picks = fruits.map((_, i) => pickCatalogFruit(FRUIT_CATALOGS.uniform, (i + 0.5) / fruits.length))
+
+    expect(picks).toEqual(fruits.map((spec) => spec.type))
+  })
+})
+
+describe('parseSplitPieceId', () => {
+  it('reads back the ids getSplitPieceId hands out', () => {
+    expect(parseSplitPieceId(getSplitPieceId('f_12_34', 2))).toEqual({ parentId: 'f_12_34', index: 2 })
+  })
+
+  it('takes the last index for a piece of a piece', () => {
+    expect(parseSplitPieceId('f_1_2:0:1')).toEqual({ parentId: 'f_1_2:0', index: 1 })
+  })
+
+  it('returns null for spawned fruit and malformed indexes', () => {
+    expect(parseSplitPieceId('f_1_2')).toBeNull()
+    expect(parseSplitPieceId('f_1_2:x')).toBeNull()
+    expect(parseSplitPieceId('f_1_2:-1')).toBeNull()
+    expect(parseSplitPieceId('f_1_2:1.5')).toBeNull()
+  })
+})
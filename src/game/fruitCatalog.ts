@@ -0,0 +1,126 @@
+import type { PowerUpKind } from '@/types'
+import type { FruitType } from './FruitSimulation'
+import { FRENZY_FRUIT_COUNT } from './powerUps'
+
+/**
+ * Fruit catalog
+ * What each fruit is worth, how often it turns up and how it reacts to a cut.
+ * The simulation rolls spawns from it, so solo rounds, seeded multiplayer
+ * rounds and the score verifier all agree on every fruit.
+ */
+
+export interface FruitSpec {
+  type: FruitType
+  /** Relative spawn weight among the catalog's fruit; 0 never spawns on its own */
+  weight: number
+  /** Base points for cutting it, before any combo multiplier */
+  points: number
+  /** Cuts it takes to break open (default 1) */
+  hits?: number
+  /** Smaller fruit it breaks into, flung out to be cut for extra points */
+  splitsInto?: { type: FruitType; count: number }
+  /** Power-up it sets off when cut */
+  powerUp?: PowerUpKind
+}
+
+export interface FruitCatalog {
+  fruits: FruitSpec[]
+}
+
+export type FruitCatalogPreset = 'uniform' | 'standard'
+
+// Every fruit alike, the way rounds worked before the catalog
+const UNIFORM_FRUITS: FruitSpec[] = (
+  ['strawberry', 'orange', 'apple', 'watermelon', 'grape', 'lemon', 'kiwi'] as const
+).map((type) => ({ type, weight: 1, points: 10 }))
+
+export const FRUIT_CATALOGS: Record<FruitCatalogPreset, FruitCatalog> = {
+  uniform: {
+    fruits: UNIFORM_FRUITS,
+  },
+  standard: {
+    fruits: [
+      { type: 'strawberry', weight: 10, points: 10 },
+      { type: 'orange', weight: 10, points: 10 },
+      { type: 'apple', weight: 10, points: 10 },
+      { type: 'grape', weight: 10, points: 10 },
+      { type: 'lemon', weight: 10, points: 10 },
+      { type: 'kiwi', weight: 10, points: 10 },
+      { type: 'watermelon', weight: 6, points: 10, splitsInto: { type: 'melon-wedge', count: 3 } },
+      { type: 'melon-wedge', weight: 0, points: 5 },
+      { type: 'pomegranate', weight: 4, points: 30, hits: 3 },
+      { type: 'golden', weight: 1, points: 50 },
+      { type: 'frost-berry', weight: 1.5, points: 10, powerUp: 'freeze' },
+      { type: 'star-fruit', weight: 1.5, points: 10, powerUp: 'frenzy' },
+      { type: 'dragon-fruit', weight: 1.5, points: 10, powerUp: 'double' },
+    ],
+  },
+}
+
+export const DEFAULT_FRUIT_CATALOG: FruitCatalogPreset = 'standard'
+
+// Bombs and anything a catalog leaves out
+const FALLBACK_SPEC: Omit<FruitSpec, 'type'> = { weight: 0, points: 10 }
+
+/**
+ * Catalog entry for a fruit type
+ */
+export function getFruitSpec(catalog: FruitCatalog, type: FruitType): FruitSpec {
+  return catalog.fruits.find((spec) => spec.type === type) ?? { type, ...FALLBACK_SPEC }
+}
+
+// Spawns on its own, one cut, ordinary points and nothing special about it
+const isEveryday = (spec: FruitSpec): boolean =>
+  spec.weight > 0 && !spec.powerUp && !spec.splitsInto && (spec.hits ?? 1) === 1 && spec.points <= FALLBACK_SPEC.points
+
+/**
+ * Fruit type for a uniform roll in [0, 1), weighted by the catalog
+ */
+export function pickCatalogFruit(catalog: FruitCatalog, roll: number): FruitType {
+  const spawnable = catalog.fruits.filter((spec) => spec.weight > 0)
+  const totalWeight = spawnable.reduce((sum, spec) => sum + spec.weight, 0)
+  const target = roll * totalWeight
+  let cumulative = 0
+  for (const spec of spawnable) {
+    cumulative += spec.weight
+    if (target < cumulative) return spec.type
+  }
+  return spawnable[spawnable.length - 1].type
+}
+
+/**
+ * Type of the `index`th fruit a cut fruit gives off: its split pieces, or the
+ * fruit a frenzy launches (cycling through the everyday fruit). Null if it
+ * never gives off that many.
+ */
+export function getChildFruitType(catalog: FruitCatalog, parentType: FruitType, index: number): FruitType | null {
+  const spec = getFruitSpec(catalog, parentType)
+  if (spec.splitsInto) {
+    return index < spec.splitsInto.count ? spec.splitsInto.type : null
+  }
+  if (spec.powerUp === 'frenzy' && index < FRENZY_FRUIT_COUNT) {
+    const everyday = catalog.fruits.filter(isEveryday)
+    return everyday[index % everyday.length].type
+  }
+  return null
+}
+
+/**
+ * Id of one piece of a split fruit (or one fruit of a frenzy); derived from
+ * the parent so every client (and the score verifier) names it the same
+ * without touching the rng
+ */
+export function getSplitPieceId(parentId: string, index: number): string {
+  return `${parentId}:${index}`
+}
+
+/**
+ * Parent id and piece index of a split piece id, or null for a spawned fruit
+ */
+export function parseSplitPieceId(id: string): { parentId: string; index: number } | null {
+  const separator = id.lastIndexOf(':')
+  if (separator < 0) return null
+  const index = Number(id.slice(separator + 1))
+  if (!Number.isInteger(index) || index < 0) return null
+  return { parentId: id.slice(0, separator), index }
+}
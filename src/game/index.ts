@@ -1,2 +1,10 @@
+export * from './FruitSimulation'
 export * from './FruitGame'
-
+export * from './replay'
+export * from './ReplayPlayer'
+export * from './replayFile'
+export * from './daily'
+export * from './difficulty'
+export * from './scoring'
+export * from './powerUps'
+export * from './fruitCatalog'
@@ -0,0 +1,26 @@
+import type { PowerUpKind } from '@/types'
+
+/**
+ * Power-ups
+ * Special fruit that change the round for a few seconds when cut. Durations
+ * are simulated time, so replays and the score verifier agree on exactly
+ * which cuts a power-up covered however the round was paced.
+ */
+
+export const POWER_UP_KINDS: PowerUpKind[] = ['freeze', 'frenzy', 'double']
+
+/** Simulated seconds each power-up lasts */
+export const POWER_UP_SECONDS: Record<PowerUpKind, number> = {
+  freeze: 4,
+  frenzy: 3,
+  double: 6,
+}
+
+/** Physics runs at this fraction of real time while frozen */
+export const FREEZE_TIME_SCALE = 0.4
+
+/** A frenzy launches one extra fruit every this many ticks, up to FRENZY_FRUIT_COUNT */
+export const FRENZY_SPAWN_TICKS = 9
+export const FRENZY_FRUIT_COUNT = 20
+
+export const DOUBLE_POINTS_MULTIPLIER = 2
@@ -0,0 +1,118 @@
+import type { GameMode, GestureEvent, SliceEvent } from '@/types'
+import type { DifficultyPreset } from './difficulty'
+import type { SliceRule } from './FruitSimulation'
+import type { FruitCatalogPreset } from './fruitCatalog'
+
+/**
+ * Replays
+ * A round is fully described by its seed, its settings and the gestures fed
+ * into FruitGame.handleGesture. Each gesture is tagged with the simulation
+ * tick it was applied after, so re-stepping a seeded simulation and feeding
+ * the same gestures at the same ticks reproduces the round exactly.
+ * Slices and the score timeline are what the round reported at the time,
+ * kept so a replay file stands on its own (e.g. attached to a bug report).
+ */
+
+export interface ReplaySettings {
+  mode: GameMode
+  roundDuration: number // Seconds
+  hitboxRadius: number
+  aspect: number // Hit testing depends on the projection, so it's pinned on playback
+  lives?: number
+  difficulty?: DifficultyPreset // Missing on replays recorded before progression: 'constant'
+  sliceRule?: SliceRule // Missing on replays recorded before multi-fruit swipes: 'nearest'
+  fruitCatalog?: FruitCatalogPreset // Missing on replays recorded before the catalog: 'uniform'
+}
+
+export interface ReplayGesture {
+  tick: number
+  gesture: GestureEvent
+}
+
+export interface ReplaySlice {
+  tick: number
+  slice: SliceEvent
+}
+
+export interface ScorePoint {
+  tick: number
+  score: number
+}
+
+export interface Replay {
+  id: string
+  seed: number
+  settings: ReplaySettings
+  recordedAt: number
+  durationTicks: number
+  gestures: ReplayGesture[]
+  slices: ReplaySlice[]
+  scoreTimeline: ScorePoint[]
+  finalScore: number
+  playerName?: string
+}
+
+export interface ReplaySummary {
+  durationTicks: number
+  finalScore: number
+  aspect: number // Taken at the end: canvases often settle their size after the round starts
+  playerName?: string
+}
+
+/**
+ * Collects the gesture stream for one round
+ */
+export class ReplayRecorder {
+  private seed: number
+  private settings: Omit<ReplaySettings, 'aspect'>
+  private recordedAt = Date.now()
+  private gestures: ReplayGesture[] = []
+  private slices: ReplaySlice[] = []
+
+  constructor(seed: number, settings: Omit<ReplaySettings, 'aspect'>) {
+    this.seed = seed
+    this.settings = { ...settings }
+  }
+
+  record(tick: number, gesture: GestureEvent) {
+    this.gestures.push({
+      tick,
+      gesture: {
+        ...gesture,
+        direction: { ...gesture.direction },
+        origin: { ...gesture.origin },
+        previous: gesture.previous && { ...gesture.previous },
+      },
+    })
+  }
+
+  recordSlice(tick: number, slice: SliceEvent) {
+    this.slices.push({ tick, slice: { ...slice } })
+  }
+
+  finish({ durationTicks, finalScore, aspect, playerName }: ReplaySummary): Replay {
+    return {
+      id: `replay_${this.recordedAt}_${this.seed}`,
+      seed: this.seed,
+      settings: { ...this.settings, aspect },
+      recordedAt: this.recordedAt,
+      durationTicks,
+      gestures: this.gestures,
+      slices: this.slices,
+      scoreTimeline: buildScoreTimeline(this.slices),
+      finalScore,
+      playerName,
+    }
+  }
+}
+
+/**
+ * Running score after each slice (never below zero, like the playfields)
+ */
+export function buildScoreTimeline(slices: ReplaySlice[]): ScorePoint[] {
+  let score = 0
+  return slices.map(({ tick, slice }) => {
+    score = Math.max(0, score + slice.scoreDelta)
+    return { tick, score }
+  })
+}
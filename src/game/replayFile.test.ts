@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest'
+import type { GestureEvent } from '@/types'
+import type { Replay } from './replay'
+import {
+  decodeReplayFile,
+  encodeReplayBinary,
+  encodeReplayJSON,
+  REPLAY_FORMAT,
+  REPLAY_FORMAT_VERSION,
+  type ReplayDecodeResult,
+  type ReplayFile,
+} from './replayFile'
+
+const gesture = (id: string, timestamp: number, previous?: GestureEvent['previous']): GestureEvent => ({
+  id,
+  type: 'slice',
+  hand: 'Right',
+  speed: 1.5,
+  strength: 0.75,
+  direction: { x: 0.5, y: -0.25 },
+  timestamp,
+  // Full f64 precision, which the binary encoding has to keep
+  origin: { x: 0.1234567890123, y: 0.9876543210987, z: -0.05 },
+  ...(previous ? { previous } : {}),
+})
+
+const replay: Replay = {
+  id: 'replay_1',
+  seed: 12345,
+  settings: {
+    mode: 'classic',
+    roundDuration: 60,
+    hitboxRadius: 0.6,
+    aspect: 16 / 9,
+    lives: 3,
+    difficulty: 'classic',
+    sliceRule: 'swept',
+    fruitCatalog: 'standard',
+  },
+  recordedAt: 1_700_000_000_000,
+  durationTicks: 3600,
+  gestures: [
+    { tick: 120, gesture: gesture('g1', 2000, { x: 0.3333333333333, y: 0.6666666666667, z: 0 }) },
+    { tick: 240, gesture: gesture('g2', 4000) },
+  ],
+  slices: [
+    { tick: 121, slice: { fruitId: 'f_1_2', scoreDelta: 10, slicedAt: 2016 } },
+    { tick: 241, slice: { fruitId: 'f_3_4:0', scoreDelta: -10, slicedAt: 4016 } },
+  ],
+  scoreTimeline: [
+    { tick: 121, score: 10 },
+    { tick: 241, score: 0 },
+  ],
+  finalScore: 0,
+  playerName: 'Kiwi',
+}
+
+const decoded = (result: ReplayDecodeResult): ReplayFile => {
+  if (!('file' in result)) throw new Error(`Expected a replay file, got ${result.errors.join(', ')}`)
+  return result.file
+}
+
+const errorsOf = (result: ReplayDecodeResult): string[] => ('errors' in result ? result.errors : [])
+
+// Rewrites the JSON encoding with some fields swapped out
+const editedJSON = (edit: (file: ReplayFile) => void): string => {
+  const file = JSON.parse(encodeReplayJSON(replay)) as ReplayFile
+  edit(file)
+  return JSON.stringify(file)
+}
+
+// A binary file as v1 wrote it: no previous points on gestures
+const encodeV1Binary = (source: Replay): Uint8Array => {
+  const bytes: number[] = []
+  const push = (size: number, write: (view: DataView) => void) => {
+    const view = new DataView(new ArrayBuffer(size))
+    write(view)
+    bytes.push(...new Uint8Array(view.buffer))
+  }
+  const str = (value: string, lengthSize: 2 | 4) => {
+    const encoded = new TextEncoder().encode(value)
+    push(lengthSize, (view) => (lengthSize === 2 ? view.setUint16(0, encoded.length, true) : view.setUint32(0, encoded.length, true)))
+    bytes.push(...encoded)
+  }
+
+  bytes.push(0x46, 0x4e, 0x52, 0x50)
+  push(2, (view) => view.setUint16(0, 1, true))
+  str(JSON.stringify({
+    appVersion: '0.1.0',
+    exportedAt: 1_700_000_100_000,
+    id: source.id,
+    seed: source.seed,
+    settings: source.settings,
+    recordedAt: source.recordedAt,
+    durationTicks: source.durationTicks,
+    finalScore: source.finalScore,
+  }), 4)
+
+  push(4, (view) => view.setUint32(0, source.gestures.length, true))
+  for (const { tick, gesture } of source.gestures) {
+    push(36, (view) => {
+      view.setUint32(0, tick, true)
+      view.setFloat64(4, gesture.timestamp, true)
+      view.setFloat64(12, gesture.origin.x, true)
+      view.setFloat64(20, gesture.origin.y, true)
+      view.setFloat64(28, gesture.origin.z, true)
+    })
+    push(18, (view) => {
+      view.setFloat32(0, gesture.direction.x, true)
+      view.setFloat32(4, gesture.direction.y, true)
+      view.setFloat32(8, gesture.speed, true)
+      view.setFloat32(12, gesture.strength, true)
+      view.setUint8(16, 0) // slice
+      view.setUint8(17, 1) // Right
+    })
+    str(gesture.id, 2)
+  }
+
+  push(4, (view) => view.setUint32(0, source.slices.length, true))
+  for (const { tick, slice } of source.slices) {
+    push(16, (view) => {
+      view.setUint32(0, tick, true)
+      view.setInt32(4, slice.scoreDelta, true)
+      view.setFloat64(8, slice.slicedAt, true)
+    })
+    str(slice.fruitId, 2)
+  }
+
+  push(4, (view) => view.setUint32(0, source.scoreTimeline.length, true))
+  for (const { tick, score } of source.scoreTimeline) {
+    push(8, (view) => {
+      view.setUint32(0, tick, true)
+      view.setInt32(4, score, true)
+    })
+  }
+
+  return new Uint8Array(bytes)
+}
+
+describe('replay files', () => {
+  describe('round trips', () => {
+    it('reads back a JSON file exactly', () => {
+      const file = decoded(decodeReplayFile(encodeReplayJSON(replay)))
+
+      expect(file.format).toBe(REPLAY_FORMAT)
+      expect(file.version).toBe(REPLAY_FORMAT_VERSION)
+      expect(file.replay).toEqual(replay)
+    })
+
+    it('reads back a binary file exactly', () => {
+      const file = decoded(decodeReplayFile(encodeReplayBinary(replay)))
+
+      expect(file.version).toBe(REPLAY_FORMAT_VERSION)
+      expect(file.replay).toEqual(replay)
+      expect(file.replay.gestures[0].gesture.previous).toEqual(replay.gestures[0].gesture.previous)
+      expect(file.replay.gestures[1].gesture).not.toHaveProperty('previous')
+      expect(file.replay.playerName).toBe('Kiwi')
+    })
+
+    it('reads a binary file from an ArrayBuffer', () => {
+      const bytes = encodeReplayBinary(replay)
+
+      expect(decoded(decodeReplayFile(bytes.buffer)).replay).toEqual(replay)
+    })
+
+    it('leaves out a missing player name', () => {
+      const anonymous: Replay = { ...replay, playerName: undefined }
+      const file = decoded(decodeReplayFile(encodeReplayBinary(anonymous)))
+
+      expect(file.replay.playerName).toBeUndefined()
+    })
+  })
+
+  it('reads a v1 binary file, which has no previous points', () => {
+    const file = decoded(decodeReplayFile(encodeV1Binary(replay)))
+
+    expect(file.version).toBe(1)
+    expect(file.appVersion).toBe('0.1.0')
+    expect(file.replay.gestures.map(({ tick, gesture }) => ({ tick, id: gesture.id, origin: gesture.origin }))).toEqual(
+      replay.gestures.map(({ tick, gesture }) => ({ tick, id: gesture.id, origin: gesture.origin }))
+    )
+    file.replay.gestures.forEach(({ gesture }) => expect(gesture).not.toHaveProperty('previous'))
+    expect(file.replay.slices).toEqual(replay.slices)
+    expect(file.replay.scoreTimeline).toEqual(replay.scoreTimeline)
+  })
+
+  it('reports a binary file cut off mid-record', () => {
+    const bytes = encodeReplayBinary(replay)
+    // Ends partway through the last score point
+    const result = decodeReplayFile(bytes.slice(0, bytes.length - 3))
+
+    expect(errorsOf(result)).toEqual(['Replay file is damaged or truncated'])
+  })
+
+  it('reports a format version newer than the app', () => {
+    const newer = REPLAY_FORMAT_VERSION + 1
+    const json = editedJSON((file) => {
+      file.version = newer
+    })
+    const binary = encodeReplayBinary(replay)
+    new DataView(binary.buffer).setUint16(4, newer, true)
+
+    for (const result of [decodeReplayFile(json), decodeReplayFile(binary)]) {
+      expect(errorsOf(result)).toHaveLength(1)
+      expect(errorsOf(result)[0]).toContain(`v${newer} is newer than this app supports`)
+    }
+  })
+
+  it('reports lists that are not sorted by tick', () => {
+    const result = decodeReplayFile(editedJSON((file) => {
+      file.replay.gestures.reverse()
+    }))
+
+    expect(errorsOf(result)).toEqual(['replay.gestures must be sorted by tick'])
+  })
+
+  it('reports an unknown difficulty or fruit catalog', () => {
+    const result = decodeReplayFile(editedJSON((file) => {
+      Object.assign(file.replay.settings, { difficulty: 'nightmare', fruitCatalog: 'vegetables' })
+    }))
+
+    expect(errorsOf(result)).toEqual([
+      'replay.settings.difficulty "nightmare" is not a known difficulty',
+      'replay.settings.fruitCatalog "vegetables" is not a known fruit catalog',
+    ])
+  })
+
+  it('reports a file that is not a replay', () => {
+    expect(errorsOf(decodeReplayFile('{"hello": "world"}'))).toEqual(['Not a Frootninja replay file'])
+    expect(errorsOf(decodeReplayFile('not json'))).toEqual(['Replay file is damaged or truncated'])
+  })
+})
@@ -0,0 +1,533 @@
+import type { GameMode, GestureEvent, GestureType, Handedness } from '@/types'
+import type { Replay, ReplayGesture, ReplaySettings, ReplaySlice, ScorePoint } from './replay'
+import { DIFFICULTY_PRESETS } from './difficulty'
+import { FRUIT_CATALOGS } from './fruitCatalog'
+import type { SliceRule } from './FruitSimulation'
+
+/**
+ * Replay Files
+ * Portable, versioned replays for sending runs around and attaching them to
+ * bug reports. Two encodings of the same data:
+ * - JSON (.frootreplay.json): readable and diffable
+ * - Binary (.frootreplay): fixed-width records, a fraction of the size
+ * Both carry the format version and the app version that wrote them, and go
+ * through the same schema check on import.
+ */
+
+export const REPLAY_FORMAT = 'frootninja-replay'
+export const REPLAY_FORMAT_VERSION = 2
+export const APP_VERSION: string = import.meta.env.VITE_APP_VERSION ?? 'dev'
+
+export const REPLAY_JSON_EXTENSION = '.frootreplay.json'
+export const REPLAY_BINARY_EXTENSION = '.frootreplay'
+
+export type ReplayEncoding = 'json' | 'binary'
+
+/** The decoded file, or why it couldn't be opened */
+export type ReplayDecodeResult = { file: ReplayFile } | { errors: string[] }
+
+export interface ReplayFile {
+  format: typeof REPLAY_FORMAT
+  version: number
+  appVersion: string
+  exportedAt: number
+  replay: Replay
+}
+
+const BINARY_MAGIC = [0x46, 0x4e, 0x52, 0x50] // "FNRP"
+const MAX_REPORTED_ERRORS = 10
+
+const GAME_MODES: GameMode[] = ['solo', 'multiplayer', 'daily', 'classic', 'zen']
+const GESTURE_TYPES: GestureType[] = ['slice']
+const HANDS: Handedness[] = ['Left', 'Right']
+const SLICE_RULES: SliceRule[] = ['nearest', 'swipe', 'swept']
+
+export function createReplayFile(replay: Replay): ReplayFile {
+  return {
+    format: REPLAY_FORMAT,
+    version: REPLAY_FORMAT_VERSION,
+    appVersion: APP_VERSION,
+    exportedAt: Date.now(),
+    replay,
+  }
+}
+
+export function getReplayFileName(replay: Replay, encoding: ReplayEncoding): string {
+  const date = new Date(replay.recordedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')
+  const extension = encoding === 'json' ? REPLAY_JSON_EXTENSION : REPLAY_BINARY_EXTENSION
+  return `frootninja-${replay.settings.mode}-${replay.finalScore}-${date}${extension}`
+}
+
+// ============================================
+// Schema validation
+// ============================================
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const isTick = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0
+
+const isPoint = (value: unknown, keys: string[]): boolean =>
+  isObject(value) && keys.every((key) => isNumber(value[key]))
+
+function validateSettings(settings: unknown, errors: string[]) {
+  if (!isObject(settings)) {
+    errors.push('replay.settings must be an object')
+    return
+  }
+  if (!GAME_MODES.includes(settings.mode as GameMode)) errors.push(`replay.settings.mode "${String(settings.mode)}" is not a known game mode`)
+  if (!isNumber(settings.roundDuration) || settings.roundDuration <= 0) errors.push('replay.settings.roundDuration must be a positive number')
+  if (!isNumber(settings.hitboxRadius) || settings.hitboxRadius <= 0) errors.push('replay.settings.hitboxRadius must be a positive number')
+  if (!isNumber(settings.aspect) || settings.aspect <= 0) errors.push('replay.settings.aspect must be a positive number')
+  if (settings.lives !== undefined && !isNumber(settings.lives)) errors.push('replay.settings.lives must be a number')
+  if (settings.difficulty !== undefined && !Object.hasOwn(DIFFICULTY_PRESETS, String(settings.difficulty))) {
+    errors.push(`replay.settings.difficulty "${String(settings.difficulty)}" is not a known difficulty`)
+  }
+  if (settings.sliceRule !== undefined && !SLICE_RULES.includes(settings.sliceRule as SliceRule)) {
+    errors.push(`replay.settings.sliceRule "${String(settings.sliceRule)}" is not a known slice rule`)
+  }
+  if (settings.fruitCatalog !== undefined && !Object.hasOwn(FRUIT_CATALOGS, String(settings.fruitCatalog))) {
+    errors.push(`replay.settings.fruitCatalog "${String(settings.fruitCatalog)}" is not a known fruit catalog`)
+  }
+}
+
+function validateGesture(entry: unknown, path: string, errors: string[]) {
+  if (!isObject(entry) || !isTick(entry.tick)) {
+    errors.push(`${path}.tick must be a non-negative integer`)
+    return
+  }
+  const gesture = entry.gesture
+  if (!isObject(gesture)) {
+    errors.push(`${path}.gesture must be an object`)
+    return
+  }
+  if (typeof gesture.id !== 'string') errors.push(`${path}.gesture.id must be a string`)
+  if (!GESTURE_TYPES.includes(gesture.type as GestureType)) errors.push(`${path}.gesture.type is not a known gesture`)
+  if (!HANDS.includes(gesture.hand as Handedness)) errors.push(`${path}.gesture.hand must be "Left" or "Right"`)
+  if (!isNumber(gesture.speed) || !isNumber(gesture.strength) || !isNumber(gesture.timestamp)) {
+    errors.push(`${path}.gesture speed, strength and timestamp must be numbers`)
+  }
+  if (!isPoint(gesture.direction, ['x', 'y'])) errors.push(`${path}.gesture.direction must be {x, y}`)
+  if (!isPoint(gesture.origin, ['x', 'y', 'z'])) errors.push(`${path}.gesture.origin must be {x, y, z}`)
+  if (gesture.previous !== undefined && !isPoint(gesture.previous, ['x', 'y', 'z'])) {
+    errors.push(`${path}.gesture.previous must be {x, y, z}`)
+  }
+}
+
+function validateSlice(entry: unknown, path: string, errors: string[]) {
+  if (!isObject(entry) || !isTick(entry.tick)) {
+    errors.push(`${path}.tick must be a non-negative integer`)
+    return
+  }
+  const slice = entry.slice
+  if (
+    !isObject(slice) ||
+    typeof slice.fruitId !== 'string' ||
+    !isNumber(slice.scoreDelta) ||
+    !isNumber(slice.slicedAt)
+  ) {
+    errors.push(`${path}.slice must be {fruitId, scoreDelta, slicedAt}`)
+  }
+}
+
+function validateList(
+  value: unknown,
+  path: string,
+  errors: string[],
+  validateEntry: (entry: unknown, entryPath: string, errors: string[]) => void
+) {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`)
+    return
+  }
+  value.forEach((entry, index) => validateEntry(entry, `${path}[${index}]`, errors))
+
+  // Playback walks each list in order
+  for (let i = 1; i < value.length; i++) {
+    if (isObject(value[i]) && isObject(value[i - 1]) && (value[i].tick as number) < (value[i - 1].tick as number)) {
+      errors.push(`${path} must be sorted by tick`)
+      break
+    }
+  }
+}
+
+/**
+ * Problems with a parsed replay file; empty when it's valid
+ */
+export function validateReplayFile(value: unknown): string[] {
+  const errors: string[] = []
+
+  if (!isObject(value)) return ['Replay file must be a JSON object']
+  if (value.format !== REPLAY_FORMAT) return ['Not a Frootninja replay file']
+  if (!Number.isInteger(value.version) || (value.version as number) < 1) return ['Replay file has no valid format version']
+  if ((value.version as number) > REPLAY_FORMAT_VERSION) {
+    return [`Replay file format v${value.version} is newer than this app supports (v${REPLAY_FORMAT_VERSION}) - update the app`]
+  }
+  if (typeof value.appVersion !== 'string') errors.push('appVersion must be a string')
+  if (!isNumber(value.exportedAt)) errors.push('exportedAt must be a timestamp')
+
+  const replay = value.replay
+  if (!isObject(replay)) {
+    errors.push('replay must be an object')
+    return errors
+  }
+  if (typeof replay.id !== 'string') errors.push('replay.id must be a string')
+  if (!Number.isInteger(replay.seed)) errors.push('replay.seed must be an integer')
+  if (!isNumber(replay.recordedAt)) errors.push('replay.recordedAt must be a timestamp')
+  if (!isTick(replay.durationTicks)) errors.push('replay.durationTicks must be a non-negative integer')
+  if (!isNumber(replay.finalScore)) errors.push('replay.finalScore must be a number')
+  if (replay.playerName !== undefined && typeof replay.playerName !== 'string') errors.push('replay.playerName must be a string')
+  validateSettings(replay.settings, errors)
+  validateList(replay.gestures, 'replay.gestures', errors, validateGesture)
+  validateList(replay.slices, 'replay.slices', errors, validateSlice)
+  validateList(replay.scoreTimeline, 'replay.scoreTimeline', errors, (entry, path, errs) => {
+    if (!isObject(entry) || !isTick(entry.tick) || !isNumber(entry.score)) errs.push(`${path} must be {tick, score}`)
+  })
+
+  return errors.slice(0, MAX_REPORTED_ERRORS)
+}
+
+// ============================================
+// JSON encoding
+// ============================================
+
+export function encodeReplayJSON(replay: Replay): string {
+  return JSON.stringify(createReplayFile(replay), null, 2)
+}
+
+// ============================================
+// Binary encoding (little-endian)
+//
+//   magic "FNRP" | u16 format version
+//   u32 length + UTF-8 JSON header: appVersion, exportedAt, id, seed,
+//     settings, recordedAt, durationTicks, finalScore, playerName
+//   u32 count x gesture: u32 tick, f64 timestamp, f64 origin x/y/z,
+//     [v2+] u8 has previous, f64 previous x/y/z if set,
+//     f32 direction x/y, f32 speed, f32 strength, u8 type, u8 hand, str id
+//   u32 count x slice: u32 tick, i32 scoreDelta, f64 slicedAt, str fruitId
+//   u32 count x score point: u32 tick, i32 score
+//
+// Origins and previous points stay f64: hit testing on playback must see
+// exactly what the round saw.
+// Strings are u16 length + UTF-8.
+// ============================================
+
+interface BinaryHeader {
+  appVersion: string
+  exportedAt: number
+  id: string
+  seed: number
+  settings: ReplaySettings
+  recordedAt: number
+  durationTicks: number
+  finalScore: number
+  playerName?: string
+}
+
+class ByteWriter {
+  private buffer = new ArrayBuffer(4096)
+  private view = new DataView(this.buffer)
+  private offset = 0
+  private encoder = new TextEncoder()
+
+  u8(value: number) {
+    this.reserve(1)
+    this.view.setUint8(this.offset, value)
+    this.offset += 1
+  }
+
+  u16(value: number) {
+    this.reserve(2)
+    this.view.setUint16(this.offset, value, true)
+    this.offset += 2
+  }
+
+  u32(value: number) {
+    this.reserve(4)
+    this.view.setUint32(this.offset, value, true)
+    this.offset += 4
+  }
+
+  i32(value: number) {
+    this.reserve(4)
+    this.view.setInt32(this.offset, value, true)
+    this.offset += 4
+  }
+
+  f32(value: number) {
+    this.reserve(4)
+    this.view.setFloat32(this.offset, value, true)
+    this.offset += 4
+  }
+
+  f64(value: number) {
+    this.reserve(8)
+    this.view.setFloat64(this.offset, value, true)
+    this.offset += 8
+  }
+
+  bytes(bytes: Uint8Array) {
+    this.reserve(bytes.length)
+    new Uint8Array(this.buffer, this.offset, bytes.length).set(bytes)
+    this.offset += bytes.length
+  }
+
+  str(value: string) {
+    const bytes = this.encoder.encode(value)
+    this.u16(bytes.length)
+    this.bytes(bytes)
+  }
+
+  longStr(value: string) {
+    const bytes = this.encoder.encode(value)
+    this.u32(bytes.length)
+    this.bytes(bytes)
+  }
+
+  finish(): Uint8Array<ArrayBuffer> {
+    return new Uint8Array(this.buffer.slice(0, this.offset))
+  }
+
+  private reserve(size: number) {
+    if (this.offset + size <= this.buffer.byteLength) return
+    let capacity = this.buffer.byteLength * 2
+    while (capacity < this.offset + size) capacity *= 2
+    const next = new ArrayBuffer(capacity)
+    new Uint8Array(next).set(new Uint8Array(this.buffer))
+    this.buffer = next
+    this.view = new DataView(next)
+  }
+}
+
+// Reads throw RangeError past the end, which decodeReplayFile reports as truncated
+class ByteReader {
+  private view: DataView
+  private offset = 0
+  private decoder = new TextDecoder()
+
+  constructor(bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  u8(): number {
+    const value = this.view.getUint8(this.offset)
+    this.offset += 1
+    return value
+  }
+
+  u16(): number {
+    const value = this.view.getUint16(this.offset, true)
+    this.offset += 2
+    return value
+  }
+
+  u32(): number {
+    const value = this.view.getUint32(this.offset, true)
+    this.offset += 4
+    return value
+  }
+
+  i32(): number {
+    const value = this.view.getInt32(this.offset, true)
+    this.offset += 4
+    return value
+  }
+
+  f32(): number {
+    const value = this.view.getFloat32(this.offset, true)
+    this.offset += 4
+    return value
+  }
+
+  f64(): number {
+    const value = this.view.getFloat64(this.offset, true)
+    this.offset += 8
+    return value
+  }
+
+  str(): string {
+    return this.text(this.u16())
+  }
+
+  longStr(): string {
+    return this.text(this.u32())
+  }
+
+  private text(length: number): string {
+    if (this.offset + length > this.view.byteLength) {
+      throw new RangeError('String runs past the end of the file')
+    }
+    const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.offset, length)
+    this.offset += length
+    return this.decoder.decode(bytes)
+  }
+}
+
+export function encodeReplayBinary(replay: Replay): Uint8Array<ArrayBuffer> {
+  const file = createReplayFile(replay)
+  const writer = new ByteWriter()
+
+  BINARY_MAGIC.forEach((byte) => writer.u8(byte))
+  writer.u16(file.version)
+
+  const header: BinaryHeader = {
+    appVersion: file.appVersion,
+    exportedAt: file.exportedAt,
+    id: replay.id,
+    seed: replay.seed,
+    settings: replay.settings,
+    recordedAt: replay.recordedAt,
+    durationTicks: replay.durationTicks,
+    finalScore: replay.finalScore,
+    playerName: replay.playerName,
+  }
+  writer.longStr(JSON.stringify(header))
+
+  writer.u32(replay.gestures.length)
+  for (const { tick, gesture } of replay.gestures) {
+    writer.u32(tick)
+    writer.f64(gesture.timestamp)
+    writer.f64(gesture.origin.x)
+    writer.f64(gesture.origin.y)
+    writer.f64(gesture.origin.z)
+    writer.u8(gesture.previous ? 1 : 0)
+    if (gesture.previous) {
+      writer.f64(gesture.previous.x)
+      writer.f64(gesture.previous.y)
+      writer.f64(gesture.previous.z)
+    }
+    writer.f32(gesture.direction.x)
+    writer.f32(gesture.direction.y)
+    writer.f32(gesture.speed)
+    writer.f32(gesture.strength)
+    writer.u8(GESTURE_TYPES.indexOf(gesture.type))
+    writer.u8(HANDS.indexOf(gesture.hand))
+    writer.str(gesture.id)
+  }
+
+  writer.u32(replay.slices.length)
+  for (const { tick, slice } of replay.slices) {
+    writer.u32(tick)
+    writer.i32(slice.scoreDelta)
+    writer.f64(slice.slicedAt)
+    writer.str(slice.fruitId)
+  }
+
+  writer.u32(replay.scoreTimeline.length)
+  for (const { tick, score } of replay.scoreTimeline) {
+    writer.u32(tick)
+    writer.i32(score)
+  }
+
+  return writer.finish()
+}
+
+function isBinaryReplay(bytes: Uint8Array): boolean {
+  return BINARY_MAGIC.every((byte, index) => bytes[index] === byte)
+}
+
+// Structural decode only; validateReplayFile checks the result
+function readBinaryReplay(bytes: Uint8Array): unknown {
+  const reader = new ByteReader(bytes)
+  BINARY_MAGIC.forEach(() => reader.u8())
+  const version = reader.u16()
+  if (version > REPLAY_FORMAT_VERSION) {
+    return { format: REPLAY_FORMAT, version }
+  }
+
+  const header = JSON.parse(reader.longStr()) as BinaryHeader
+
+  const gestures: ReplayGesture[] = []
+  const gestureCount = reader.u32()
+  for (let i = 0; i < gestureCount; i++) {
+    const tick = reader.u32()
+    const timestamp = reader.f64()
+    const origin = { x: reader.f64(), y: reader.f64(), z: reader.f64() }
+    const previous = version >= 2 && reader.u8() === 1
+      ? { x: reader.f64(), y: reader.f64(), z: reader.f64() }
+      : undefined
+    const direction = { x: reader.f32(), y: reader.f32() }
+    const speed = reader.f32()
+    const strength = reader.f32()
+    const type = GESTURE_TYPES[reader.u8()]
+    const hand = HANDS[reader.u8()]
+    const id = reader.str()
+    const gesture: GestureEvent = { id, type, hand, speed, strength, direction, timestamp, origin }
+    if (previous) gesture.previous = previous
+    gestures.push({ tick, gesture })
+  }
+
+  const slices: ReplaySlice[] = []
+  const sliceCount = reader.u32()
+  for (let i = 0; i < sliceCount; i++) {
+    const tick = reader.u32()
+    const scoreDelta = reader.i32()
+    const slicedAt = reader.f64()
+    const fruitId = reader.str()
+    slices.push({ tick, slice: { fruitId, scoreDelta, slicedAt } })
+  }
+
+  const scoreTimeline: ScorePoint[] = []
+  const pointCount = reader.u32()
+  for (let i = 0; i < pointCount; i++) {
+    scoreTimeline.push({ tick: reader.u32(), score: reader.i32() })
+  }
+
+  const replay: Replay = {
+    id: header.id,
+    seed: header.seed,
+    settings: header.settings,
+    recordedAt: header.recordedAt,
+    durationTicks: header.durationTicks,
+    gestures,
+    slices,
+    scoreTimeline,
+    finalScore: header.finalScore,
+    playerName: header.playerName ?? undefined,
+  }
+
+  return {
+    format: REPLAY_FORMAT,
+    version,
+    appVersion: header.appVersion,
+    exportedAt: header.exportedAt,
+    replay,
+  }
+}
+
+// ============================================
+// Import
+// ============================================
+
+/**
+ * Decode a replay file in either encoding (detected from its first bytes).
+ * Returns the problems instead if the file is damaged or fails validation.
+ */
+export function decodeReplayFile(data: ArrayBuffer | Uint8Array | string): ReplayDecodeResult {
+  let parsed: unknown
+  try {
+    if (typeof data === 'string') {
+      parsed = JSON.parse(data)
+    } else {
+      const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+      parsed = isBinaryReplay(bytes)
+        ? readBinaryReplay(bytes)
+        : JSON.parse(new TextDecoder().decode(bytes))
+    }
+  } catch (error) {
+    console.error('[Replay] Could not read replay file (damaged or truncated):', error)
+    return { errors: ['Replay file is damaged or truncated'] }
+  }
+
+  const errors = validateReplayFile(parsed)
+  if (errors.length > 0) {
+    console.error('[Replay] Invalid replay file:', errors)
+    return { errors }
+  }
+
+  return { file: parsed as ReplayFile }
+}
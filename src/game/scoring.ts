@@ -0,0 +1,80 @@
+import type { GameMode } from '@/types'
+import type { ScorePopupTone } from './FruitGame'
+import { SIMULATION_HZ } from './FruitSimulation'
+import { DOUBLE_POINTS_MULTIPLIER } from './powerUps'
+
+/**
+ * Scoring rules
+ * Shared by the solo playfield and replay playback so a replay re-scores a
+ * round exactly as it was played. Multiplayer stays at flat points per fruit:
+ * the score verifier re-scores both players that way.
+ */
+
+export const FRUIT_POINTS = 10
+export const BOMB_PENALTY = 10
+
+// The multiplier goes up by one for every this many fruit in a row
+const COMBO_STEP = 5
+const MAX_MULTIPLIER = 4
+// Zen is all about long combos, so it lets the multiplier climb further
+const ZEN_MAX_MULTIPLIER = 8
+// Zen misses don't break a combo; going this long without a slice does
+export const ZEN_COMBO_WINDOW_TICKS = 2 * SIMULATION_HZ
+
+/**
+ * Score multiplier for a combo of this length
+ */
+export const getComboMultiplier = (mode: GameMode, combo: number): number => {
+  if (mode === 'multiplayer') return 1
+  const cap = mode === 'zen' ? ZEN_MAX_MULTIPLIER : MAX_MULTIPLIER
+  return Math.min(cap, 1 + Math.floor(Math.max(0, combo) / COMBO_STEP))
+}
+
+/**
+ * Everything a fruit's points are multiplied by: the combo, and double points
+ * if it's running (which applies in multiplayer too)
+ */
+export const getPointsMultiplier = (mode: GameMode, combo: number, doublePoints = false): number =>
+  getComboMultiplier(mode, combo) * (doublePoints ? DOUBLE_POINTS_MULTIPLIER : 1)
+
+/**
+ * Points for a fruit slice that brings the combo to `combo`, given the
+ * fruit's catalog points
+ */
+export const getFruitPoints = (mode: GameMode, combo: number, basePoints = FRUIT_POINTS, doublePoints = false): number =>
+  basePoints * getPointsMultiplier(mode, combo, doublePoints)
+
+/** Popups for fruit worth more than usual stand out */
+export const getFruitPopupTone = (basePoints: number): ScorePopupTone =>
+  basePoints > FRUIT_POINTS ? 'bonus' : 'normal'
+
+/**
+ * Extra points when a single swipe cuts several fruit at once
+ */
+export const getMultiSliceBonus = (mode: GameMode, fruitCount: number): number =>
+  mode === 'multiplayer' || fruitCount < 2 ? 0 : FRUIT_POINTS * (fruitCount - 1)
+
+/** Whether letting a fruit drop costs part of the combo */
+export const missDecaysCombo = (mode: GameMode): boolean => mode !== 'multiplayer' && mode !== 'zen'
+
+/**
+ * Combo left after a miss: halved, so the multiplier steps down instead of vanishing
+ */
+export const decayCombo = (combo: number): number => Math.floor(combo / 2)
+
+/**
+ * Whether a Zen combo has run out by this tick
+ */
+export const hasComboLapsed = (mode: GameMode, lastSliceTick: number | null, tick: number): boolean =>
+  mode === 'zen' && lastSliceTick !== null && tick - lastSliceTick > ZEN_COMBO_WINDOW_TICKS
+
+/** Popup text for a scored fruit, e.g. "+20 ×2" */
+export const formatFruitPopup = (points: number, multiplier: number): string =>
+  multiplier > 1 ? `+${points} ×${multiplier}` : `+${points}`
+
+/** Popup text for a tough fruit that held together, e.g. "2 more" */
+export const formatHitsLeftPopup = (hitsLeft: number): string => `${hitsLeft} more`
+
+/** Popup text for a multi-fruit swipe, e.g. "3 Fruit Combo +20" */
+export const formatMultiSlicePopup = (fruitCount: number, bonus: number): string =>
+  `${fruitCount} Fruit Combo +${bonus}`
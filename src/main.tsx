@@ -3,6 +3,9 @@ import { createRoot } from 'react-dom/client'
 import '@/index.css'
 import App from '@/App'
 import { HandTrackerProvider } from '@/cv'
+import { registerServiceWorker } from '@/services/serviceWorker'
+
+registerServiceWorker()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
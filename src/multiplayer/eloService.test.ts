@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  applyMatchToProfile,
+  calculateEloChange,
+  createDefaultProfile,
+  DEFAULT_ELO,
+  getKFactor,
+  MIN_ELO,
+  savePlayerProfile,
+} from './eloService'
+import { setRoomBackend, type RoomBackend } from './roomBackend'
+
+describe('getKFactor', () => {
+  it('steps down at 10 and 30 games', () => {
+    expect(getKFactor(0)).toBe(40)
+    expect(getKFactor(9)).toBe(40)
+    expect(getKFactor(10)).toBe(32)
+    expect(getKFactor(29)).toBe(32)
+    expect(getKFactor(30)).toBe(24)
+    expect(getKFactor(500)).toBe(24)
+  })
+})
+
+describe('calculateEloChange', () => {
+  it('moves evenly matched players by half the K-factor', () => {
+    expect(calculateEloChange(1000, 1000, 'win', 0)).toEqual({ before: 1000, after: 1020, delta: 20, outcome: 'win' })
+    expect(calculateEloChange(1000, 1000, 'loss', 10).delta).toBe(-16)
+    expect(calculateEloChange(1000, 1000, 'win', 30).delta).toBe(12)
+  })
+
+  it('leaves evenly matched players where they were on a tie', () => {
+    expect(calculateEloChange(1000, 1000, 'draw', 0)).toEqual({ before: 1000, after: 1000, delta: 0, outcome: 'draw' })
+  })
+
+  it('moves the lower rated player up on a tie', () => {
+    const underdog = calculateEloChange(1000, 1400, 'draw', 30)
+    const favourite = calculateEloChange(1400, 1000, 'draw', 30)
+
+    expect(underdog.delta).toBeGreaterThan(0)
+    expect(favourite.delta).toBe(-underdog.delta)
+  })
+
+  it('rewards an upset more than an expected win', () => {
+    expect(calculateEloChange(1000, 1400, 'win', 30).delta).toBeGreaterThan(calculateEloChange(1400, 1000, 'win', 30).delta)
+  })
+
+  it('never drops a rating below the floor', () => {
+    const change = calculateEloChange(MIN_ELO + 10, MIN_ELO + 10, 'loss', 0)
+
+    expect(change.after).toBe(MIN_ELO)
+    expect(change.delta).toBe(-10)
+    expect(calculateEloChange(MIN_ELO, 2000, 'loss', 0).after).toBe(MIN_ELO)
+  })
+})
+
+describe('applyMatchToProfile', () => {
+  const profile = createDefaultProfile('p1', 'Kiwi')
+  const win = calculateEloChange(DEFAULT_ELO, DEFAULT_ELO, 'win', 0)
+
+  it('records the result and the new rating', () => {
+    const updated = applyMatchToProfile(profile, 'room_1_100', win)
+
+    expect(updated).toMatchObject({
+      elo: win.after,
+      wins: 1,
+      losses: 0,
+      gamesPlayed: 1,
+      lastMatchId: 'room_1_100',
+      lastMatchChange: win,
+    })
+  })
+
+  it('changes nothing when the same match is applied again', () => {
+    const once = applyMatchToProfile(profile, 'room_1_100', win)
+    const twice = applyMatchToProfile(once, 'room_1_100', win)
+
+    expect({ ...twice, lastPlayed: 0 }).toEqual({ ...once, lastPlayed: 0 })
+  })
+
+  it('replaces the earlier result when a match is rescored', () => {
+    const won = applyMatchToProfile(profile, 'room_1_100', win)
+    const loss = calculateEloChange(DEFAULT_ELO, DEFAULT_ELO, 'loss', 0)
+    const rescored = applyMatchToProfile(won, 'room_1_100', loss)
+
+    expect(rescored).toMatchObject({ elo: loss.after, wins: 0, losses: 1, gamesPlayed: 1 })
+  })
+
+  it('stacks different matches', () => {
+    const first = applyMatchToProfile(profile, 'room_1_100', win)
+    const second = applyMatchToProfile(first, 'room_2_200', calculateEloChange(first.elo, DEFAULT_ELO, 'win', 1))
+
+    expect(second).toMatchObject({ wins: 2, gamesPlayed: 2, lastMatchId: 'room_2_200' })
+    expect(second.elo).toBeGreaterThan(first.elo)
+  })
+})
+
+describe('savePlayerProfile', () => {
+  afterEach(() => {
+    setRoomBackend(null)
+    vi.restoreAllMocks()
+  })
+
+  it('reports whether the profile was saved', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const saveProfile = vi.fn().mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('offline'))
+    setRoomBackend({ saveProfile } as unknown as RoomBackend)
+    const profile = createDefaultProfile('p1', 'Kiwi')
+
+    expect(await savePlayerProfile(profile)).toBe(true)
+    expect(await savePlayerProfile(profile)).toBe(false)
+    expect(saveProfile).toHaveBeenCalledWith(profile)
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * ELO Service
+ * Rating calculation and player profile storage for ranked multiplayer
+ */
+
+import { getRoomBackend } from './roomBackend'
+import type { MatchOutcome, PlayerProfile, RatingChange } from './types'
+
+export const DEFAULT_ELO = 1000
+export const MIN_ELO = 100
+
+// K-factor tiers: new players move quickly until their rating settles
+const PROVISIONAL_GAMES = 10
+const ESTABLISHED_GAMES = 30
+const PROVISIONAL_K = 40
+const STANDARD_K = 32
+const ESTABLISHED_K = 24
+
+/**
+ * Rating change sensitivity based on how many ranked games a player has played
+ */
+export function getKFactor(gamesPlayed: number): number {
+  if (gamesPlayed < PROVISIONAL_GAMES) return PROVISIONAL_K
+  if (gamesPlayed < ESTABLISHED_GAMES) return STANDARD_K
+  return ESTABLISHED_K
+}
+
+/**
+ * Expected score (0-1) of a player against an opponent
+ */
+export function getExpectedScore(playerElo: number, opponentElo: number): number {
+  return 1 / (1 + Math.pow(10, (opponentElo - playerElo) / 400))
+}
+
+/**
+ * Calculate a player's rating change for a single match.
+ * Ties count as half a win for both players.
+ */
+export function calculateEloChange(
+  playerElo: number,
+  opponentElo: number,
+  outcome: MatchOutcome,
+  gamesPlayed: number
+): RatingChange {
+  const actualScore = outcome === 'win' ? 1 : outcome === 'loss' ? 0 : 0.5
+  const expectedScore = getExpectedScore(playerElo, opponentElo)
+  const rawDelta = Math.round(getKFactor(gamesPlayed) * (actualScore - expectedScore))
+  const after = Math.max(MIN_ELO, playerElo + rawDelta)
+
+  return {
+    before: playerElo,
+    after,
+    delta: after - playerElo,
+    outcome,
+  }
+}
+
+/**
+ * Create a fresh profile for a player who has never played ranked
+ */
+export function createDefaultProfile(playerId: string, username: string): PlayerProfile {
+  return {
+    id: playerId,
+    username,
+    elo: DEFAULT_ELO,
+    wins: 0,
+    losses: 0,
+    gamesPlayed: 0,
+    lastPlayed: 0,
+  }
+}
+
+/**
+ * Apply a match result to a profile.
+ * Idempotent per match: if the same match was already applied (e.g. endGame
+ * ran again with fresher scores), the previous result is reverted first.
+ */
+export function applyMatchToProfile(
+  profile: PlayerProfile,
+  matchId: string,
+  change: RatingChange
+): PlayerProfile {
+  const base = { ...profile }
+
+  if (base.lastMatchId === matchId && base.lastMatchChange) {
+    const previous = base.lastMatchChange
+    base.elo = previous.before
+    base.gamesPlayed = Math.max(0, base.gamesPlayed - 1)
+    if (previous.outcome === 'win') base.wins = Math.max(0, base.wins - 1)
+    if (previous.outcome === 'loss') base.losses = Math.max(0, base.losses - 1)
+  }
+
+  return {
+    ...base,
+    elo: change.after,
+    wins: base.wins + (change.outcome === 'win' ? 1 : 0),
+    losses: base.losses + (change.outcome === 'loss' ? 1 : 0),
+    gamesPlayed: base.gamesPlayed + 1,
+    lastPlayed: Date.now(),
+    lastMatchId: matchId,
+    lastMatchChange: change,
+  }
+}
+
+/**
+ * Load a player's ranked profile (creates a default one if missing)
+ */
+export async function getPlayerProfile(
+  playerId: string,
+  username: string
+): Promise<PlayerProfile> {
+  const fallback = createDefaultProfile(playerId, username)
+
+  try {
+    const stored = await getRoomBackend().getProfile(playerId)
+    return stored ? { ...fallback, ...stored } : fallback
+  } catch (error) {
+    console.error('Failed to load player profile:', error)
+    return fallback
+  }
+}
+
+/**
+ * Persist a player's ranked profile; false if it couldn't be saved
+ */
+export async function savePlayerProfile(profile: PlayerProfile): Promise<boolean> {
+  try {
+    await getRoomBackend().saveProfile(profile)
+    return true
+  } catch (error) {
+    console.error('Failed to save player profile:', error)
+    return false
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Firestore Room Backend
+ * rooms/{roomId}, rooms/{roomId}/signaling/{role}/iceCandidates, matchmaking/{playerId}, players/{playerId}
+ */
+
+import {
+  arrayUnion,
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  onSnapshot,
+  query,
+  runTransaction,
+  where,
+  type Firestore,
+} from 'firebase/firestore'
+import type { PlayerProfile, QueueEntry, Room, RoomData, RoomPlayer } from './types'
+import type { IceCandidateRecord, RoomBackend, SignalingMessage, SignalingRole } from './roomBackend'
+
+const ROOMS_COLLECTION = 'rooms'
+const QUEUE_COLLECTION = 'matchmaking'
+const PROFILE_COLLECTION = 'players'
+
+// Firestore dot-path update for fields nested in a player entry
+function playerFieldPaths(
+  playerId: string,
+  updates: Partial<RoomPlayer>
+): Record<string, unknown> {
+  const paths: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(updates)) {
+    paths[`players.${playerId}.${key}`] = value
+  }
+  return paths
+}
+
+export function createFirestoreBackend(db: Firestore): RoomBackend {
+  const roomRef = (roomId: string) => doc(db, ROOMS_COLLECTION, roomId)
+  const queueRef = (playerId: string) => doc(db, QUEUE_COLLECTION, playerId)
+  const profileRef = (playerId: string) => doc(db, PROFILE_COLLECTION, playerId)
+  const signalRef = (roomId: string, role: SignalingRole) =>
+    doc(db, ROOMS_COLLECTION, roomId, 'signaling', role)
+  const candidatesRef = (roomId: string, role: SignalingRole) =>
+    collection(db, ROOMS_COLLECTION, roomId, 'signaling', role, 'iceCandidates')
+
+  return {
+    kind: 'firestore',
+
+    async createRoom(roomId, data) {
+      await setDoc(roomRef(roomId), data)
+    },
+
+    async getRoom(roomId) {
+      const snapshot = await getDoc(roomRef(roomId))
+      if (!snapshot.exists()) return null
+      return { id: roomId, ...(snapshot.data() as RoomData) }
+    },
+
+    async findRoomByCode(code) {
+      const q = query(
+        collection(db, ROOMS_COLLECTION),
+        where('code', '==', code),
+        where('state', '==', 'waiting')
+      )
+      const snapshot = await getDocs(q)
+      if (snapshot.empty) return null
+
+      const roomDoc = snapshot.docs[0]
+      return { id: roomDoc.id, ...(roomDoc.data() as RoomData) }
+    },
+
+    async listRooms() {
+      const snapshot = await getDocs(collection(db, ROOMS_COLLECTION))
+      return snapshot.docs.map((d) => ({ id: d.id, ...(d.data() as RoomData) }) as Room)
+    },
+
+    async joinRoom(roomId, player) {
+      await updateDoc(roomRef(roomId), { [`players.${player.id}`]: player })
+    },
+
+    async updateRoom(roomId, updates) {
+      await updateDoc(roomRef(roomId), updates)
+    },
+
+    async updatePlayer(roomId, playerId, updates) {
+      await updateDoc(roomRef(roomId), playerFieldPaths(playerId, updates))
+    },
+
+    async reportSlice(roomId, slice) {
+      // Last slice drives opponent effects; the log is verified at endGame
+      await updateDoc(roomRef(roomId), {
+        [`players.${slice.playerId}.lastSlice`]: slice,
+        [`players.${slice.playerId}.slices`]: arrayUnion(slice),
+      })
+    },
+
+    async deleteRoom(roomId) {
+      await deleteDoc(roomRef(roomId))
+
+      // Also clean up signaling subcollection
+      try {
+        const signalingDocs = await getDocs(collection(db, ROOMS_COLLECTION, roomId, 'signaling'))
+        await Promise.all(signalingDocs.docs.map((d) => deleteDoc(d.ref)))
+      } catch {
+        // Ignore signaling cleanup errors
+      }
+    },
+
+    subscribeToRoom(roomId, callback) {
+      return onSnapshot(
+        roomRef(roomId),
+        (snapshot) => {
+          if (!snapshot.exists()) {
+            callback(null)
+            return
+          }
+          callback({ id: roomId, ...(snapshot.data() as RoomData) })
+        },
+        (error) => {
+          console.error('Room subscription error:', error)
+          callback(null)
+        }
+      )
+    },
+
+    async putQueueEntry(entry) {
+      await setDoc(queueRef(entry.playerId), entry)
+    },
+
+    async updateQueueEntry(playerId, updates) {
+      await updateDoc(queueRef(playerId), updates)
+    },
+
+    async removeQueueEntry(playerId) {
+      await deleteDoc(queueRef(playerId))
+    },
+
+    async listQueue() {
+      const snapshot = await getDocs(collection(db, QUEUE_COLLECTION))
+      return snapshot.docs.map((d) => d.data() as QueueEntry)
+    },
+
+    async claimMatch(playerId, opponentId, roomId, data) {
+      const myRef = queueRef(playerId)
+      const theirRef = queueRef(opponentId)
+
+      return runTransaction(db, async (transaction) => {
+        const [mine, theirs] = await Promise.all([
+          transaction.get(myRef),
+          transaction.get(theirRef),
+        ])
+        if (!mine.exists() || !theirs.exists()) return false
+        if ((mine.data() as QueueEntry).matchedRoomId) return false
+        if ((theirs.data() as QueueEntry).matchedRoomId) return false
+
+        const match = { matchedRoomId: roomId, matchedRoomCode: data.code }
+        transaction.set(roomRef(roomId), data)
+        transaction.update(myRef, match)
+        transaction.update(theirRef, match)
+        return true
+      })
+    },
+
+    subscribeToQueueEntry(playerId, callback) {
+      return onSnapshot(
+        queueRef(playerId),
+        (snapshot) => {
+          callback(snapshot.exists() ? (snapshot.data() as QueueEntry) : null)
+        },
+        (error) => {
+          console.error('Matchmaking subscription error:', error)
+          callback(null)
+        }
+      )
+    },
+
+    async getProfile(playerId) {
+      const snapshot = await getDoc(profileRef(playerId))
+      if (!snapshot.exists()) return null
+      return { ...(snapshot.data() as Omit<PlayerProfile, 'id'>), id: playerId }
+    },
+
+    async saveProfile(profile) {
+      const { id, ...data } = profile
+      await setDoc(profileRef(id), data)
+    },
+
+    async sendSignal(roomId, role, message) {
+      await setDoc(signalRef(roomId, role), message)
+    },
+
+    subscribeToSignal(roomId, role, callback) {
+      return onSnapshot(signalRef(roomId, role), (snapshot) => {
+        callback(snapshot.exists() ? (snapshot.data() as SignalingMessage) : null)
+      })
+    },
+
+    async addIceCandidate(roomId, role, record) {
+      await setDoc(doc(candidatesRef(roomId, role), record.id), record.candidate)
+    },
+
+    async getIceCandidates(roomId, role) {
+      const snapshot = await getDocs(candidatesRef(roomId, role))
+      return snapshot.docs.map((d): IceCandidateRecord => ({
+        id: d.id,
+        candidate: d.data() as RTCIceCandidateInit,
+      }))
+    },
+
+    subscribeToIceCandidates(roomId, role, callback) {
+      return onSnapshot(
+        candidatesRef(roomId, role),
+        (snapshot) => {
+          snapshot.docChanges().forEach((change) => {
+            if (change.type === 'added') {
+              callback({ id: change.doc.id, candidate: change.doc.data() as RTCIceCandidateInit })
+            }
+          })
+        },
+        (error) => {
+          console.error('[WebRTC] Error listening for remote ICE candidates:', error)
+        }
+      )
+    },
+
+    async clearSignaling(roomId, role) {
+      await deleteDoc(signalRef(roomId, role))
+
+      const candidates = await getDocs(candidatesRef(roomId, role))
+      await Promise.all(candidates.docs.map((d) => deleteDoc(d.ref)))
+    },
+  }
+}
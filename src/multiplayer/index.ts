@@ -1,7 +1,13 @@
 export * from './types'
 export * from './SeededRNG'
+export * from './roomBackend'
+export * from './firestoreBackend'
+export * from './localBackend'
 export * from './multiplayerService'
+export * from './eloService'
+export * from './scoreVerifier'
 export * from './useMultiplayerRoom'
+export * from './useQuickMatch'
 export * from './webrtcService'
 export * from './useWebRTC'
 export * from './useInviteLink'
@@ -0,0 +1,125 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from 'vitest'
+import { createLocalBackend } from './localBackend'
+import type { RoomBackend } from './roomBackend'
+import type { RoomData, RoomPlayer, SliceEventMP } from './types'
+
+const ROOM_ID = 'room_test'
+const SLICES_EACH = 20
+
+let channelCount = 0
+
+const player = (id: string): RoomPlayer => ({
+  id,
+  name: id,
+  elo: 1000,
+  ready: true,
+  score: 0,
+  combo: 0,
+  maxCombo: 0,
+  connected: true,
+  lastActivity: 0,
+  finished: false,
+})
+
+const slice = (playerId: string, index: number): SliceEventMP => ({
+  id: `${playerId}_${index}`,
+  fruitId: `f_${index}_${index}`,
+  playerId,
+  timestamp: index,
+  tick: index * 10,
+  scoreDelta: 10,
+  position: { x: 0.5, y: 0.5 },
+})
+
+// BroadcastChannel delivers on a later task, so give it a moment
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50))
+
+describe('createLocalBackend', () => {
+  let host: RoomBackend
+  let guest: RoomBackend
+
+  afterEach(async () => {
+    await host.deleteRoom(ROOM_ID)
+    await settle()
+  })
+
+  // Two players in one process, like two tabs of the same browser
+  const createPair = async () => {
+    const channelName = `frootninja-test-${channelCount++}`
+    host = createLocalBackend({ channelName })
+    guest = createLocalBackend({ channelName })
+    await settle()
+  }
+
+  it('keeps both players in step through a whole match', async () => {
+    await createPair()
+    const room: RoomData = {
+      code: 'ABCD',
+      state: 'waiting',
+      hostId: 'host',
+      seed: 42,
+      createdAt: 0,
+      players: { host: player('host') },
+    }
+    await host.createRoom(ROOM_ID, room)
+    await settle()
+
+    expect(await guest.findRoomByCode('ABCD')).not.toBeNull()
+    await guest.joinRoom(ROOM_ID, player('guest'))
+    await settle()
+    await host.updateRoom(ROOM_ID, { state: 'playing', startedAt: 1 })
+    await settle()
+
+    // Both players slice and sync scores at the same time, as they do mid-match
+    const writes: Promise<void>[] = []
+    for (let i = 0; i < SLICES_EACH; i++) {
+      writes.push(host.reportSlice(ROOM_ID, slice('host', i)))
+      writes.push(guest.reportSlice(ROOM_ID, slice('guest', i)))
+      writes.push(host.updatePlayer(ROOM_ID, 'host', { score: (i + 1) * 10, combo: i + 1 }))
+      writes.push(guest.updatePlayer(ROOM_ID, 'guest', { score: (i + 1) * 10, combo: i + 1 }))
+    }
+    await Promise.all(writes)
+    await Promise.all([
+      host.updatePlayer(ROOM_ID, 'host', { finished: true }),
+      guest.updatePlayer(ROOM_ID, 'guest', { finished: true }),
+    ])
+    await settle()
+
+    const hostView = await host.getRoom(ROOM_ID)
+    const guestView = await guest.getRoom(ROOM_ID)
+    expect(guestView).toEqual(hostView)
+
+    for (const id of ['host', 'guest']) {
+      const roomPlayer = hostView!.players[id]
+      expect(roomPlayer.slices?.map((s) => s.id)).toEqual(
+        Array.from({ length: SLICES_EACH }, (_, index) => `${id}_${index}`)
+      )
+      expect(roomPlayer.score).toBe(SLICES_EACH * 10)
+      expect(roomPlayer.finished).toBe(true)
+    }
+  })
+
+  it('notifies subscribers in the other instance', async () => {
+    await createPair()
+    await host.createRoom(ROOM_ID, {
+      code: 'WXYZ',
+      state: 'waiting',
+      hostId: 'host',
+      seed: 7,
+      createdAt: 0,
+      players: { host: player('host') },
+    })
+    await settle()
+
+    const states: string[] = []
+    const unsubscribe = guest.subscribeToRoom(ROOM_ID, (room) => {
+      if (room) states.push(room.state)
+    })
+    await host.updateRoom(ROOM_ID, { state: 'countdown' })
+    await settle()
+    unsubscribe()
+
+    expect(states).toEqual(['waiting', 'countdown'])
+  })
+})
@@ -0,0 +1,412 @@
+/**
+ * Local Room Backend
+ * In-memory rooms, queue and signaling. Every change is broadcast over a
+ * BroadcastChannel so other tabs (or other backend instances in the same
+ * process, e.g. two players in a Vitest run) see the same state.
+ * Room writes go out as patches (a player's fields, one appended slice) so
+ * two tabs writing at once don't overwrite each other's data.
+ * Matches are only atomic within one instance. Ranked profiles are also kept
+ * in localStorage so ratings survive a reload.
+ */
+
+import type { PlayerProfile, QueueEntry, Room, RoomData, RoomPlayer, SliceEventMP } from './types'
+import type {
+  IceCandidateRecord,
+  RoomBackend,
+  RoomUpdate,
+  SignalingMessage,
+  SignalingRole,
+  Unsubscribe,
+} from './roomBackend'
+
+const DEFAULT_CHANNEL_NAME = 'frootninja-multiplayer'
+const PROFILES_STORAGE_KEY = 'frootninja_local_profiles'
+
+export interface LocalBackendOptions {
+  channelName?: string
+}
+
+interface LocalSnapshot {
+  rooms: Record<string, RoomData>
+  queue: Record<string, QueueEntry>
+  signals: Record<string, SignalingMessage>
+  candidates: Record<string, IceCandidateRecord[]>
+  profiles: Record<string, PlayerProfile>
+}
+
+type LocalMessage =
+  | { kind: 'room'; roomId: string; data: RoomData | null }
+  | { kind: 'room-update'; roomId: string; updates: RoomUpdate }
+  | { kind: 'player'; roomId: string; playerId: string; updates: Partial<RoomPlayer> }
+  | { kind: 'slice'; roomId: string; slice: SliceEventMP }
+  | { kind: 'queue'; playerId: string; entry: QueueEntry | null }
+  | { kind: 'signal'; key: string; message: SignalingMessage | null }
+  | { kind: 'ice'; key: string; record: IceCandidateRecord }
+  | { kind: 'ice-clear'; key: string }
+  | { kind: 'profile'; profile: PlayerProfile }
+  | { kind: 'sync-request' }
+  | { kind: 'sync'; snapshot: LocalSnapshot }
+
+type Listener = (value: unknown) => void
+
+const clone = <T>(value: T): T => structuredClone(value)
+
+// No storage (e.g. a Node test run) just means profiles last as long as the process
+const loadStoredProfiles = (): Record<string, PlayerProfile> => {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) ?? '{}')
+  } catch {
+    return {}
+  }
+}
+
+const storeProfiles = (profiles: Map<string, PlayerProfile>) => {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(Object.fromEntries(profiles)))
+  } catch {
+    // Not persisted; still shared with other instances over the channel
+  }
+}
+
+export function createLocalBackend(options: LocalBackendOptions = {}): RoomBackend {
+  const rooms = new Map<string, RoomData>()
+  const queue = new Map<string, QueueEntry>()
+  const signals = new Map<string, SignalingMessage>()
+  const candidates = new Map<string, IceCandidateRecord[]>()
+  const profiles = new Map<string, PlayerProfile>(Object.entries(loadStoredProfiles()))
+  const listeners = new Map<string, Set<Listener>>()
+
+  const channel =
+    typeof BroadcastChannel !== 'undefined'
+      ? new BroadcastChannel(options.channelName ?? DEFAULT_CHANNEL_NAME)
+      : null
+
+  const signalKey = (roomId: string, role: SignalingRole) => `${roomId}/${role}`
+
+  // Listeners fire asynchronously, like Firestore snapshots
+  const emit = (topic: string, value: unknown) => {
+    const topicListeners = listeners.get(topic)
+    if (!topicListeners) return
+    for (const listener of topicListeners) {
+      queueMicrotask(() => listener(clone(value)))
+    }
+  }
+
+  const listen = (topic: string, listener: Listener, initial?: () => unknown): Unsubscribe => {
+    let topicListeners = listeners.get(topic)
+    if (!topicListeners) {
+      topicListeners = new Set()
+      listeners.set(topic, topicListeners)
+    }
+    topicListeners.add(listener)
+
+    if (initial) {
+      const value = initial()
+      queueMicrotask(() => {
+        if (topicListeners.has(listener)) listener(clone(value))
+      })
+    }
+
+    return () => {
+      topicListeners.delete(listener)
+    }
+  }
+
+  const toRoom = (roomId: string, data: RoomData): Room => ({ id: roomId, ...clone(data) })
+
+  // Change only what a patch names in this instance's copy of a room
+  const patchRoom = (roomId: string, patch: (data: RoomData) => RoomData) => {
+    const data = rooms.get(roomId)
+    if (!data) return
+    const next = patch(data)
+    rooms.set(roomId, next)
+    emit(`room/${roomId}`, toRoom(roomId, next))
+  }
+
+  // Apply a change to local state and notify subscribers (no broadcast)
+  const apply = (message: LocalMessage) => {
+    switch (message.kind) {
+      case 'room':
+        if (message.data) {
+          rooms.set(message.roomId, message.data)
+          emit(`room/${message.roomId}`, toRoom(message.roomId, message.data))
+        } else {
+          rooms.delete(message.roomId)
+          emit(`room/${message.roomId}`, null)
+        }
+        break
+      case 'room-update':
+        patchRoom(message.roomId, (data) => ({ ...data, ...message.updates }) as RoomData)
+        break
+      case 'player':
+        patchRoom(message.roomId, (data) => ({
+          ...data,
+          players: {
+            ...data.players,
+            [message.playerId]: { ...data.players[message.playerId], ...message.updates },
+          },
+        }))
+        break
+      case 'slice': {
+        const { slice } = message
+        patchRoom(message.roomId, (data) => {
+          const player = data.players[slice.playerId]
+          // Append-only, and each slice lands once however many times it's heard
+          if (player?.slices?.some((existing) => existing.id === slice.id)) return data
+          return {
+            ...data,
+            players: {
+              ...data.players,
+              [slice.playerId]: {
+                ...player,
+                lastSlice: slice,
+                slices: [...(player?.slices ?? []), slice],
+              },
+            },
+          }
+        })
+        break
+      }
+      case 'queue':
+        if (message.entry) {
+          queue.set(message.playerId, message.entry)
+        } else {
+          queue.delete(message.playerId)
+        }
+        emit(`queue/${message.playerId}`, message.entry)
+        break
+      case 'signal':
+        if (message.message) {
+          signals.set(message.key, message.message)
+        } else {
+          signals.delete(message.key)
+        }
+        emit(`signal/${message.key}`, message.message)
+        break
+      case 'ice': {
+        const list = candidates.get(message.key) ?? []
+        if (!list.some((c) => c.id === message.record.id)) {
+          list.push(message.record)
+          candidates.set(message.key, list)
+          emit(`ice/${message.key}`, message.record)
+        }
+        break
+      }
+      case 'ice-clear':
+        candidates.delete(message.key)
+        break
+      case 'profile':
+        profiles.set(message.profile.id, message.profile)
+        storeProfiles(profiles)
+        break
+      case 'sync-request':
+        if (rooms.size || queue.size || signals.size || candidates.size || profiles.size) {
+          channel?.postMessage({ kind: 'sync', snapshot: takeSnapshot() } satisfies LocalMessage)
+        }
+        break
+      case 'sync':
+        mergeSnapshot(message.snapshot)
+        break
+    }
+  }
+
+  const takeSnapshot = (): LocalSnapshot => ({
+    rooms: Object.fromEntries(rooms),
+    queue: Object.fromEntries(queue),
+    signals: Object.fromEntries(signals),
+    candidates: Object.fromEntries(candidates),
+    profiles: Object.fromEntries(profiles),
+  })
+
+  // A newly opened tab adopts whatever it doesn't know about yet
+  const mergeSnapshot = (snapshot: LocalSnapshot) => {
+    for (const [roomId, data] of Object.entries(snapshot.rooms)) {
+      if (!rooms.has(roomId)) apply({ kind: 'room', roomId, data })
+    }
+    for (const [playerId, entry] of Object.entries(snapshot.queue)) {
+      if (!queue.has(playerId)) apply({ kind: 'queue', playerId, entry })
+    }
+    for (const [key, message] of Object.entries(snapshot.signals)) {
+      if (!signals.has(key)) apply({ kind: 'signal', key, message })
+    }
+    for (const [key, list] of Object.entries(snapshot.candidates)) {
+      list.forEach((record) => apply({ kind: 'ice', key, record }))
+    }
+    for (const [playerId, profile] of Object.entries(snapshot.profiles ?? {})) {
+      if (!profiles.has(playerId)) apply({ kind: 'profile', profile })
+    }
+  }
+
+  // Apply locally and share with other instances
+  const commit = (message: LocalMessage) => {
+    const copy = clone(message)
+    apply(copy)
+    channel?.postMessage(copy)
+  }
+
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<LocalMessage>) => apply(event.data)
+    channel.postMessage({ kind: 'sync-request' } satisfies LocalMessage)
+  }
+
+  const requireRoom = (roomId: string) => {
+    if (!rooms.has(roomId)) throw new Error(`Room ${roomId} not found`)
+  }
+
+  const requireQueueEntry = (playerId: string): QueueEntry => {
+    const entry = queue.get(playerId)
+    if (!entry) throw new Error(`Queue entry ${playerId} not found`)
+    return clone(entry)
+  }
+
+  return {
+    kind: 'local',
+
+    async createRoom(roomId, data) {
+      commit({ kind: 'room', roomId, data })
+    },
+
+    async getRoom(roomId) {
+      const data = rooms.get(roomId)
+      return data ? toRoom(roomId, data) : null
+    },
+
+    async findRoomByCode(code) {
+      for (const [roomId, data] of rooms) {
+        if (data.code === code && data.state === 'waiting') {
+          return toRoom(roomId, data)
+        }
+      }
+      return null
+    },
+
+    async listRooms() {
+      return Array.from(rooms, ([roomId, data]) => toRoom(roomId, data))
+    },
+
+    async joinRoom(roomId, player) {
+      requireRoom(roomId)
+      commit({ kind: 'player', roomId, playerId: player.id, updates: player })
+    },
+
+    async updateRoom(roomId, updates: RoomUpdate) {
+      requireRoom(roomId)
+      commit({ kind: 'room-update', roomId, updates })
+    },
+
+    async updatePlayer(roomId, playerId, updates: Partial<RoomPlayer>) {
+      requireRoom(roomId)
+      commit({ kind: 'player', roomId, playerId, updates })
+    },
+
+    async reportSlice(roomId, slice) {
+      requireRoom(roomId)
+      commit({ kind: 'slice', roomId, slice })
+    },
+
+    async deleteRoom(roomId) {
+      commit({ kind: 'room', roomId, data: null })
+      for (const role of ['host', 'guest'] as const) {
+        const key = signalKey(roomId, role)
+        commit({ kind: 'signal', key, message: null })
+        commit({ kind: 'ice-clear', key })
+      }
+    },
+
+    subscribeToRoom(roomId, callback) {
+      return listen(
+        `room/${roomId}`,
+        (value) => callback(value as Room | null),
+        () => {
+          const data = rooms.get(roomId)
+          return data ? toRoom(roomId, data) : null
+        }
+      )
+    },
+
+    async putQueueEntry(entry) {
+      commit({ kind: 'queue', playerId: entry.playerId, entry })
+    },
+
+    async updateQueueEntry(playerId, updates) {
+      const entry = { ...requireQueueEntry(playerId), ...updates }
+      commit({ kind: 'queue', playerId, entry })
+    },
+
+    async removeQueueEntry(playerId) {
+      commit({ kind: 'queue', playerId, entry: null })
+    },
+
+    async listQueue() {
+      return Array.from(queue.values(), clone)
+    },
+
+    async claimMatch(playerId, opponentId, roomId, data) {
+      const mine = queue.get(playerId)
+      const theirs = queue.get(opponentId)
+      if (!mine || !theirs) return false
+      if (mine.matchedRoomId || theirs.matchedRoomId) return false
+
+      const match = { matchedRoomId: roomId, matchedRoomCode: data.code }
+      commit({ kind: 'room', roomId, data })
+      commit({ kind: 'queue', playerId, entry: { ...clone(mine), ...match } })
+      commit({ kind: 'queue', playerId: opponentId, entry: { ...clone(theirs), ...match } })
+      return true
+    },
+
+    subscribeToQueueEntry(playerId, callback) {
+      return listen(
+        `queue/${playerId}`,
+        (value) => callback(value as QueueEntry | null),
+        () => queue.get(playerId) ?? null
+      )
+    },
+
+    async getProfile(playerId) {
+      const profile = profiles.get(playerId)
+      return profile ? clone(profile) : null
+    },
+
+    async saveProfile(profile) {
+      commit({ kind: 'profile', profile })
+    },
+
+    async sendSignal(roomId, role, message) {
+      commit({ kind: 'signal', key: signalKey(roomId, role), message })
+    },
+
+    subscribeToSignal(roomId, role, callback) {
+      const key = signalKey(roomId, role)
+      return listen(
+        `signal/${key}`,
+        (value) => callback(value as SignalingMessage | null),
+        () => signals.get(key) ?? null
+      )
+    },
+
+    async addIceCandidate(roomId, role, record) {
+      commit({ kind: 'ice', key: signalKey(roomId, role), record })
+    },
+
+    async getIceCandidates(roomId, role) {
+      return clone(candidates.get(signalKey(roomId, role)) ?? [])
+    },
+
+    subscribeToIceCandidates(roomId, role, callback) {
+      const key = signalKey(roomId, role)
+      const unsubscribe = listen(`ice/${key}`, (value) => callback(value as IceCandidateRecord))
+
+      // Replay candidates that arrived before subscribing
+      const existing = clone(candidates.get(key) ?? [])
+      queueMicrotask(() => existing.forEach(callback))
+
+      return unsubscribe
+    },
+
+    async clearSignaling(roomId, role) {
+      const key = signalKey(roomId, role)
+      commit({ kind: 'signal', key, message: null })
+      commit({ kind: 'ice-clear', key })
+    },
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { findQueueOpponent, getEloWindow } from './multiplayerService'
+import type { QueueEntry } from './types'
+
+const NOW = 1_000_000
+
+// An entry that joined `waitedMs` ago and is still heartbeating
+const queued = (playerId: string, elo: number, waitedMs = 0, extra: Partial<QueueEntry> = {}): QueueEntry => ({
+  playerId,
+  playerName: playerId,
+  elo,
+  joinedAt: NOW - waitedMs,
+  lastSeen: NOW,
+  ...extra,
+})
+
+describe('getEloWindow', () => {
+  it('starts at 200 and widens by 50 every 10 seconds', () => {
+    expect(getEloWindow(0)).toBe(200)
+    expect(getEloWindow(9_999)).toBe(200)
+    expect(getEloWindow(10_000)).toBe(250)
+    expect(getEloWindow(35_000)).toBe(350)
+  })
+
+  it('matches anyone after a minute', () => {
+    expect(getEloWindow(59_999)).toBe(450)
+    expect(getEloWindow(60_000)).toBe(Infinity)
+  })
+
+  it('treats a negative wait (clock skew) as no wait', () => {
+    expect(getEloWindow(-5_000)).toBe(200)
+  })
+})
+
+describe('findQueueOpponent', () => {
+  const me = queued('me', 1000)
+
+  it('skips itself', () => {
+    expect(findQueueOpponent(me, [me], NOW)).toBeNull()
+  })
+
+  it('pairs players within the starting window', () => {
+    const near = queued('near', 1200)
+
+    expect(findQueueOpponent(me, [near], NOW)).toBe(near)
+    expect(findQueueOpponent(me, [queued('far', 1201)], NOW)).toBeNull()
+  })
+
+  it("uses either player's wait, so a long waiter gets paired with a newcomer", () => {
+    const longWaiter = queued('waiter', 1400, 40_000) // Window 400
+
+    expect(findQueueOpponent(me, [longWaiter], NOW)).toBe(longWaiter)
+    expect(findQueueOpponent(longWaiter, [me], NOW)).toBe(me)
+  })
+
+  it('skips entries that are already matched', () => {
+    const matched = queued('matched', 1000, 0, { matchedRoomId: 'room_1' })
+
+    expect(findQueueOpponent(me, [matched], NOW)).toBeNull()
+  })
+
+  it('skips entries that stopped heartbeating', () => {
+    const stale = queued('stale', 1000, 30_000, { lastSeen: NOW - 15_001 })
+    const neverSeen = queued('never-seen', 1000, 15_001, { lastSeen: undefined })
+
+    expect(findQueueOpponent(me, [stale, neverSeen], NOW)).toBeNull()
+    expect(findQueueOpponent(me, [queued('fresh', 1000, 30_000, { lastSeen: NOW - 15_000 })], NOW)).not.toBeNull()
+  })
+
+  it('picks the closest rating, then the longest wait', () => {
+    const close = queued('close', 1050, 1_000)
+    const closer = queued('closer', 980, 1_000)
+    const closerWaitingLonger = queued('closer-waiting-longer', 1020, 5_000)
+
+    expect(findQueueOpponent(me, [close, closer], NOW)).toBe(closer)
+    expect(findQueueOpponent(me, [close, closer, closerWaitingLonger], NOW)).toBe(closerWaitingLonger)
+  })
+})
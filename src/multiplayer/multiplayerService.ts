@@ -1,24 +1,27 @@
 /**
  * Multiplayer Service
- * Firestore operations for room management and game sync
+ * Room management and game sync on top of the active RoomBackend
  */
 
-import {
-  collection,
-  doc,
-  setDoc,
-  getDoc,
-  getDocs,
-  updateDoc,
-  deleteDoc,
-  onSnapshot,
-  query,
-  where,
-  type Unsubscribe,
-} from 'firebase/firestore'
-import { getDb, isFirebaseEnabled } from '@/services/firebase'
-import type { Room, RoomData, RoomPlayer, SliceEventMP, RoomState } from './types'
+import { getRoomBackend, type RoomUpdate, type Unsubscribe } from './roomBackend'
+import type {
+  Room,
+  RoomData,
+  RoomPlayer,
+  SliceEventMP,
+  RoomState,
+  MatchOutcome,
+  RatingChange,
+  QueueEntry,
+} from './types'
 import { generateSeed } from './SeededRNG'
+import { verifyRoom } from './scoreVerifier'
+import {
+  applyMatchToProfile,
+  calculateEloChange,
+  getPlayerProfile,
+  savePlayerProfile,
+} from './eloService'
 
 // Room code generation
 const ROOM_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789' // Exclude similar chars (I,1,O,0)
@@ -49,37 +52,41 @@ export function getPlayerName(): string {
   return stored || `Player${Math.floor(Math.random() * 1000)}`
 }
 
-/**
- * Create a new multiplayer room
- */
-export async function createRoom(playerName: string): Promise<Room | null> {
-  if (!isFirebaseEnabled()) {
-    console.warn('Firebase not configured for multiplayer')
-    console.warn('Make sure you have set up Firebase environment variables.')
-    return null
-  }
-
-  const db = getDb()
-  if (!db) {
-    console.error('Failed to get Firestore database instance')
-    return null
-  }
-
-  const playerId = getPlayerId()
-  const roomCode = generateRoomCode()
-  const roomId = `room_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
-
-  const initialPlayer: RoomPlayer = {
-    id: playerId,
-    name: playerName,
-    elo: 1000, // Default starting ELO
+function createRoomPlayer(
+  id: string,
+  name: string,
+  elo: number,
+  gamesPlayed: number
+): RoomPlayer {
+  return {
+    id,
+    name,
+    elo,
+    gamesPlayed,
     ready: false,
     score: 0,
     combo: 0,
     maxCombo: 0,
     connected: true,
     lastActivity: Date.now(),
+    finished: false,
   }
+}
+
+function generateRoomId(): string {
+  return `room_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Create a new multiplayer room
+ */
+export async function createRoom(playerName: string): Promise<Room | null> {
+  const playerId = getPlayerId()
+  const roomCode = generateRoomCode()
+  const roomId = generateRoomId()
+  const profile = await getPlayerProfile(playerId, playerName)
+
+  const initialPlayer = createRoomPlayer(playerId, playerName, profile.elo, profile.gamesPlayed)
 
   const roomData: RoomData = {
     code: roomCode,
@@ -93,7 +100,7 @@ export async function createRoom(playerName: string): Promise<Room | null> {
   }
 
   try {
-    await setDoc(doc(db, 'rooms', roomId), roomData)
+    await getRoomBackend().createRoom(roomId, roomData)
 
     return {
       id: roomId,
@@ -117,27 +124,8 @@ export async function createRoom(playerName: string): Promise<Room | null> {
  * Find room by code
  */
 export async function findRoomByCode(code: string): Promise<Room | null> {
-  if (!isFirebaseEnabled()) return null
-
-  const db = getDb()
-  if (!db) return null
-
-  const upperCode = code.toUpperCase()
-
   try {
-    const roomsRef = collection(db, 'rooms')
-    const q = query(roomsRef, where('code', '==', upperCode), where('state', '==', 'waiting'))
-    const snapshot = await getDocs(q)
-
-    if (snapshot.empty) return null
-
-    const roomDoc = snapshot.docs[0]
-    const data = roomDoc.data() as RoomData
-
-    return {
-      id: roomDoc.id,
-      ...data,
-    }
+    return await getRoomBackend().findRoomByCode(code.toUpperCase())
   } catch (error) {
     console.error('Failed to find room:', error)
     return null
@@ -151,33 +139,17 @@ export async function joinRoom(
   roomId: string,
   playerName: string
 ): Promise<boolean> {
-  if (!isFirebaseEnabled()) return false
-
-  const db = getDb()
-  if (!db) return false
-
+  const backend = getRoomBackend()
   const playerId = getPlayerId()
+  const profile = await getPlayerProfile(playerId, playerName)
 
-  const newPlayer: RoomPlayer = {
-    id: playerId,
-    name: playerName,
-    elo: 1000,
-    ready: false,
-    score: 0,
-    combo: 0,
-    maxCombo: 0,
-    connected: true,
-    lastActivity: Date.now(),
-  }
+  const newPlayer = createRoomPlayer(playerId, playerName, profile.elo, profile.gamesPlayed)
 
   try {
     // Check if room exists and has space
-    const roomRef = doc(db, 'rooms', roomId)
-    const snapshot = await getDoc(roomRef)
+    const roomData = await backend.getRoom(roomId)
+    if (!roomData) return false
 
-    if (!snapshot.exists()) return false
-
-    const roomData = snapshot.data() as RoomData
     const playerCount = Object.keys(roomData.players || {}).length
 
     if (playerCount >= 2) {
@@ -189,9 +161,7 @@ export async function joinRoom(
     }
 
     // Add player to room
-    await updateDoc(roomRef, {
-      [`players.${playerId}`]: newPlayer,
-    })
+    await backend.joinRoom(roomId, newPlayer)
 
     return true
   } catch (error) {
@@ -201,38 +171,165 @@ export async function joinRoom(
 }
 
 /**
- * Leave a room
+ * Quick Match
+ * Players wait in a shared queue and are paired by ELO. The search window
+ * starts narrow and widens the longer a player waits.
  */
-export async function leaveRoom(roomId: string): Promise<void> {
-  if (!isFirebaseEnabled()) return
+const QUEUE_BASE_WINDOW = 200
+const QUEUE_WINDOW_STEP = 50
+const QUEUE_WINDOW_STEP_MS = 10 * 1000
+const QUEUE_MATCH_ANYONE_MS = 60 * 1000
+const QUEUE_STALE_MS = 15 * 1000 // Entries without a heartbeat for this long are ignored
 
-  const db = getDb()
-  if (!db) return
+/**
+ * Allowed ELO difference after waiting for the given time
+ */
+export function getEloWindow(waitedMs: number): number {
+  if (waitedMs >= QUEUE_MATCH_ANYONE_MS) return Infinity
+  const steps = Math.floor(Math.max(0, waitedMs) / QUEUE_WINDOW_STEP_MS)
+  return QUEUE_BASE_WINDOW + steps * QUEUE_WINDOW_STEP
+}
 
+/**
+ * Pick the best opponent for an entry from the current queue.
+ * Either player's window may allow the pairing, so long waiters still get
+ * matched with newcomers. Closest rating wins, then longest wait.
+ */
+export function findQueueOpponent(
+  entry: QueueEntry,
+  queue: QueueEntry[],
+  now: number = Date.now()
+): QueueEntry | null {
+  let best: QueueEntry | null = null
+  let bestDiff = Infinity
+
+  for (const candidate of queue) {
+    if (candidate.playerId === entry.playerId) continue
+    if (candidate.matchedRoomId) continue
+    if (now - (candidate.lastSeen ?? candidate.joinedAt) > QUEUE_STALE_MS) continue
+
+    const diff = Math.abs(candidate.elo - entry.elo)
+    const window = Math.max(
+      getEloWindow(now - entry.joinedAt),
+      getEloWindow(now - candidate.joinedAt)
+    )
+    if (diff > window) continue
+
+    if (diff < bestDiff || (diff === bestDiff && best && candidate.joinedAt < best.joinedAt)) {
+      best = candidate
+      bestDiff = diff
+    }
+  }
+
+  return best
+}
+
+/**
+ * Join the Quick Match queue
+ */
+export async function enqueueForMatch(playerName: string): Promise<QueueEntry | null> {
   const playerId = getPlayerId()
+  const profile = await getPlayerProfile(playerId, playerName)
+  const now = Date.now()
+
+  const entry: QueueEntry = {
+    playerId,
+    playerName,
+    elo: profile.elo,
+    gamesPlayed: profile.gamesPlayed,
+    joinedAt: now,
+    lastSeen: now,
+    matchedRoomId: null,
+    matchedRoomCode: null,
+  }
+
+  try {
+    await getRoomBackend().putQueueEntry(entry)
+    return entry
+  } catch (error) {
+    console.error('Failed to join matchmaking queue:', error)
+    return null
+  }
+}
 
+/**
+ * Leave the Quick Match queue
+ */
+export async function dequeueFromMatch(): Promise<void> {
   try {
-    const roomRef = doc(db, 'rooms', roomId)
-    const snapshot = await getDoc(roomRef)
+    await getRoomBackend().removeQueueEntry(getPlayerId())
+  } catch (error) {
+    console.error('Failed to leave matchmaking queue:', error)
+  }
+}
 
-    if (!snapshot.exists()) return
+/**
+ * Look for an opponent and, if one is found, create a room for both players.
+ * The pairing is claimed atomically so two searchers can't take the same
+ * opponent. The caller becomes host.
+ */
+export async function tryMatchFromQueue(entry: QueueEntry): Promise<Room | null> {
+  const backend = getRoomBackend()
+
+  try {
+    await backend.updateQueueEntry(entry.playerId, { lastSeen: Date.now() })
+
+    const queue = await backend.listQueue()
+    const opponent = findQueueOpponent(entry, queue)
+    if (!opponent) return null
+
+    const roomId = generateRoomId()
+    const roomData: RoomData = {
+      code: generateRoomCode(),
+      state: 'waiting',
+      hostId: entry.playerId,
+      seed: generateSeed(),
+      createdAt: Date.now(),
+      players: {
+        [entry.playerId]: createRoomPlayer(entry.playerId, entry.playerName, entry.elo, entry.gamesPlayed ?? 0),
+        [opponent.playerId]: createRoomPlayer(opponent.playerId, opponent.playerName, opponent.elo, opponent.gamesPlayed ?? 0),
+      },
+    }
+
+    const claimed = await backend.claimMatch(entry.playerId, opponent.playerId, roomId, roomData)
+    return claimed ? { id: roomId, ...roomData } : null
+  } catch (error) {
+    console.error('Failed to match from queue:', error)
+    return null
+  }
+}
+
+/**
+ * Watch this player's queue entry for being paired by another player
+ */
+export function subscribeToQueueEntry(
+  callback: (match: { roomId: string; roomCode: string } | null) => void
+): Unsubscribe {
+  return getRoomBackend().subscribeToQueueEntry(getPlayerId(), (entry) => {
+    if (entry?.matchedRoomId && entry.matchedRoomCode) {
+      callback({ roomId: entry.matchedRoomId, roomCode: entry.matchedRoomCode })
+    } else {
+      callback(null)
+    }
+  })
+}
+
+/**
+ * Leave a room
+ */
+export async function leaveRoom(roomId: string): Promise<void> {
+  const backend = getRoomBackend()
+  const playerId = getPlayerId()
+
+  try {
+    const roomData = await backend.getRoom(roomId)
+    if (!roomData) return
 
-    const roomData = snapshot.data() as RoomData
     const playerCount = Object.keys(roomData.players || {}).length
 
     if (playerCount <= 1) {
-      // Last player leaving, delete the room entirely
-      await deleteDoc(roomRef)
-      
-      // Also clean up any signaling subcollection data
-      try {
-        const signalingCol = collection(db, 'rooms', roomId, 'signaling')
-        const signalingDocs = await getDocs(signalingCol)
-        const deletePromises = signalingDocs.docs.map(d => deleteDoc(d.ref))
-        await Promise.all(deletePromises)
-      } catch {
-        // Ignore signaling cleanup errors
-      }
+      // Last player leaving, delete the room (and its signaling data) entirely
+      await backend.deleteRoom(roomId)
     } else {
       // Remove just this player by creating new players object without this player
       const updatedPlayers = { ...roomData.players }
@@ -241,7 +338,7 @@ export async function leaveRoom(roomId: string): Promise<void> {
       // Clear sensitive game data from the leaving player to reduce storage
       // (scores, slices, etc. - not needed after they leave)
 
-      const updates: Record<string, unknown> = { players: updatedPlayers }
+      const updates: RoomUpdate = { players: updatedPlayers }
 
       // If host is leaving, transfer host to remaining player
       if (roomData.hostId === playerId) {
@@ -251,7 +348,7 @@ export async function leaveRoom(roomId: string): Promise<void> {
         }
       }
 
-      await updateDoc(roomRef, updates)
+      await backend.updateRoom(roomId, updates)
     }
   } catch (error) {
     console.error('Failed to leave room:', error)
@@ -262,24 +359,8 @@ export async function leaveRoom(roomId: string): Promise<void> {
  * Delete a room immediately (for cleanup after games)
  */
 export async function deleteRoom(roomId: string): Promise<void> {
-  if (!isFirebaseEnabled()) return
-
-  const db = getDb()
-  if (!db) return
-
   try {
-    const roomRef = doc(db, 'rooms', roomId)
-    await deleteDoc(roomRef)
-    
-    // Also clean up signaling subcollection
-    try {
-      const signalingCol = collection(db, 'rooms', roomId, 'signaling')
-      const signalingDocs = await getDocs(signalingCol)
-      const deletePromises = signalingDocs.docs.map(d => deleteDoc(d.ref))
-      await Promise.all(deletePromises)
-    } catch {
-      // Ignore signaling cleanup errors
-    }
+    await getRoomBackend().deleteRoom(roomId)
   } catch (error) {
     console.error('Failed to delete room:', error)
   }
@@ -292,18 +373,12 @@ export async function setPlayerReady(
   roomId: string,
   ready: boolean
 ): Promise<void> {
-  if (!isFirebaseEnabled()) return
-
-  const db = getDb()
-  if (!db) return
-
   const playerId = getPlayerId()
 
   try {
-    const roomRef = doc(db, 'rooms', roomId)
-    await updateDoc(roomRef, {
-      [`players.${playerId}.ready`]: ready,
-      [`players.${playerId}.lastActivity`]: Date.now(),
+    await getRoomBackend().updatePlayer(roomId, playerId, {
+      ready,
+      lastActivity: Date.now(),
     })
   } catch (error) {
     console.error('Failed to set ready status:', error)
@@ -314,27 +389,15 @@ export async function setPlayerReady(
  * Start the game (host only)
  */
 export async function startGame(roomId: string): Promise<boolean> {
-  if (!isFirebaseEnabled()) {
-    return false
-  }
-
-  const db = getDb()
-  if (!db) {
-    return false
-  }
-
+  const backend = getRoomBackend()
   const playerId = getPlayerId()
 
   try {
-    const roomRef = doc(db, 'rooms', roomId)
-    const snapshot = await getDoc(roomRef)
-
-    if (!snapshot.exists()) {
+    const roomData = await backend.getRoom(roomId)
+    if (!roomData) {
       return false
     }
 
-    const roomData = snapshot.data() as RoomData
-
     // Only host can start
     if (roomData.hostId !== playerId) {
       return false
@@ -347,8 +410,8 @@ export async function startGame(roomId: string): Promise<boolean> {
     }
 
     // Start countdown
-    await updateDoc(roomRef, {
-      state: 'countdown' as RoomState,
+    await backend.updateRoom(roomId, {
+      state: 'countdown',
       startedAt: Date.now(),
     })
 
@@ -366,14 +429,8 @@ export async function updateRoomState(
   roomId: string,
   state: RoomState
 ): Promise<void> {
-  if (!isFirebaseEnabled()) return
-
-  const db = getDb()
-  if (!db) return
-
   try {
-    const roomRef = doc(db, 'rooms', roomId)
-    await updateDoc(roomRef, { state })
+    await getRoomBackend().updateRoom(roomId, { state })
   } catch (error) {
     console.error('Failed to update room state:', error)
   }
@@ -388,39 +445,32 @@ export async function syncPlayerScore(
   combo: number,
   maxCombo: number
 ): Promise<void> {
-  if (!isFirebaseEnabled()) return
-
-  const db = getDb()
-  if (!db) return
-
   const playerId = getPlayerId()
 
   try {
-    const roomRef = doc(db, 'rooms', roomId)
-    await updateDoc(roomRef, {
-      [`players.${playerId}.score`]: score,
-      [`players.${playerId}.combo`]: combo,
-      [`players.${playerId}.maxCombo`]: maxCombo,
-      [`players.${playerId}.lastActivity`]: Date.now(),
+    await getRoomBackend().updatePlayer(roomId, playerId, {
+      score,
+      combo,
+      maxCombo,
+      lastActivity: Date.now(),
     })
   } catch (error) {
     console.error('Failed to sync score:', error)
   }
 }
 
+// Slice reports still in flight; endGame waits for them so verification sees every slice
+const pendingSlices = new Set<Promise<void>>()
+
 /**
- * Report a slice event (for opponent visualization)
+ * Report a slice event (for opponent visualization and end-of-match verification)
  */
 export async function reportSlice(
   roomId: string,
   fruitId: string,
-  position: { x: number; y: number }
+  position: { x: number; y: number },
+  details: { tick?: number; scoreDelta?: number } = {}
 ): Promise<void> {
-  if (!isFirebaseEnabled()) return
-
-  const db = getDb()
-  if (!db) return
-
   const playerId = getPlayerId()
 
   const sliceEvent: SliceEventMP = {
@@ -429,44 +479,41 @@ export async function reportSlice(
     playerId,
     timestamp: Date.now(),
     position,
+    ...(details.tick !== undefined && { tick: details.tick }),
+    ...(details.scoreDelta !== undefined && { scoreDelta: details.scoreDelta }),
   }
 
-  try {
-    // Store last slice in player data (simpler than subcollection for now)
-    const roomRef = doc(db, 'rooms', roomId)
-    await updateDoc(roomRef, {
-      [`players.${playerId}.lastSlice`]: sliceEvent,
-    })
-  } catch (error) {
-    console.error('Failed to report slice:', error)
-  }
+  const report = getRoomBackend()
+    .reportSlice(roomId, sliceEvent)
+    .catch((error) => console.error('Failed to report slice:', error))
+  pendingSlices.add(report)
+  await report
+  pendingSlices.delete(report)
 }
 
 /**
  * Reset room for rematch
  */
 export async function resetRoomForRematch(roomId: string): Promise<boolean> {
-  if (!isFirebaseEnabled()) return false
-
-  const db = getDb()
-  if (!db) return false
+  const backend = getRoomBackend()
 
   try {
-    const roomRef = doc(db, 'rooms', roomId)
-    const snapshot = await getDoc(roomRef)
-
-    if (!snapshot.exists()) return false
-
-    const roomData = snapshot.data() as RoomData
+    const roomData = await backend.getRoom(roomId)
+    if (!roomData) return false
     
-    // Reset all player scores
+    // Reset all player scores and carry over ratings from the last match
     const resetPlayers: Record<string, RoomPlayer> = {}
     for (const [playerId, player] of Object.entries(roomData.players)) {
+      const lastChange = roomData.ratingChanges?.[playerId]
       resetPlayers[playerId] = {
         ...player,
+        elo: lastChange ? lastChange.after : player.elo,
+        gamesPlayed: lastChange ? (player.gamesPlayed ?? 0) + 1 : player.gamesPlayed ?? 0,
         score: 0,
         combo: 0,
         maxCombo: 0,
+        slices: [],
+        finished: false,
         ready: true, // Auto-ready for rematch
       }
     }
@@ -474,12 +521,14 @@ export async function resetRoomForRematch(roomId: string): Promise<boolean> {
     // Generate new seed for next game
     const newSeed = generateSeed()
 
-    await updateDoc(roomRef, {
-      state: 'countdown' as RoomState, // Go directly to countdown for quick rematch
+    await backend.updateRoom(roomId, {
+      state: 'countdown', // Go directly to countdown for quick rematch
       seed: newSeed,
       startedAt: Date.now(),
       endedAt: null,
       winnerId: null,
+      verifiedScores: null,
+      ratingChanges: null,
       players: resetPlayers,
     })
     return true
@@ -490,45 +539,134 @@ export async function resetRoomForRematch(roomId: string): Promise<boolean> {
 }
 
 /**
- * End game and declare winner
+ * Compute rating changes for both players of a finished match
  */
-export async function endGame(roomId: string): Promise<void> {
-  if (!isFirebaseEnabled()) return
+function computeRatingChanges(
+  players: RoomPlayer[],
+  winnerId: string | undefined
+): Record<string, RatingChange> {
+  const changes: Record<string, RatingChange> = {}
+  if (players.length !== 2) return changes
+
+  const [p1, p2] = players
+  for (const [player, opponent] of [[p1, p2], [p2, p1]]) {
+    const outcome: MatchOutcome = !winnerId ? 'draw' : winnerId === player.id ? 'win' : 'loss'
+    changes[player.id] = calculateEloChange(
+      player.elo,
+      opponent.elo,
+      outcome,
+      player.gamesPlayed ?? 0
+    )
+  }
+  return changes
+}
 
-  const db = getDb()
-  if (!db) return
+// How long endGame waits for the opponent to finish before verifying without them
+const FINISH_GRACE_MS = 5000
 
-  try {
-    const roomRef = doc(db, 'rooms', roomId)
-    const snapshot = await getDoc(roomRef)
+/**
+ * The room once every player has flagged finished (or the match was already
+ * decided), or the latest snapshot once the grace period runs out
+ */
+function waitForFinishedPlayers(roomId: string, timeoutMs: number): Promise<Room | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let unsubscribe: Unsubscribe = () => {}
+
+  return new Promise<Room | null>((resolve) => {
+    let latest: Room | null = null
+    timer = setTimeout(() => resolve(latest), timeoutMs)
+    unsubscribe = getRoomBackend().subscribeToRoom(roomId, (room) => {
+      latest = room
+      const players = Object.values(room?.players || {})
+      if (!room || room.state === 'finished' || players.every((player) => player.finished)) {
+        resolve(room)
+      }
+    })
+  }).finally(() => {
+    clearTimeout(timer)
+    unsubscribe()
+  })
+}
 
-    if (!snapshot.exists()) return
+/**
+ * End game, verify scores, declare winner and compute rating changes (each
+ * client saves its own with saveMatchRating). Both clients call this. Each flags itself finished once its slices are
+ * reported, and verification waits for both flags so a slice still in flight
+ * can't decide the match.
+ */
+export async function endGame(roomId: string): Promise<void> {
+  const backend = getRoomBackend()
+  const playerId = getPlayerId()
+
+  try {
+    await Promise.allSettled(pendingSlices)
+    await backend.updatePlayer(roomId, playerId, { finished: true })
 
-    const roomData = snapshot.data() as RoomData
+    const roomData = (await waitForFinishedPlayers(roomId, FINISH_GRACE_MS)) ?? (await backend.getRoom(roomId))
+    // Already decided by the opponent's client
+    if (!roomData || roomData.state === 'finished') return
     const players = Object.values(roomData.players || {})
 
-    // Determine winner
+    // Determine winner from verified slices, not the scores clients wrote
+    const verification = verifyRoom(roomData)
+    const verifiedScores: Record<string, number> = {}
+    for (const player of players) {
+      const result = verification[player.id]
+      verifiedScores[player.id] = result.score
+      if (result.rejectedCount > 0) {
+        console.warn(`[endGame] Rejected ${result.rejectedCount} slice(s) from ${player.id}`)
+      }
+    }
+
     let winnerId: string | undefined
     if (players.length === 2) {
       const [p1, p2] = players
-      if (p1.score > p2.score) {
+      if (verifiedScores[p1.id] > verifiedScores[p2.id]) {
         winnerId = p1.id
-      } else if (p2.score > p1.score) {
+      } else if (verifiedScores[p2.id] > verifiedScores[p1.id]) {
         winnerId = p2.id
       }
       // If tied, winnerId stays undefined
     }
 
-    await updateDoc(roomRef, {
-      state: 'finished' as RoomState,
+    const ratingChanges = computeRatingChanges(players, winnerId)
+
+    await backend.updateRoom(roomId, {
+      state: 'finished',
       endedAt: Date.now(),
       winnerId: winnerId || null,
+      verifiedScores,
+      ratingChanges,
     })
   } catch (error) {
     console.error('Failed to end game:', error)
   }
 }
 
+// Matches whose rating change this client has already saved
+const savedMatches = new Set<string>()
+
+/**
+ * Persist this player's rating change once the room is finished. Every client
+ * does this when it sees the result, whichever client decided the match;
+ * re-running for the same match replaces the earlier result rather than stacking it.
+ */
+export async function saveMatchRating(room: Room): Promise<void> {
+  const playerId = getPlayerId()
+  const change = room.ratingChanges?.[playerId]
+  const me = room.players[playerId]
+  if (room.state !== 'finished' || !change || !me) return
+
+  const matchId = `${room.id}_${room.startedAt ?? room.createdAt}`
+  if (savedMatches.has(matchId)) return
+
+  const profile = await getPlayerProfile(playerId, me.name)
+  // Only a save that went through counts; a failed one is tried again on the next room update
+  if (await savePlayerProfile(applyMatchToProfile({ ...profile, username: me.name }, matchId, change))) {
+    savedMatches.add(matchId)
+  }
+}
+
 /**
  * Subscribe to room updates
  */
@@ -536,33 +674,7 @@ export function subscribeToRoom(
   roomId: string,
   callback: (room: Room | null) => void
 ): Unsubscribe {
-  const db = getDb()
-  if (!db) {
-    callback(null)
-    return () => {}
-  }
-
-  const roomRef = doc(db, 'rooms', roomId)
-
-  return onSnapshot(
-    roomRef,
-    (snapshot) => {
-      if (!snapshot.exists()) {
-        callback(null)
-        return
-      }
-
-      const data = snapshot.data() as RoomData
-      callback({
-        id: roomId,
-        ...data,
-      })
-    },
-    (error) => {
-      console.error('Room subscription error:', error)
-      callback(null)
-    }
-  )
+  return getRoomBackend().subscribeToRoom(roomId, callback)
 }
 
 /**
@@ -572,18 +684,12 @@ export async function setPlayerConnected(
   roomId: string,
   connected: boolean
 ): Promise<void> {
-  if (!isFirebaseEnabled()) return
-
-  const db = getDb()
-  if (!db) return
-
   const playerId = getPlayerId()
 
   try {
-    const roomRef = doc(db, 'rooms', roomId)
-    await updateDoc(roomRef, {
-      [`players.${playerId}.connected`]: connected,
-      [`players.${playerId}.lastActivity`]: Date.now(),
+    await getRoomBackend().updatePlayer(roomId, playerId, {
+      connected,
+      lastActivity: Date.now(),
     })
   } catch (error) {
     console.error('Failed to update connection status:', error)
@@ -594,35 +700,29 @@ export async function setPlayerConnected(
  * Clean up old/abandoned rooms (call periodically or on app start)
  */
 export async function cleanupStaleRooms(): Promise<void> {
-  if (!isFirebaseEnabled()) return
-
-  const db = getDb()
-  if (!db) return
-
+  const backend = getRoomBackend()
   const WAITING_STALE_THRESHOLD = 10 * 60 * 1000 // 10 minutes for waiting rooms
   const FINISHED_STALE_THRESHOLD = 2 * 60 * 1000 // 2 minutes for finished rooms
 
   try {
-    const roomsRef = collection(db, 'rooms')
-    const snapshot = await getDocs(roomsRef)
+    const rooms = await backend.listRooms()
 
     const now = Date.now()
     const deletePromises: Promise<void>[] = []
 
-    snapshot.forEach((docSnap) => {
-      const room = docSnap.data() as RoomData
+    rooms.forEach((room) => {
       const age = now - room.createdAt
 
       // Delete rooms that are stale and still in waiting state
       if (room.state === 'waiting' && age > WAITING_STALE_THRESHOLD) {
-        deletePromises.push(deleteDoc(doc(db, 'rooms', docSnap.id)))
+        deletePromises.push(backend.deleteRoom(room.id))
       }
 
       // Delete finished rooms after short time (game data not needed)
       if (room.state === 'finished' && room.endedAt) {
         const finishedAge = now - room.endedAt
         if (finishedAge > FINISHED_STALE_THRESHOLD) {
-          deletePromises.push(deleteDoc(doc(db, 'rooms', docSnap.id)))
+          deletePromises.push(backend.deleteRoom(room.id))
         }
       }
     })
@@ -0,0 +1,112 @@
+/**
+ * Room Backend
+ * Storage + realtime transport behind rooms, matchmaking, ranked profiles and
+ * WebRTC signaling.
+ * Firestore when Firebase is configured, otherwise an in-memory backend that
+ * syncs across tabs with BroadcastChannel.
+ */
+
+import { getDb, isFirebaseEnabled } from '@/services/firebase'
+import { createFirestoreBackend } from './firestoreBackend'
+import { createLocalBackend } from './localBackend'
+import type { PlayerProfile, QueueEntry, Room, RoomData, RoomPlayer, SliceEventMP } from './types'
+
+export type Unsubscribe = () => void
+
+// Partial room update; null clears a field
+export type RoomUpdate = {
+  [K in Exclude<keyof RoomData, 'players'>]?: RoomData[K] | null
+} & {
+  players?: Record<string, RoomPlayer>
+}
+
+export type SignalingRole = 'host' | 'guest'
+
+export interface SignalingMessage {
+  type: 'offer' | 'answer'
+  sdp?: string
+  timestamp: number
+  iceRestart?: boolean
+}
+
+export interface IceCandidateRecord {
+  id: string
+  candidate: RTCIceCandidateInit
+}
+
+export interface RoomBackend {
+  readonly kind: 'firestore' | 'local'
+
+  // Rooms
+  createRoom(roomId: string, data: RoomData): Promise<void>
+  getRoom(roomId: string): Promise<Room | null>
+  findRoomByCode(code: string): Promise<Room | null> // Waiting rooms only
+  listRooms(): Promise<Room[]>
+  joinRoom(roomId: string, player: RoomPlayer): Promise<void>
+  updateRoom(roomId: string, updates: RoomUpdate): Promise<void>
+  updatePlayer(roomId: string, playerId: string, updates: Partial<RoomPlayer>): Promise<void>
+  /** Record as the player's lastSlice and append to their slice log */
+  reportSlice(roomId: string, slice: SliceEventMP): Promise<void>
+  deleteRoom(roomId: string): Promise<void>
+  subscribeToRoom(roomId: string, callback: (room: Room | null) => void): Unsubscribe
+
+  // Matchmaking queue
+  putQueueEntry(entry: QueueEntry): Promise<void>
+  updateQueueEntry(playerId: string, updates: Partial<QueueEntry>): Promise<void>
+  removeQueueEntry(playerId: string): Promise<void>
+  listQueue(): Promise<QueueEntry[]>
+  /** Atomically pair two unmatched entries into a new room; false if either was taken */
+  claimMatch(playerId: string, opponentId: string, roomId: string, data: RoomData): Promise<boolean>
+  subscribeToQueueEntry(playerId: string, callback: (entry: QueueEntry | null) => void): Unsubscribe
+
+  // Ranked player profiles
+  getProfile(playerId: string): Promise<PlayerProfile | null>
+  saveProfile(profile: PlayerProfile): Promise<void>
+
+  // WebRTC signaling
+  sendSignal(roomId: string, role: SignalingRole, message: SignalingMessage): Promise<void>
+  subscribeToSignal(
+    roomId: string,
+    role: SignalingRole,
+    callback: (message: SignalingMessage | null) => void
+  ): Unsubscribe
+  addIceCandidate(roomId: string, role: SignalingRole, candidate: IceCandidateRecord): Promise<void>
+  getIceCandidates(roomId: string, role: SignalingRole): Promise<IceCandidateRecord[]>
+  /** Called once per newly added candidate */
+  subscribeToIceCandidates(
+    roomId: string,
+    role: SignalingRole,
+    callback: (candidate: IceCandidateRecord) => void
+  ): Unsubscribe
+  clearSignaling(roomId: string, role: SignalingRole): Promise<void>
+}
+
+let activeBackend: RoomBackend | null = null
+
+function createDefaultBackend(): RoomBackend {
+  const preferLocal = import.meta.env.VITE_MULTIPLAYER_BACKEND === 'local'
+  const db = !preferLocal && isFirebaseEnabled() ? getDb() : null
+  if (db) {
+    return createFirestoreBackend(db)
+  }
+
+  console.info('[Multiplayer] Using local backend - rooms are shared between tabs of this browser only')
+  return createLocalBackend()
+}
+
+/**
+ * Backend used by the multiplayer services
+ */
+export function getRoomBackend(): RoomBackend {
+  if (!activeBackend) {
+    activeBackend = createDefaultBackend()
+  }
+  return activeBackend
+}
+
+/**
+ * Swap the backend (e.g. a local one in tests). Pass null to go back to the default.
+ */
+export function setRoomBackend(backend: RoomBackend | null): void {
+  activeBackend = backend
+}
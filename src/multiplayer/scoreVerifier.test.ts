@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { SIMULATION_HZ } from '@/game/FruitSimulation'
+import { BOMB_PENALTY } from '@/game/scoring'
+import { buildSpawnSchedule, MATCH_DURATION_SECONDS, verifyPlayerSlices, verifyRoom } from './scoreVerifier'
+import type { RoomData, RoomPlayer, SliceEventMP } from './types'
+
+// Spawns a watermelon and a bomb early on, so splits and bombs can be checked
+const SEED = 99
+const schedule = buildSpawnSchedule(SEED, MATCH_DURATION_SECONDS * SIMULATION_HZ)
+const fruits = [...schedule.values()]
+const apple = fruits.find((fruit) => fruit.type === 'apple')!
+const watermelon = fruits.find((fruit) => fruit.type === 'watermelon')!
+const bomb = fruits.find((fruit) => fruit.isBomb)!
+const lateFruit = fruits.find((fruit) => !fruit.isBomb && fruit.spawnTick > SIMULATION_HZ * 10)!
+
+const slice = (fruitId: string, tick: number, scoreDelta?: number): SliceEventMP => ({
+  id: `${fruitId}@${tick}`,
+  fruitId,
+  playerId: 'p1',
+  timestamp: 0,
+  tick,
+  scoreDelta,
+  position: { x: 0.5, y: 0.5 },
+})
+
+const verify = (slices: SliceEventMP[]) => verifyPlayerSlices('p1', slices, schedule, 0)
+
+describe('verifyPlayerSlices', () => {
+  it('scores a slice on a fruit the seed spawned', () => {
+    const result = verify([slice(apple.id, apple.spawnTick + 10)])
+
+    expect(result.score).toBe(10)
+    expect(result.rejectedCount).toBe(0)
+  })
+
+  it('rejects fruit the seed never spawned', () => {
+    const result = verify([slice('f_1_1', 100)])
+
+    expect(result.score).toBe(0)
+    expect(result.verdicts[0].reason).toBe('unknown-fruit')
+  })
+
+  it('rejects a slice well before the fruit spawned', () => {
+    const result = verify([slice(lateFruit.id, lateFruit.spawnTick - SIMULATION_HZ * 5)])
+
+    expect(result.verdicts[0].reason).toBe('not-spawned-yet')
+  })
+
+  it('counts each fruit once', () => {
+    const result = verify([slice(apple.id, apple.spawnTick + 10), slice(apple.id, apple.spawnTick + 20)])
+
+    expect(result.score).toBe(10)
+    expect(result.verdicts[1].reason).toBe('already-sliced')
+  })
+
+  it('accepts split pieces only after their parent was cut', () => {
+    const piece = `${watermelon.id}:0`
+
+    expect(verify([slice(piece, watermelon.spawnTick + 20)]).verdicts[0].reason).toBe('unknown-fruit')
+
+    const result = verify([slice(watermelon.id, watermelon.spawnTick + 10), slice(piece, watermelon.spawnTick + 20)])
+    expect(result.rejectedCount).toBe(0)
+    expect(result.score).toBe(15)
+  })
+
+  it('takes the bomb penalty and rejects bombs claimed as points', () => {
+    const penalised = verify([slice(apple.id, apple.spawnTick + 10), slice(bomb.id, bomb.spawnTick + 10, -BOMB_PENALTY)])
+    expect(penalised.score).toBe(0)
+
+    expect(verify([slice(bomb.id, bomb.spawnTick + 10, 10)]).verdicts[0].reason).toBe('bomb-scored-positive')
+  })
+})
+
+describe('verifyRoom', () => {
+  const player = (id: string, slices: SliceEventMP[]): RoomPlayer => ({
+    id,
+    name: id,
+    elo: 1000,
+    ready: true,
+    score: 999, // Claimed scores are ignored
+    combo: 0,
+    maxCombo: 0,
+    connected: true,
+    lastActivity: 0,
+    slices: slices.map((s) => ({ ...s, playerId: id })),
+  })
+
+  it('scores every player from their own slice log', () => {
+    const room: RoomData = {
+      code: 'ABCD',
+      state: 'playing',
+      hostId: 'p1',
+      seed: SEED,
+      createdAt: 0,
+      startedAt: 0,
+      players: {
+        p1: player('p1', [slice(apple.id, apple.spawnTick + 10), slice(watermelon.id, watermelon.spawnTick + 10)]),
+        p2: player('p2', [slice(apple.id, apple.spawnTick + 12)]),
+      },
+    }
+
+    const results = verifyRoom(room)
+
+    expect(results.p1.score).toBe(20)
+    expect(results.p2.score).toBe(10)
+  })
+})
@@ -0,0 +1,193 @@
+/**
+ * Score Verifier
+ * Replays a room's seeded spawn schedule and re-scores each player's slice
+ * log, so the winner comes from slices that could actually have happened
+ * rather than whatever score a client wrote. Deterministic: whichever client
+ * runs it at endGame reaches the same result.
+ */
+
+import { FruitSimulation, SIMULATION_HZ, type FruitType } from '@/game/FruitSimulation'
+import { DEFAULT_FRUIT_CATALOG, FRUIT_CATALOGS, getChildFruitType, getFruitSpec, parseSplitPieceId } from '@/game/fruitCatalog'
+import { DOUBLE_POINTS_MULTIPLIER, POWER_UP_SECONDS } from '@/game/powerUps'
+import { BOMB_PENALTY } from '@/game/scoring'
+import { SeededRNG } from './SeededRNG'
+import type { Room, RoomData, SliceEventMP } from './types'
+
+export const MATCH_DURATION_SECONDS = 30
+// Matches always use the default catalog, same as the playfield's FruitGame
+const CATALOG = FRUIT_CATALOGS[DEFAULT_FRUIT_CATALOG]
+
+const COUNTDOWN_MS = 3000
+// Clock slack when matching a slice to a fruit's lifetime
+const TICK_TOLERANCE = SIMULATION_HZ / 2
+// Slices without a tick are placed by timestamp, which is much less precise
+const TIMESTAMP_TOLERANCE = SIMULATION_HZ * 2
+const MATCH_TICKS = MATCH_DURATION_SECONDS * SIMULATION_HZ
+const DOUBLE_POINTS_TICKS = Math.round(POWER_UP_SECONDS.double * SIMULATION_HZ)
+
+export type SliceRejection =
+  | 'unknown-fruit' // Never spawned with this seed
+  | 'not-spawned-yet'
+  | 'already-gone' // Fell off screen before the slice
+  | 'already-sliced'
+  | 'bomb-scored-positive'
+  | 'out-of-round'
+
+export interface SliceVerdict {
+  slice: SliceEventMP
+  accepted: boolean
+  reason?: SliceRejection
+  scoreDelta: number
+}
+
+export interface PlayerVerification {
+  playerId: string
+  score: number
+  verdicts: SliceVerdict[]
+  rejectedCount: number
+}
+
+interface ScheduledFruit {
+  id: string
+  type: FruitType
+  isBomb: boolean
+  spawnTick: number
+  missTick: number | null // null = still on screen when the schedule ended
+}
+
+/**
+ * Every fruit a seed spawns over the given number of ticks
+ */
+export function buildSpawnSchedule(seed: number, ticks: number): Map<string, ScheduledFruit> {
+  const simulation = new FruitSimulation({ rng: new SeededRNG(seed), catalog: CATALOG })
+  const schedule = new Map<string, ScheduledFruit>()
+
+  for (let i = 0; i < ticks; i++) {
+    const { spawned, missed } = simulation.step()
+    for (const fruit of spawned) {
+      schedule.set(fruit.id, {
+        id: fruit.id,
+        type: fruit.type,
+        isBomb: fruit.isBomb,
+        spawnTick: simulation.tick,
+        missTick: null,
+      })
+    }
+    for (const fruit of missed) {
+      const entry = schedule.get(fruit.id)
+      if (entry) entry.missTick = simulation.tick
+    }
+  }
+
+  return schedule
+}
+
+/**
+ * Tick a slice happened on, and how far off that may be
+ */
+function getSliceTiming(
+  slice: SliceEventMP,
+  playStartedAt: number
+): { tick: number; tolerance: number } {
+  if (slice.tick !== undefined) {
+    return { tick: slice.tick, tolerance: TICK_TOLERANCE }
+  }
+  const tick = Math.round(((slice.timestamp - playStartedAt) / 1000) * SIMULATION_HZ)
+  return { tick, tolerance: TIMESTAMP_TOLERANCE }
+}
+
+/**
+ * Re-score one player's slices against the spawn schedule
+ */
+export function verifyPlayerSlices(
+  playerId: string,
+  slices: SliceEventMP[],
+  schedule: Map<string, ScheduledFruit>,
+  playStartedAt: number
+): PlayerVerification {
+  const timed = slices
+    .map((slice) => ({ slice, ...getSliceTiming(slice, playStartedAt) }))
+    .sort((a, b) => a.tick - b.tick || a.slice.timestamp - b.slice.timestamp)
+
+  const slicedAt = new Map<string, number>()
+  const verdicts: SliceVerdict[] = []
+  let score = 0
+  let doublePointsFrom: number | null = null
+
+  const reject = (slice: SliceEventMP, reason: SliceRejection) => {
+    verdicts.push({ slice, accepted: false, reason, scoreDelta: 0 })
+  }
+
+  // Split pieces and frenzy fruit never spawn on their own: they exist once
+  // this player has cut the fruit they came from
+  const findFruit = (fruitId: string): ScheduledFruit | undefined => {
+    const scheduled = schedule.get(fruitId)
+    const piece = scheduled ? null : parseSplitPieceId(fruitId)
+    if (!piece) return scheduled
+    const parent = schedule.get(piece.parentId)
+    const parentTick = slicedAt.get(piece.parentId)
+    const type = parent ? getChildFruitType(CATALOG, parent.type, piece.index) : null
+    if (!type || parentTick === undefined) return undefined
+    return { id: fruitId, type, isBomb: false, spawnTick: parentTick, missTick: null }
+  }
+
+  for (const { slice, tick, tolerance } of timed) {
+    const fruit = findFruit(slice.fruitId)
+
+    if (tick < -tolerance || tick > MATCH_TICKS + tolerance) {
+      reject(slice, 'out-of-round')
+    } else if (!fruit) {
+      reject(slice, 'unknown-fruit')
+    } else if (tick < fruit.spawnTick - tolerance) {
+      reject(slice, 'not-spawned-yet')
+    } else if (fruit.missTick !== null && tick > fruit.missTick + tolerance) {
+      reject(slice, 'already-gone')
+    } else if (slicedAt.has(fruit.id)) {
+      reject(slice, 'already-sliced')
+    } else if (fruit.isBomb && (slice.scoreDelta ?? 0) > 0) {
+      reject(slice, 'bomb-scored-positive')
+    } else {
+      slicedAt.set(fruit.id, tick)
+      const spec = getFruitSpec(CATALOG, fruit.type)
+      const doubled = doublePointsFrom !== null && tick - doublePointsFrom < DOUBLE_POINTS_TICKS
+      const scoreDelta = fruit.isBomb ? -BOMB_PENALTY : spec.points * (doubled ? DOUBLE_POINTS_MULTIPLIER : 1)
+      if (!fruit.isBomb && spec.powerUp === 'double') doublePointsFrom = tick
+      // Bombs can't take a score below zero (matches the playfield)
+      const nextScore = Math.max(0, score + scoreDelta)
+      verdicts.push({ slice, accepted: true, scoreDelta: nextScore - score })
+      score = nextScore
+    }
+  }
+
+  return {
+    playerId,
+    score,
+    verdicts,
+    rejectedCount: verdicts.filter((v) => !v.accepted).length,
+  }
+}
+
+/**
+ * Verify every player in a room
+ */
+export function verifyRoom(room: Room | RoomData): Record<string, PlayerVerification> {
+  const playStartedAt = (room.startedAt ?? room.createdAt) + COUNTDOWN_MS
+  const results: Record<string, PlayerVerification> = {}
+  const players = Object.values(room.players || {})
+
+  // Only replay as far as the latest slice needs
+  let lastTick = MATCH_TICKS
+  for (const player of players) {
+    for (const slice of player.slices ?? []) {
+      const { tick } = getSliceTiming(slice, playStartedAt)
+      lastTick = Math.max(lastTick, Math.min(tick, MATCH_TICKS + TIMESTAMP_TOLERANCE))
+    }
+  }
+  const schedule = buildSpawnSchedule(room.seed, lastTick + TIMESTAMP_TOLERANCE)
+
+  for (const player of players) {
+    results[player.id] = verifyPlayerSlices(player.id, player.slices ?? [], schedule, playStartedAt)
+  }
+
+  return results
+}
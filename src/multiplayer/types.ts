@@ -8,7 +8,8 @@ export type RoomState = 'waiting' | 'countdown' | 'playing' | 'finished'
 export interface RoomPlayer {
   id: string
   name: string
-  elo: number
+  elo: number // Rating at the start of the match
+  gamesPlayed?: number // Ranked games played before this match (drives K-factor)
   ready: boolean
   score: number
   combo: number
@@ -16,6 +17,8 @@ export interface RoomPlayer {
   connected: boolean
   lastActivity: number
   lastSlice?: SliceEventMP
+  finished?: boolean // Round over and every slice reported; endGame waits for both players
+  slices?: SliceEventMP[] // Full slice log for the current match (verified at endGame)
 }
 
 export interface SliceEventMP {
@@ -23,9 +26,20 @@ export interface SliceEventMP {
   fruitId: string
   playerId: string
   timestamp: number
+  tick?: number // Simulation tick the slice landed on (same clock on both clients)
+  scoreDelta?: number // Points the client claims for this slice
   position: { x: number; y: number }
 }
 
+export type MatchOutcome = 'win' | 'loss' | 'draw'
+
+export interface RatingChange {
+  before: number
+  after: number
+  delta: number
+  outcome: MatchOutcome
+}
+
 export interface Room {
   id: string
   code: string // 4-char join code (e.g., "ABCD")
@@ -36,6 +50,8 @@ export interface Room {
   startedAt?: number
   endedAt?: number
   winnerId?: string
+  verifiedScores?: Record<string, number> // Set when finished
+  ratingChanges?: Record<string, RatingChange> // Set when finished
   players: Record<string, RoomPlayer>
 }
 
@@ -47,6 +63,8 @@ export interface PlayerProfile {
   losses: number
   gamesPlayed: number
   lastPlayed: number
+  lastMatchId?: string
+  lastMatchChange?: RatingChange
 }
 
 // Room data as stored in Firebase RTDB
@@ -59,6 +77,8 @@ export interface RoomData {
   startedAt?: number
   endedAt?: number
   winnerId?: string
+  verifiedScores?: Record<string, number> // Set when finished
+  ratingChanges?: Record<string, RatingChange> // Set when finished
   players: Record<string, RoomPlayer>
 }
 
@@ -68,5 +88,9 @@ export interface QueueEntry {
   playerName: string
   elo: number
   joinedAt: number
+  gamesPlayed?: number
+  lastSeen?: number // Heartbeat while searching; stale entries are ignored
+  matchedRoomId?: string | null // Set by whoever paired this entry
+  matchedRoomCode?: string | null
 }
 
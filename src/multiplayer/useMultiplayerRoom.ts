@@ -17,6 +17,7 @@ import {
   endGame,
   resetRoomForRematch,
   subscribeToRoom,
+  saveMatchRating,
   getPlayerId,
   cleanupStaleRooms,
 } from './multiplayerService'
@@ -56,6 +57,10 @@ export function useMultiplayerRoom() {
 
       // Check if we're the host
       store.setIsHost(room.hostId === playerId)
+
+      if (room.state === 'finished') {
+        saveMatchRating(room)
+      }
     })
 
     return () => {
@@ -140,9 +145,13 @@ export function useMultiplayerRoom() {
   )
 
   const handleReportSlice = useCallback(
-    async (fruitId: string, position: { x: number; y: number }) => {
+    async (
+      fruitId: string,
+      position: { x: number; y: number },
+      details?: { tick?: number; scoreDelta?: number }
+    ) => {
       if (store.roomId) {
-        await reportSlice(store.roomId, fruitId, position)
+        await reportSlice(store.roomId, fruitId, position, details)
       }
     },
     [store.roomId]
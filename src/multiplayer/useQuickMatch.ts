@@ -0,0 +1,152 @@
+/**
+ * useQuickMatch Hook
+ * Searches the matchmaking queue and drops the player into the matched room
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useMultiplayerStore } from '@/state/multiplayerStore'
+import {
+  enqueueForMatch,
+  dequeueFromMatch,
+  tryMatchFromQueue,
+  subscribeToQueueEntry,
+  getEloWindow,
+  getPlayerId,
+} from './multiplayerService'
+import type { QueueEntry } from './types'
+
+export type QuickMatchStatus = 'idle' | 'searching' | 'matched' | 'error'
+
+// How a search request ended up: queued, called off by the player while joining the queue, or failed
+export type QuickMatchStartResult = 'started' | 'cancelled' | 'error'
+
+const MATCH_POLL_INTERVAL = 2000
+
+export function useQuickMatch() {
+  const store = useMultiplayerStore()
+  const [status, setStatus] = useState<QuickMatchStatus>('idle')
+  const [entry, setEntry] = useState<QueueEntry | null>(null)
+  const [elapsedMs, setElapsedMs] = useState(0)
+
+  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const clockRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const unsubscribeRef = useRef<(() => void) | null>(null)
+  const isMatchingRef = useRef(false)
+  const statusRef = useRef<QuickMatchStatus>('idle')
+
+  const updateStatus = useCallback((next: QuickMatchStatus) => {
+    statusRef.current = next
+    setStatus(next)
+  }, [])
+
+  const isSearching = () => statusRef.current === 'searching'
+
+  const stopSearching = useCallback(() => {
+    if (pollRef.current) {
+      clearInterval(pollRef.current)
+      pollRef.current = null
+    }
+    if (clockRef.current) {
+      clearInterval(clockRef.current)
+      clockRef.current = null
+    }
+    if (unsubscribeRef.current) {
+      unsubscribeRef.current()
+      unsubscribeRef.current = null
+    }
+  }, [])
+
+  const enterRoom = useCallback(
+    (roomId: string, roomCode: string, isHost: boolean) => {
+      if (statusRef.current === 'matched') return
+      stopSearching()
+      updateStatus('matched')
+
+      store.setRoomId(roomId)
+      store.setRoomCode(roomCode)
+      store.setIsHost(isHost)
+      store.setLocalPlayerId(getPlayerId())
+
+      dequeueFromMatch()
+    },
+    [store, stopSearching, updateStatus]
+  )
+
+  const startSearch = useCallback(
+    async (playerName: string): Promise<QuickMatchStartResult> => {
+      if (isSearching()) return 'started'
+
+      updateStatus('searching')
+      setElapsedMs(0)
+
+      const queued = await enqueueForMatch(playerName)
+      if (!queued) {
+        updateStatus('error')
+        return 'error'
+      }
+      if (!isSearching()) {
+        // Cancelled while joining the queue
+        dequeueFromMatch()
+        return 'cancelled'
+      }
+
+      setEntry(queued)
+
+      // Another player may pair us from their side
+      unsubscribeRef.current = subscribeToQueueEntry((match) => {
+        if (match) {
+          enterRoom(match.roomId, match.roomCode, false)
+        }
+      })
+
+      clockRef.current = setInterval(() => {
+        setElapsedMs(Date.now() - queued.joinedAt)
+      }, 1000)
+
+      const attemptMatch = async () => {
+        if (isMatchingRef.current || !isSearching()) return
+        isMatchingRef.current = true
+        const room = await tryMatchFromQueue(queued)
+        isMatchingRef.current = false
+        if (room) {
+          enterRoom(room.id, room.code, true)
+        }
+      }
+
+      attemptMatch()
+      pollRef.current = setInterval(attemptMatch, MATCH_POLL_INTERVAL)
+      return 'started'
+    },
+    [enterRoom, updateStatus]
+  )
+
+  const cancelSearch = useCallback(async () => {
+    const wasSearching = isSearching()
+    stopSearching()
+    updateStatus('idle')
+    setEntry(null)
+    setElapsedMs(0)
+    if (wasSearching) {
+      await dequeueFromMatch()
+    }
+  }, [stopSearching, updateStatus])
+
+  // Leave the queue if the component unmounts mid-search
+  useEffect(() => {
+    return () => {
+      stopSearching()
+      if (isSearching()) {
+        dequeueFromMatch()
+      }
+    }
+  }, [stopSearching])
+
+  return {
+    status,
+    elo: entry?.elo ?? null,
+    elapsedMs,
+    eloWindow: getEloWindow(elapsedMs),
+    startSearch,
+    cancelSearch,
+  }
+}
@@ -3,15 +3,7 @@
  * Handles peer-to-peer video connection between players
  */
 
-import {
-  doc,
-  collection,
-  setDoc,
-  onSnapshot,
-  deleteDoc,
-  type Unsubscribe,
-} from 'firebase/firestore'
-import { getDb, isFirebaseEnabled } from '@/services/firebase'
+import { getRoomBackend, type SignalingRole, type Unsubscribe } from './roomBackend'
 
 // ICE servers cache (with expiry to handle quota changes)
 let cachedIceServers: RTCConfiguration | null = null
@@ -161,21 +153,12 @@ export interface WebRTCConnection {
  */
 export async function createPeerConnection(
   roomId: string,
-  playerId: string,
+  role: SignalingRole,
   isHost: boolean,
   localStream: MediaStream,
   onRemoteStream: (stream: MediaStream) => void
 ): Promise<WebRTCConnection | null> {
-  if (!isFirebaseEnabled()) {
-    console.warn('[WebRTC] Firebase not enabled')
-    return null
-  }
-
-  const db = getDb()
-  if (!db) {
-    console.error('[WebRTC] No database instance')
-    return null
-  }
+  const backend = getRoomBackend()
 
   // Fetch ICE servers (includes TURN if configured)
   const iceConfig = await fetchIceServers()
@@ -201,32 +184,16 @@ export async function createPeerConnection(
     onRemoteStream(remoteStream)
   }
 
-  // Signaling paths in Firestore
-  const signalingDoc = doc(db, 'rooms', roomId, 'signaling', playerId)
-  const remoteSigDoc = doc(db, 'rooms', roomId, 'signaling', isHost ? 'guest' : 'host')
-  const iceCandidatesCol = collection(db, 'rooms', roomId, 'signaling', playerId, 'iceCandidates')
-  const remoteIceCol = collection(db, 'rooms', roomId, 'signaling', isHost ? 'guest' : 'host', 'iceCandidates')
+  // Signaling slots for each side of the connection
+  const remoteRole: SignalingRole = isHost ? 'guest' : 'host'
 
-  // Clean up stale signaling data before starting
-  try {
-    await deleteDoc(signalingDoc)
-    console.log('[WebRTC] Cleaned up old signaling data for', playerId)
-  } catch {
-    // Ignore - doc might not exist
-  }
-  
-  // Also try to clean up old ICE candidates for this player
+  // Clean up stale signaling data (and old ICE candidates) before starting
   // This helps when reconnecting after a failed attempt
   try {
-    const { getDocs, deleteDoc: delDoc } = await import('firebase/firestore')
-    const oldCandidates = await getDocs(iceCandidatesCol)
-    const deletePromises = oldCandidates.docs.map(d => delDoc(d.ref))
-    if (deletePromises.length > 0) {
-      await Promise.all(deletePromises)
-      console.log('[WebRTC] Cleaned up', deletePromises.length, 'old ICE candidates for', playerId)
-    }
+    await backend.clearSignaling(roomId, role)
+    console.log('[WebRTC] Cleaned up old signaling data for', role)
   } catch {
-    // Ignore - collection might not exist
+    // Ignore - data might not exist
   }
 
   // Track ICE restart state
@@ -257,7 +224,7 @@ export async function createPeerConnection(
         const offer = await pc.createOffer({ iceRestart: true })
         await pc.setLocalDescription(offer)
         
-        await setDoc(signalingDoc, {
+        await backend.sendSignal(roomId, role, {
           type: 'offer',
           sdp: offer.sdp,
           timestamp: Date.now(),
@@ -361,7 +328,7 @@ export async function createPeerConnection(
   }
 
   // Handle ICE candidates
-  console.log('[WebRTC] Will store ICE candidates at:', `rooms/${roomId}/signaling/${playerId}/iceCandidates`)
+  console.log('[WebRTC] Will store ICE candidates at:', `rooms/${roomId}/signaling/${role}/iceCandidates`)
   pc.onicecandidate = async (event) => {
     if (event.candidate) {
       const c = event.candidate
@@ -371,8 +338,10 @@ export async function createPeerConnection(
       }
       try {
         const candidateId = Date.now().toString()
-        const candidateDoc = doc(iceCandidatesCol, candidateId)
-        await setDoc(candidateDoc, event.candidate.toJSON())
+        await backend.addIceCandidate(roomId, role, {
+          id: candidateId,
+          candidate: event.candidate.toJSON(),
+        })
         console.log('[WebRTC] Stored ICE candidate:', candidateId)
       } catch (error) {
         console.error('[WebRTC] Failed to send ICE candidate:', error)
@@ -388,7 +357,7 @@ export async function createPeerConnection(
   }
 
   // Listen for remote ICE candidates
-  const remoteIcePath = `rooms/${roomId}/signaling/${isHost ? 'guest' : 'host'}/iceCandidates`
+  const remoteIcePath = `rooms/${roomId}/signaling/${remoteRole}/iceCandidates`
   console.log('[WebRTC] Setting up listener for remote ICE candidates at:', remoteIcePath)
   
   // Track which candidates we've already processed to avoid duplicates
@@ -405,11 +374,10 @@ export async function createPeerConnection(
   // Poll the collection directly as a fallback for listener issues
   const pollRemoteCandidates = async () => {
     try {
-      const { getDocs } = await import('firebase/firestore')
-      const snapshot = await getDocs(remoteIceCol)
-      console.log('[WebRTC] Polling remote ICE candidates:', snapshot.size, 'docs found,', processedCandidates.size, 'already processed')
-      snapshot.docs.forEach(doc => {
-        processCandidateDoc(doc.id, doc.data() as RTCIceCandidateInit)
+      const remoteCandidates = await backend.getIceCandidates(roomId, remoteRole)
+      console.log('[WebRTC] Polling remote ICE candidates:', remoteCandidates.length, 'docs found,', processedCandidates.size, 'already processed')
+      remoteCandidates.forEach((record) => {
+        processCandidateDoc(record.id, record.candidate)
       })
     } catch (e) {
       console.error('[WebRTC] Failed to poll remote candidates:', e)
@@ -421,16 +389,8 @@ export async function createPeerConnection(
   setTimeout(() => clearInterval(pollInterval), 15000) // Stop polling after 15s
   
   // Also set up real-time listener
-  const unsubIce = onSnapshot(remoteIceCol, (snapshot) => {
-    console.log('[WebRTC] Remote ICE snapshot received, docs:', snapshot.size, 'changes:', snapshot.docChanges().length)
-    snapshot.docChanges().forEach((change) => {
-      if (change.type === 'added') {
-        const candidateData = change.doc.data() as RTCIceCandidateInit
-        processCandidateDoc(change.doc.id, candidateData)
-      }
-    })
-  }, (error) => {
-    console.error('[WebRTC] Error listening for remote ICE candidates:', error)
+  const unsubIce = backend.subscribeToIceCandidates(roomId, remoteRole, (record) => {
+    processCandidateDoc(record.id, record.candidate)
   })
   
   unsubscribes.push(unsubIce)
@@ -443,7 +403,7 @@ export async function createPeerConnection(
       const offer = await pc.createOffer()
       await pc.setLocalDescription(offer)
       
-      await setDoc(signalingDoc, {
+      await backend.sendSignal(roomId, role, {
         type: 'offer',
         sdp: offer.sdp,
         timestamp: Date.now(),
@@ -451,8 +411,7 @@ export async function createPeerConnection(
       console.log('[WebRTC] Host sent offer')
 
       // Wait for answer
-      const unsubAnswer = onSnapshot(remoteSigDoc, async (snapshot) => {
-        const data = snapshot.data()
+      const unsubAnswer = backend.subscribeToSignal(roomId, remoteRole, async (data) => {
         console.log('[WebRTC] Host received data:', data?.type, 'signalingState:', pc.signalingState)
         if (data?.type === 'answer' && pc.signalingState === 'have-local-offer') {
           try {
@@ -478,8 +437,7 @@ export async function createPeerConnection(
       console.log('[WebRTC] Guest waiting for offer...')
       let lastOfferTimestamp = 0
       
-      const unsubOffer = onSnapshot(remoteSigDoc, async (snapshot) => {
-        const data = snapshot.data()
+      const unsubOffer = backend.subscribeToSignal(roomId, remoteRole, async (data) => {
         console.log('[WebRTC] Guest received data:', data?.type, 'signalingState:', pc.signalingState, 'iceRestart:', data?.iceRestart)
         
         // Accept offer if:
@@ -503,7 +461,7 @@ export async function createPeerConnection(
             const answer = await pc.createAnswer()
             await pc.setLocalDescription(answer)
             
-            await setDoc(signalingDoc, {
+            await backend.sendSignal(roomId, role, {
               type: 'answer',
               sdp: answer.sdp,
               timestamp: Date.now(),
@@ -537,7 +495,7 @@ export async function createPeerConnection(
 export async function closePeerConnection(
   connection: WebRTCConnection | null,
   roomId: string,
-  playerId: string
+  role: SignalingRole
 ): Promise<void> {
   if (!connection) return
 
@@ -548,15 +506,10 @@ export async function closePeerConnection(
   connection.peerConnection.close()
 
   // Cleanup signaling data
-  if (isFirebaseEnabled()) {
-    const db = getDb()
-    if (db) {
-      try {
-        await deleteDoc(doc(db, 'rooms', roomId, 'signaling', playerId))
-      } catch (error) {
-        console.error('[WebRTC] Failed to cleanup signaling:', error)
-      }
-    }
+  try {
+    await getRoomBackend().clearSignaling(roomId, role)
+  } catch (error) {
+    console.error('[WebRTC] Failed to cleanup signaling:', error)
   }
 }
 
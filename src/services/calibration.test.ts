@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import type { HandFrame, HandLandmark } from '@/types'
+import { DEFAULT_HITBOX_RADIUS } from '@/game/FruitSimulation'
+import { CalibrationSession, MIN_CALIBRATION_SWIPES } from './calibration'
+import { INDEX_FINGER_TIP } from './gestureController'
+
+const FRAME_MS = 20 // 50 fps
+const SWIPE_FRAMES = 5
+
+// A frame with one hand whose index fingertip is at (x, y)
+const frame = (x: number, y: number, timestamp: number): HandFrame => {
+  const landmarks: HandLandmark[] = Array.from({ length: 21 }, () => ({ x: 0.5, y: 0.5, z: 0 }))
+  landmarks[INDEX_FINGER_TIP] = { x, y, z: 0 }
+  return { hands: [{ landmarks, handedness: 'Right', score: 1 }], timestamp, fps: 0 }
+}
+
+const emptyFrame = (timestamp: number): HandFrame => ({ hands: [], timestamp, fps: 0 })
+
+/**
+ * Sweeps the fingertip diagonally across `extent`. The reach box keeps the
+ * middle 90% of samples, so its span comes out at extent * 90 / 99.
+ */
+const sweepReach = (session: CalibrationSession, extent: number) => {
+  const start = 0.5 - extent / 2
+  for (let i = 0; i < 100; i++) {
+    const offset = (extent * i) / 99
+    session.addReachFrame(frame(start + offset, start + offset, i * FRAME_MS))
+  }
+}
+
+/**
+ * One swipe at a steady speed (units/s), from rest back to rest, starting at
+ * `timestamp` after a tracking gap. Returns when the next swipe can start.
+ */
+const swipe = (session: CalibrationSession, timestamp: number, speed: number, frames = SWIPE_FRAMES) => {
+  const step = speed * (FRAME_MS / 1000)
+  let x = 0.2
+  let t = timestamp
+  session.addSwipeFrame(frame(x, 0.5, t))
+  for (let i = 0; i < frames; i++) {
+    x += step
+    t += FRAME_MS
+    session.addSwipeFrame(frame(x, 0.5, t))
+  }
+  t += FRAME_MS
+  session.addSwipeFrame(frame(x, 0.5, t))
+  return t + 1000
+}
+
+const calibrate = (speeds: number[], reachExtent = 0.66, frames = SWIPE_FRAMES) => {
+  const session = new CalibrationSession()
+  sweepReach(session, reachExtent)
+  let t = 10_000
+  for (const speed of speeds) t = swipe(session, t, speed, frames)
+  return session
+}
+
+describe('CalibrationSession', () => {
+  describe('swipe segmentation', () => {
+    it('counts each fast movement as one swipe', () => {
+      expect(calibrate([2, 2, 2]).swipeCount).toBe(3)
+    })
+
+    it('ignores movement slower than a swipe', () => {
+      expect(calibrate([0.5, 0.5]).swipeCount).toBe(0)
+    })
+
+    it("doesn't read a tracking dropout as motion", () => {
+      const session = new CalibrationSession()
+      session.addSwipeFrame(frame(0.1, 0.5, 0))
+      // Far away, but 300ms later
+      session.addSwipeFrame(frame(0.9, 0.5, 300))
+      session.addSwipeFrame(frame(0.9, 0.5, 300 + FRAME_MS))
+
+      expect(session.swipeCount).toBe(0)
+    })
+
+    it('drops a swipe when the hand is lost partway through', () => {
+      const session = new CalibrationSession()
+      session.addSwipeFrame(frame(0.2, 0.5, 0))
+      session.addSwipeFrame(frame(0.26, 0.5, FRAME_MS))
+      session.addSwipeFrame(emptyFrame(FRAME_MS * 2))
+      session.addSwipeFrame(frame(0.32, 0.5, FRAME_MS * 3))
+      session.addSwipeFrame(frame(0.32, 0.5, FRAME_MS * 4))
+
+      expect(session.swipeCount).toBe(0)
+    })
+  })
+
+  describe('finish', () => {
+    it('needs a reach sweep and enough swipes', () => {
+      expect(calibrate(Array(MIN_CALIBRATION_SWIPES - 1).fill(2)).finish()).toBeNull()
+
+      const noReach = new CalibrationSession()
+      let t = 0
+      for (let i = 0; i < MIN_CALIBRATION_SWIPES; i++) t = swipe(noReach, t, 2)
+      expect(noReach.finish()).toBeNull()
+    })
+
+    it('sets the slice thresholds from the median swipe and frame rate', () => {
+      const profile = calibrate([1.5, 2, 2.5]).finish()!
+
+      expect(profile.swipeSpeed).toBe(2)
+      expect(profile.fps).toBe(1000 / FRAME_MS)
+      expect(profile.gesture).toEqual({
+        sliceSpeedThreshold: 1.1, // 55% of the median swipe
+        minDistance: 0.007, // A third of a frame's travel at the threshold
+        cooldownMs: 120, // Floor: these swipes last 120ms
+      })
+    })
+
+    it('keeps the thresholds within their limits', () => {
+      const fast = calibrate([10, 10, 10], 0.66, 3).finish()!
+
+      expect(fast.gesture.sliceSpeedThreshold).toBe(3)
+      expect(fast.gesture.minDistance).toBe(0.018)
+
+      const steady = calibrate([2, 2, 2], 0.66, 12).finish()!
+      expect(steady.gesture.cooldownMs).toBe(208) // 80% of a 260ms swipe
+
+      const long = calibrate([2, 2, 2], 0.66, 30).finish()!
+      expect(long.gesture.cooldownMs).toBe(400)
+    })
+
+    it('keeps the default hitbox for the reach it was tuned for', () => {
+      const profile = calibrate([2, 2, 2], 0.66).finish()!
+
+      expect(profile.reach.maxX - profile.reach.minX).toBeCloseTo(0.6)
+      expect(profile.hitboxRadius).toBe(DEFAULT_HITBOX_RADIUS)
+    })
+
+    it('clamps the hitbox for very small and very large reaches', () => {
+      expect(calibrate([2, 2, 2], 0.11).finish()!.hitboxRadius).toBe(0.25)
+      expect(calibrate([2, 2, 2], 0.99).finish()!.hitboxRadius).toBe(0.12)
+    })
+  })
+})
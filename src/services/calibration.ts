@@ -0,0 +1,171 @@
+import type { HandFrame, HandLandmark } from '@/types'
+import { DEFAULT_HITBOX_RADIUS } from '@/game/FruitSimulation'
+import { INDEX_FINGER_TIP, type GestureControllerConfig } from './gestureController'
+
+/** Area the fingertip covered, in normalized camera coordinates */
+export interface ReachBox {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+/** Per-player tuning measured by the calibration wizard */
+export interface CalibrationProfile {
+  gesture: GestureControllerConfig
+  hitboxRadius: number
+  reach: ReachBox
+  /** Median peak fingertip speed of a swipe (normalized units/s) */
+  swipeSpeed: number
+  fps: number
+  calibratedAt: number
+}
+
+// A swipe starts when the fingertip goes faster than this and ends when it slows below the end speed
+const SWIPE_START_SPEED = 0.6
+const SWIPE_END_SPEED = 0.3
+// Frame gaps longer than this are tracking dropouts, not motion
+const MAX_FRAME_GAP_MS = 250
+// Reach span the default hitbox was tuned for
+const REFERENCE_REACH_SPAN = 0.6
+const FALLBACK_FPS = 30
+
+export const MIN_CALIBRATION_SWIPES = 3
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const roundTo = (value: number, digits: number) => {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+const percentile = (values: number[], fraction: number): number => {
+  if (!values.length) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))]
+}
+
+const median = (values: number[]) => percentile(values, 0.5)
+
+/**
+ * Collects fingertip motion during calibration and turns it into a profile.
+ * Feed reach frames first (slow sweep of the play area), then swipe frames.
+ */
+export class CalibrationSession {
+  private reachPoints: HandLandmark[] = []
+  private frameRates: number[] = []
+  private swipePeaks: number[] = []
+  private swipeDurations: number[] = []
+  private lastTip: HandLandmark | null = null
+  private lastTimestamp: number | null = null
+  private swipeStart: number | null = null
+  private swipePeak = 0
+
+  get reachSampleCount(): number {
+    return this.reachPoints.length
+  }
+
+  get swipeCount(): number {
+    return this.swipePeaks.length
+  }
+
+  addReachFrame(frame: HandFrame) {
+    const tip = this.track(frame)
+    if (tip) this.reachPoints.push(tip)
+  }
+
+  addSwipeFrame(frame: HandFrame) {
+    const lastTip = this.lastTip
+    const lastTimestamp = this.lastTimestamp
+    const tip = this.track(frame)
+    if (!tip || !lastTip || lastTimestamp === null) return
+
+    const dtMs = frame.timestamp - lastTimestamp
+    if (dtMs <= 0 || dtMs > MAX_FRAME_GAP_MS) return
+    const speed = Math.hypot(tip.x - lastTip.x, tip.y - lastTip.y) / (dtMs / 1000)
+
+    if (this.swipeStart === null) {
+      if (speed >= SWIPE_START_SPEED) {
+        this.swipeStart = frame.timestamp - dtMs
+        this.swipePeak = speed
+      }
+      return
+    }
+
+    this.swipePeak = Math.max(this.swipePeak, speed)
+    if (speed < SWIPE_END_SPEED) {
+      this.swipePeaks.push(this.swipePeak)
+      this.swipeDurations.push(frame.timestamp - this.swipeStart)
+      this.swipeStart = null
+    }
+  }
+
+  /** Reach box so far, trimmed of the outermost 5% of samples on each side */
+  getReach(): ReachBox | null {
+    if (this.reachPoints.length < 10) return null
+    const xs = this.reachPoints.map((point) => point.x)
+    const ys = this.reachPoints.map((point) => point.y)
+    return {
+      minX: percentile(xs, 0.05),
+      minY: percentile(ys, 0.05),
+      maxX: percentile(xs, 0.95),
+      maxY: percentile(ys, 0.95),
+    }
+  }
+
+  /**
+   * Build the profile, or null if there wasn't enough reach or swipe data
+   */
+  finish(): CalibrationProfile | null {
+    const reach = this.getReach()
+    if (!reach || this.swipePeaks.length < MIN_CALIBRATION_SWIPES) return null
+
+    const fps = this.frameRates.length ? median(this.frameRates) : FALLBACK_FPS
+    const swipeSpeed = median(this.swipePeaks)
+
+    // Trigger a little above half of a typical swipe so every real swipe clears it
+    const sliceSpeedThreshold = clamp(swipeSpeed * 0.55, 0.6, 3)
+    // At the threshold speed a fingertip moves threshold/fps per frame; require about a third of that
+    const minDistance = clamp((sliceSpeedThreshold / fps) * 0.3, 0.005, 0.03)
+    // Long enough that one swipe only slices once
+    const cooldownMs = clamp(median(this.swipeDurations) * 0.8, 120, 400)
+
+    // Smaller reach means fruit near the edges are harder to get to, so be more forgiving
+    const span = Math.max(reach.maxX - reach.minX, reach.maxY - reach.minY, 0.05)
+    const hitboxRadius = clamp(DEFAULT_HITBOX_RADIUS * (REFERENCE_REACH_SPAN / span), 0.12, 0.25)
+
+    return {
+      gesture: {
+        sliceSpeedThreshold: roundTo(sliceSpeedThreshold, 2),
+        minDistance: roundTo(minDistance, 3),
+        cooldownMs: Math.round(cooldownMs),
+      },
+      hitboxRadius: roundTo(hitboxRadius, 3),
+      reach,
+      swipeSpeed: roundTo(swipeSpeed, 2),
+      fps: Math.round(fps),
+      calibratedAt: Date.now(),
+    }
+  }
+
+  // Follow the first hand's index fingertip and measure the frame rate
+  private track(frame: HandFrame): HandLandmark | null {
+    const tip = frame.hands[0]?.landmarks[INDEX_FINGER_TIP]
+    if (!tip) {
+      this.lastTip = null
+      this.lastTimestamp = null
+      this.swipeStart = null
+      return null
+    }
+
+    if (this.lastTimestamp !== null) {
+      const dtMs = frame.timestamp - this.lastTimestamp
+      if (dtMs > 0 && dtMs <= MAX_FRAME_GAP_MS) {
+        this.frameRates.push(1000 / dtMs)
+      }
+    }
+    this.lastTip = tip
+    this.lastTimestamp = frame.timestamp
+    return tip
+  }
+}
@@ -1,6 +1,7 @@
 import type { GestureEvent, GestureType, HandFrame, HandLandmark, Handedness } from '@/types'
+import { HandPoseRecognizer } from './handPoseRecognizer'
 
-const INDEX_FINGER_TIP = 8
+export const INDEX_FINGER_TIP = 8
 
 export interface GestureControllerConfig {
   sliceSpeedThreshold: number
@@ -8,7 +9,7 @@ export interface GestureControllerConfig {
   cooldownMs: number
 }
 
-const defaultConfig: GestureControllerConfig = {
+export const defaultGestureConfig: GestureControllerConfig = {
   sliceSpeedThreshold: 1.35,
   minDistance: 0.012,
   cooldownMs: 250,
@@ -24,13 +25,22 @@ export class GestureController {
   private config: GestureControllerConfig
   private handStates = new Map<Handedness, MotionState>()
   private idCounter = 0
+  private poses = new HandPoseRecognizer()
 
   constructor(config: Partial<GestureControllerConfig> = {}) {
-    this.config = { ...defaultConfig, ...config }
+    this.config = { ...defaultGestureConfig, ...config }
+  }
+
+  /**
+   * Swap in new thresholds (e.g. a calibration profile); unset fields use the defaults
+   */
+  setConfig(config: Partial<GestureControllerConfig>) {
+    this.config = { ...defaultGestureConfig, ...config }
   }
 
   reset() {
     this.handStates.clear()
+    this.poses.reset()
   }
 
   processFrame(frame: HandFrame | null): GestureEvent[] {
@@ -41,6 +51,19 @@ export class GestureController {
 
     const events: GestureEvent[] = []
     frame.hands.forEach((hand) => {
+      const pose = this.poses.processHand(hand, frame.timestamp)
+      if (pose) {
+        events.push(
+          this.buildEvent(pose.type, pose.hand, {
+            speed: 0,
+            strength: pose.strength,
+            direction: { x: 0, y: 0 },
+            timestamp: pose.timestamp,
+            origin: pose.origin,
+          }),
+        )
+      }
+
       const tip = hand.landmarks[INDEX_FINGER_TIP]
       if (!tip) return
 
@@ -86,6 +109,7 @@ export class GestureController {
             direction,
             timestamp,
             origin: { x: tip.x, y: tip.y, z: tip.z },
+            previous: { x: state.lastPoint.x, y: state.lastPoint.y, z: state.lastPoint.z },
           }),
         )
         state.lastGestureAt = timestamp
@@ -0,0 +1,52 @@
+import type { HandLandmark } from '@/types'
+
+/**
+ * Hand cursor
+ * Maps a fingertip onto the page so menus can be driven from across the room.
+ * The cursor is the one way to pick a control; resting on it or pinching presses it.
+ */
+
+/** How long the cursor has to rest on a control to press it, in ms */
+export const DWELL_CLICK_MS = 1000
+
+/** Set on the control under the cursor */
+export const HAND_HOVER_ATTR = 'data-hand-hover'
+
+/** Marks a control (e.g. quitting a round) that only a pinch presses, never a resting cursor */
+export const NO_DWELL_ATTR = 'data-no-dwell'
+
+// This much of the camera frame on each side is left out, so the screen
+// edges are reachable without stretching the hand out of view
+const CURSOR_MARGIN = 0.15
+
+// Everything a player could otherwise click or tab to
+const FOCUSABLE_SELECTOR = [
+  'button:not(:disabled)',
+  'a[href]',
+  'input:not(:disabled)',
+  'select:not(:disabled)',
+  'textarea:not(:disabled)',
+  '[role="button"]',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ')
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+/**
+ * Viewport position (px) for a landmark; the camera image is mirrored on
+ * screen, so moving the hand right moves the cursor right
+ */
+export function handToViewport(point: HandLandmark, width = window.innerWidth, height = window.innerHeight) {
+  const span = 1 - CURSOR_MARGIN * 2
+  return {
+    x: clamp01((1 - point.x - CURSOR_MARGIN) / span) * width,
+    y: clamp01((point.y - CURSOR_MARGIN) / span) * height,
+  }
+}
+
+/**
+ * Focusable control under a viewport point, if any
+ */
+export function getCursorTarget(x: number, y: number): HTMLElement | null {
+  return document.elementFromPoint(x, y)?.closest<HTMLElement>(FOCUSABLE_SELECTOR) ?? null
+}
@@ -0,0 +1,221 @@
+import { describe, expect, it } from 'vitest'
+import type { HandLandmark, HandPrediction, Handedness } from '@/types'
+import { defaultHandPoseConfig, HandPoseRecognizer } from './handPoseRecognizer'
+
+/**
+ * Fixture hands: an upright hand in the image plane, wrist at the bottom.
+ * Wrist to middle knuckle is 0.2, which sets the scale pinch gaps are measured in.
+ */
+const HAND_SIZE = 0.2
+const WRIST = { x: 0.5, y: 0.8 }
+const KNUCKLE_Y = 0.6
+const FINGER_X = [0.44, 0.48, 0.52, 0.56] // Index, middle, ring, pinky
+const THUMB_OUT = { x: 0.3, y: 0.6 }
+const THUMB_TUCKED = { x: 0.47, y: 0.62 }
+
+interface HandOptions {
+  /** Index, middle, ring, pinky */
+  extended?: [boolean, boolean, boolean, boolean]
+  thumbTip?: { x: number; y: number }
+  /** Moves the index fingertip */
+  indexTipOffset?: { x: number; y: number }
+  handedness?: Handedness
+}
+
+const point = (x: number, y: number): HandLandmark => ({ x, y, z: 0 })
+
+const makeHand = ({
+  extended = [false, false, false, false],
+  thumbTip = THUMB_TUCKED,
+  indexTipOffset = { x: 0, y: 0 },
+  handedness = 'Right',
+}: HandOptions = {}): HandPrediction => {
+  const landmarks: HandLandmark[] = [
+    point(WRIST.x, WRIST.y),
+    point(0.46, 0.75), // Thumb base
+    point(0.42, 0.7),
+    point(0.38, 0.65),
+    point(thumbTip.x, thumbTip.y),
+  ]
+  FINGER_X.forEach((x, finger) => {
+    landmarks.push(point(x, KNUCKLE_Y))
+    if (extended[finger]) {
+      landmarks.push(point(x, 0.5), point(x, 0.45), point(x, 0.4))
+    } else {
+      // Curled back down towards the palm
+      landmarks.push(point(x, 0.52), point(x, 0.56), point(x, 0.62))
+    }
+  })
+  landmarks[8] = point(landmarks[8].x + indexTipOffset.x, landmarks[8].y + indexTipOffset.y)
+  return { landmarks, handedness, score: 0.9 }
+}
+
+const INDEX_TIP = { x: FINGER_X[0], y: 0.4 }
+
+const openPalm = (options: HandOptions = {}) =>
+  makeHand({ extended: [true, true, true, true], thumbTip: THUMB_OUT, ...options })
+const fist = (options: HandOptions = {}) => makeHand(options)
+const pointing = (options: HandOptions = {}) => makeHand({ extended: [true, false, false, false], ...options })
+// Index out, thumb tip `gap` hand sizes away from it
+const pinchAt = (gap: number, options: HandOptions = {}) =>
+  pointing({ thumbTip: { x: INDEX_TIP.x + gap * HAND_SIZE, y: INDEX_TIP.y }, ...options })
+
+// Feeds frames at the given times and returns the types it reported
+const run = (recognizer: HandPoseRecognizer, frames: [number, HandPrediction][]) =>
+  frames.map(([timestamp, hand]) => recognizer.processHand(hand, timestamp)?.type ?? null)
+
+describe('HandPoseRecognizer', () => {
+  const { pinchHoldMs, poseHoldMs, dwellMs, dwellRadius } = defaultHandPoseConfig
+
+  describe('pinch', () => {
+    it('reports a pinch once it has been held', () => {
+      const recognizer = new HandPoseRecognizer()
+      const pinch = pinchAt(0.1)
+
+      expect(run(recognizer, [[0, pinch], [pinchHoldMs - 1, pinch], [pinchHoldMs, pinch], [pinchHoldMs + 100, pinch]]))
+        .toEqual([null, null, 'pinch', null])
+    })
+
+    it('reports the pinch point and how tight the pinch is', () => {
+      const recognizer = new HandPoseRecognizer()
+      recognizer.processHand(pinchAt(0.15), 0)
+
+      const detection = recognizer.processHand(pinchAt(0.15), pinchHoldMs)!
+
+      expect(detection.hand).toBe('Right')
+      expect(detection.origin.x).toBeCloseTo(INDEX_TIP.x + 0.015)
+      expect(detection.origin.y).toBeCloseTo(INDEX_TIP.y)
+      expect(detection.strength).toBeCloseTo(0.5)
+    })
+
+    it('needs the fingers to close past the start gap but open past the release gap', () => {
+      const recognizer = new HandPoseRecognizer()
+      const between = pinchAt(0.38) // Between pinchStart (0.3) and pinchRelease (0.45)
+
+      // Not tight enough to start a pinch
+      expect(run(recognizer, [[0, between], [200, between]])).toEqual([null, null])
+
+      // Once pinching, the same gap keeps the pinch going without a second report
+      expect(run(recognizer, [[300, pinchAt(0.1)], [300 + pinchHoldMs, pinchAt(0.1)], [500, between], [700, between]]))
+        .toEqual([null, 'pinch', null, null])
+
+      // Opening past the release gap lets the next pinch count
+      expect(run(recognizer, [[800, pinchAt(0.6)], [900, pinchAt(0.1)], [900 + pinchHoldMs, pinchAt(0.1)]]))
+        .toEqual([null, null, 'pinch'])
+    })
+
+    it("doesn't mistake a fist's resting thumb for a pinch", () => {
+      const recognizer = new HandPoseRecognizer()
+
+      // Thumb tip ends up close to the tucked index tip
+      expect(run(recognizer, [[0, fist()], [poseHoldMs, fist()]])).toEqual([null, 'fist'])
+    })
+  })
+
+  describe('open palm and fist', () => {
+    it('reports an open palm held for the pose time, centred on the palm', () => {
+      const recognizer = new HandPoseRecognizer()
+
+      expect(run(recognizer, [[0, openPalm()], [poseHoldMs - 1, openPalm()]])).toEqual([null, null])
+      const detection = recognizer.processHand(openPalm(), poseHoldMs)!
+
+      expect(detection.type).toBe('open-palm')
+      expect(detection.strength).toBe(0.9)
+      expect(detection.origin.x).toBeCloseTo((WRIST.x + FINGER_X.reduce((sum, x) => sum + x, 0)) / 5)
+      expect(detection.origin.y).toBeCloseTo((WRIST.y + KNUCKLE_Y * 4) / 5)
+    })
+
+    it('reports a fist once per hold', () => {
+      const recognizer = new HandPoseRecognizer()
+
+      expect(run(recognizer, [[0, fist()], [poseHoldMs, fist()], [poseHoldMs * 3, fist()]])).toEqual([null, 'fist', null])
+    })
+
+    it('starts the hold over when the shape changes', () => {
+      const recognizer = new HandPoseRecognizer()
+
+      expect(run(recognizer, [
+        [0, openPalm()],
+        [200, fist()],
+        [300, openPalm()],
+        [300 + poseHoldMs - 1, openPalm()],
+        [300 + poseHoldMs, openPalm()],
+      ])).toEqual([null, null, null, null, 'open-palm'])
+    })
+
+    it("doesn't count an open hand with the thumb tucked as an open palm", () => {
+      const recognizer = new HandPoseRecognizer()
+      const tucked = openPalm({ thumbTip: THUMB_TUCKED })
+
+      expect(run(recognizer, [[0, tucked], [poseHoldMs, tucked]])).toEqual([null, null])
+    })
+  })
+
+  describe('point-hold', () => {
+    it('reports a fingertip held still for the dwell time', () => {
+      const recognizer = new HandPoseRecognizer()
+
+      expect(run(recognizer, [[0, pointing()], [dwellMs - 1, pointing()]])).toEqual([null, null])
+      const detection = recognizer.processHand(pointing(), dwellMs)!
+
+      expect(detection.type).toBe('point-hold')
+      expect(detection.origin).toEqual(point(INDEX_TIP.x, INDEX_TIP.y))
+      expect(recognizer.processHand(pointing(), dwellMs * 2)).toBeNull()
+    })
+
+    it('allows a little drift inside the dwell radius', () => {
+      const recognizer = new HandPoseRecognizer()
+      const wobble = pointing({ indexTipOffset: { x: dwellRadius * 0.5, y: 0 } })
+
+      expect(run(recognizer, [[0, pointing()], [400, wobble], [dwellMs, pointing()]])).toEqual([null, null, 'point-hold'])
+    })
+
+    it('starts the dwell over when the fingertip drifts off the spot', () => {
+      const recognizer = new HandPoseRecognizer()
+      const moved = pointing({ indexTipOffset: { x: dwellRadius * 2, y: 0 } })
+
+      expect(run(recognizer, [
+        [0, pointing()],
+        [500, moved],
+        [dwellMs, moved],
+        [500 + dwellMs - 1, moved],
+        [500 + dwellMs, moved],
+      ])).toEqual([null, null, null, null, 'point-hold'])
+    })
+
+    it('can hold again after drifting away from a reported spot', () => {
+      const recognizer = new HandPoseRecognizer()
+      const moved = pointing({ indexTipOffset: { x: dwellRadius * 2, y: 0 } })
+
+      expect(run(recognizer, [[0, pointing()], [dwellMs, pointing()], [1000, moved], [1000 + dwellMs, moved]]))
+        .toEqual([null, 'point-hold', null, 'point-hold'])
+    })
+  })
+
+  it('tracks each hand on its own', () => {
+    const recognizer = new HandPoseRecognizer()
+
+    expect(run(recognizer, [
+      [0, fist({ handedness: 'Left' })],
+      [100, openPalm({ handedness: 'Right' })],
+      [poseHoldMs, fist({ handedness: 'Left' })],
+      [100 + poseHoldMs, openPalm({ handedness: 'Right' })],
+    ])).toEqual([null, null, 'fist', 'open-palm'])
+  })
+
+  it('ignores hands without a full set of landmarks', () => {
+    const recognizer = new HandPoseRecognizer()
+    const partial = { ...fist(), landmarks: fist().landmarks.slice(0, 20) }
+
+    expect(run(recognizer, [[0, partial], [poseHoldMs, partial]])).toEqual([null, null])
+  })
+
+  it('forgets held shapes on reset', () => {
+    const recognizer = new HandPoseRecognizer()
+    recognizer.processHand(fist(), 0)
+
+    recognizer.reset()
+
+    expect(run(recognizer, [[poseHoldMs, fist()], [poseHoldMs * 2 - 1, fist()]])).toEqual([null, null])
+  })
+})
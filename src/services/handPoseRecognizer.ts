@@ -0,0 +1,184 @@
+import type { HandLandmark, HandPrediction, Handedness, PoseGestureType } from '@/types'
+
+/**
+ * Hand pose recognizer
+ * Reads the shape of the whole hand (all 21 landmarks) rather than the
+ * fingertip's motion, and reports a pose once it has been held long enough
+ * that it can't be a passing shape in the middle of a swipe.
+ */
+
+const WRIST = 0
+const THUMB_TIP = 4
+const INDEX_MCP = 5
+const MIDDLE_MCP = 9
+const PINKY_MCP = 17
+const INDEX_PIP = 6
+const INDEX_TIP = 8
+
+// [pip, tip] for the index, middle, ring and pinky fingers
+const FINGERS: [number, number][] = [
+  [INDEX_PIP, INDEX_TIP],
+  [10, 12],
+  [14, 16],
+  [18, 20],
+]
+const PALM = [WRIST, INDEX_MCP, MIDDLE_MCP, 13, PINKY_MCP]
+
+export interface HandPoseConfig {
+  /** Thumb-to-index gap, in hand sizes, that starts a pinch */
+  pinchStart: number
+  /** Gap the fingers have to open back past before another pinch counts */
+  pinchRelease: number
+  /** A finger is straight when its tip is this much further from the wrist than its middle joint */
+  extendedRatio: number
+  /** How long a pinch has to be held, in ms */
+  pinchHoldMs: number
+  /** How long an open palm or fist has to be held, in ms */
+  poseHoldMs: number
+  /** How long a pointing fingertip has to stay put for a point-hold, in ms */
+  dwellMs: number
+  /** How far (normalized frame units) the fingertip can drift during a dwell */
+  dwellRadius: number
+}
+
+export const defaultHandPoseConfig: HandPoseConfig = {
+  pinchStart: 0.3,
+  pinchRelease: 0.45,
+  extendedRatio: 1.15,
+  pinchHoldMs: 80,
+  poseHoldMs: 350,
+  dwellMs: 800,
+  dwellRadius: 0.03,
+}
+
+type HandShape = 'pinch' | 'open-palm' | 'fist' | 'point'
+
+export interface HandPoseDetection {
+  type: PoseGestureType
+  hand: Handedness
+  timestamp: number
+  /** Where the pose points: the pinch point, the fingertip or the palm centre */
+  origin: HandLandmark
+  /** 0-1, how clearly the hand made the shape */
+  strength: number
+}
+
+interface PoseState {
+  shape: HandShape | null
+  shapeSince: number
+  /** The current shape has already been reported */
+  reported: boolean
+  pinching: boolean
+  dwellAnchor?: HandLandmark
+  dwellSince: number
+}
+
+const distance = (a: HandLandmark, b: HandLandmark) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z)
+
+const average = (points: HandLandmark[]): HandLandmark => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+  z: points.reduce((sum, point) => sum + point.z, 0) / points.length,
+})
+
+export class HandPoseRecognizer {
+  private config: HandPoseConfig
+  private handStates = new Map<Handedness, PoseState>()
+
+  constructor(config: Partial<HandPoseConfig> = {}) {
+    this.config = { ...defaultHandPoseConfig, ...config }
+  }
+
+  reset() {
+    this.handStates.clear()
+  }
+
+  /**
+   * Poses this hand completed on this frame (at most one)
+   */
+  processHand(hand: HandPrediction, timestamp: number): HandPoseDetection | null {
+    const { landmarks } = hand
+    if (landmarks.length < 21) return null
+
+    const state = this.ensureState(hand.handedness)
+    const handSize = Math.max(distance(landmarks[WRIST], landmarks[MIDDLE_MCP]), Number.EPSILON)
+    const pinchGap = distance(landmarks[THUMB_TIP], landmarks[INDEX_TIP]) / handSize
+    // In a fist the thumb also rests near the index tip, but that tip is tucked into the palm
+    const indexTucked = distance(landmarks[WRIST], landmarks[INDEX_TIP]) < distance(landmarks[WRIST], landmarks[INDEX_PIP])
+    state.pinching = !indexTucked && pinchGap < (state.pinching ? this.config.pinchRelease : this.config.pinchStart)
+
+    const shape = this.classify(landmarks, state.pinching)
+    if (shape !== state.shape) {
+      state.shape = shape
+      state.shapeSince = timestamp
+      state.reported = false
+      state.dwellAnchor = undefined
+    }
+    if (!shape) return null
+
+    if (shape === 'point') return this.trackDwell(state, hand.handedness, landmarks[INDEX_TIP], timestamp)
+
+    const holdMs = shape === 'pinch' ? this.config.pinchHoldMs : this.config.poseHoldMs
+    if (state.reported || timestamp - state.shapeSince < holdMs) return null
+    state.reported = true
+
+    if (shape === 'pinch') {
+      return {
+        type: 'pinch',
+        hand: hand.handedness,
+        timestamp,
+        origin: average([landmarks[THUMB_TIP], landmarks[INDEX_TIP]]),
+        strength: Math.min(1, Math.max(0, 1 - pinchGap / this.config.pinchStart)),
+      }
+    }
+    return {
+      type: shape,
+      hand: hand.handedness,
+      timestamp,
+      origin: average(PALM.map((index) => landmarks[index])),
+      strength: hand.score,
+    }
+  }
+
+  private classify(landmarks: HandLandmark[], pinching: boolean): HandShape | null {
+    if (pinching) return 'pinch'
+
+    const wrist = landmarks[WRIST]
+    const extended = FINGERS.map(
+      ([pip, tip]) => distance(wrist, landmarks[tip]) > distance(wrist, landmarks[pip]) * this.config.extendedRatio,
+    )
+    const extendedCount = extended.filter(Boolean).length
+    // The thumb is out when its tip sits clear of the knuckle line
+    const thumbOut = distance(landmarks[THUMB_TIP], landmarks[PINKY_MCP]) > distance(landmarks[INDEX_MCP], landmarks[PINKY_MCP]) * 1.2
+
+    if (extendedCount === 4 && thumbOut) return 'open-palm'
+    if (extendedCount === 0) return 'fist'
+    if (extended[0] && extendedCount === 1) return 'point'
+    return null
+  }
+
+  private trackDwell(
+    state: PoseState,
+    hand: Handedness,
+    tip: HandLandmark,
+    timestamp: number,
+  ): HandPoseDetection | null {
+    // Drifting off the spot starts the dwell over from wherever the finger is now
+    if (!state.dwellAnchor || Math.hypot(tip.x - state.dwellAnchor.x, tip.y - state.dwellAnchor.y) > this.config.dwellRadius) {
+      state.dwellAnchor = tip
+      state.dwellSince = timestamp
+      state.reported = false
+      return null
+    }
+    if (state.reported || timestamp - state.dwellSince < this.config.dwellMs) return null
+    state.reported = true
+    return { type: 'point-hold', hand, timestamp, origin: tip, strength: 1 }
+  }
+
+  private ensureState(hand: Handedness): PoseState {
+    if (!this.handStates.has(hand)) {
+      this.handStates.set(hand, { shape: null, shapeSince: 0, reported: false, pinching: false, dwellSince: 0 })
+    }
+    return this.handStates.get(hand)!
+  }
+}
@@ -1,8 +1,10 @@
 import {
+  Bytes,
   collection,
   doc,
   setDoc,
   getDoc,
+  deleteDoc,
   query,
   orderBy,
   limit,
@@ -14,6 +16,9 @@ import {
 } from 'firebase/firestore'
 import { getDb, isFirebaseEnabled } from './firebase'
 import type { GameMode } from '@/types'
+import type { Replay } from '@/game/replay'
+import { decodeReplayFile, encodeReplayBinary } from '@/game/replayFile'
+import { getDailyKey } from '@/game/daily'
 
 export interface LeaderboardEntry {
   id: string
@@ -21,6 +26,7 @@ export interface LeaderboardEntry {
   score: number
   gameMode: GameMode
   timestamp: Date
+  hasReplay: boolean
 }
 
 interface ScoreDocument {
@@ -30,9 +36,21 @@ interface ScoreDocument {
   timestamp: Timestamp
   sessionId: string
   deviceId: string
+  hasReplay?: boolean
+  /** Challenge day for daily scores (YYYY-MM-DD, UTC) */
+  day?: string
+}
+
+// Replay of the run behind a score, keyed by the score's document ID
+interface ReplayDocument {
+  data: Bytes
 }
 
 const COLLECTION_NAME = 'scores'
+const REPLAYS_COLLECTION = 'replays'
+// Sanity cap on submitted scores; longer modes can legitimately score more
+const MAX_SCORE = 10000
+const MAX_LONG_ROUND_SCORE = 100000
 
 // Generate a persistent device ID to identify returning players
 const getDeviceId = (): string => {
@@ -56,6 +74,10 @@ const getSessionId = (): string => {
   return sessionId
 }
 
+// One highscore per player per game mode; daily scores get one per day
+const getScoreDocId = (deviceId: string, gameMode: GameMode): string =>
+  gameMode === 'daily' ? `${deviceId}_daily_${getDailyKey()}` : `${deviceId}_${gameMode}`
+
 export type UsernameCheckResult = 'available' | 'taken' | 'owned' | 'error'
 
 export const checkUsername = async (username: string): Promise<UsernameCheckResult> => {
@@ -94,7 +116,8 @@ export const checkUsername = async (username: string): Promise<UsernameCheckResu
 export const submitScore = async (
   username: string,
   score: number,
-  gameMode: GameMode
+  gameMode: GameMode,
+  replay?: Replay | null
 ): Promise<boolean> => {
   if (!isFirebaseEnabled()) {
     console.warn('Firebase not configured, score not submitted')
@@ -107,11 +130,11 @@ export const submitScore = async (
   try {
     const sessionId = getSessionId()
     const deviceId = getDeviceId()
-    const sanitizedScore = Math.max(0, Math.min(score, 10000))
+    const maxScore = gameMode === 'classic' || gameMode === 'zen' ? MAX_LONG_ROUND_SCORE : MAX_SCORE
+    const sanitizedScore = Math.max(0, Math.min(score, maxScore))
     
     // Use a deterministic document ID based on deviceId and gameMode
-    // This ensures only one highscore per player per game mode
-    const docId = `${deviceId}_${gameMode}`
+    const docId = getScoreDocId(deviceId, gameMode)
     const docRef = doc(db, COLLECTION_NAME, docId)
     
     // Check if player already has a score for this game mode
@@ -125,6 +148,16 @@ export const submitScore = async (
       }
     }
     
+    // Save the replay first so the score never points at a missing one
+    const replayRef = doc(db, REPLAYS_COLLECTION, docId)
+    if (replay) {
+      await setDoc(replayRef, {
+        data: Bytes.fromUint8Array(encodeReplayBinary(replay)),
+      } satisfies ReplayDocument)
+    } else if (existingDoc.exists() && (existingDoc.data() as ScoreDocument).hasReplay) {
+      await deleteDoc(replayRef)
+    }
+
     // Save the new highscore
     await setDoc(docRef, {
       username: username.trim().slice(0, 20),
@@ -133,6 +166,8 @@ export const submitScore = async (
       timestamp: serverTimestamp(),
       sessionId,
       deviceId,
+      hasReplay: !!replay,
+      ...(gameMode === 'daily' && { day: getDailyKey() }),
     } satisfies Omit<ScoreDocument, 'timestamp'> & { timestamp: ReturnType<typeof serverTimestamp> })
     return true
   } catch (error) {
@@ -156,7 +191,9 @@ export const getTopScores = async (
     const scoresRef = collection(db, COLLECTION_NAME)
     
     // Each player only has one entry per game mode, so no deduplication needed
-    const q = gameMode
+    const q = gameMode === 'daily'
+      ? query(scoresRef, where('day', '==', getDailyKey()), orderBy('score', 'desc'), limit(limitCount))
+      : gameMode
       ? query(scoresRef, where('gameMode', '==', gameMode), orderBy('score', 'desc'), limit(limitCount))
       : query(scoresRef, orderBy('score', 'desc'), limit(limitCount))
     
@@ -170,6 +207,7 @@ export const getTopScores = async (
         score: data.score,
         gameMode: data.gameMode,
         timestamp: data.timestamp?.toDate() ?? new Date(),
+        hasReplay: data.hasReplay ?? false,
       }
     })
   } catch (error) {
@@ -178,6 +216,28 @@ export const getTopScores = async (
   }
 }
 
+// Load the replay attached to a leaderboard entry
+export const getEntryReplay = async (entryId: string): Promise<Replay | null> => {
+  if (!isFirebaseEnabled()) {
+    return null
+  }
+
+  const db = getDb()
+  if (!db) return null
+
+  try {
+    const snapshot = await getDoc(doc(db, REPLAYS_COLLECTION, entryId))
+    if (!snapshot.exists()) return null
+
+    const { data } = snapshot.data() as ReplayDocument
+    const result = decodeReplayFile(data.toUint8Array())
+    return 'file' in result ? result.file.replay : null
+  } catch (error) {
+    console.error('Failed to load replay:', error)
+    return null
+  }
+}
+
 export const getPlayerRank = async (
   score: number,
   gameMode?: GameMode
@@ -193,7 +253,9 @@ export const getPlayerRank = async (
     const scoresRef = collection(db, COLLECTION_NAME)
     
     // Build query based on whether gameMode filter is needed
-    const q = gameMode
+    const q = gameMode === 'daily'
+      ? query(scoresRef, where('score', '>', score), where('day', '==', getDailyKey()))
+      : gameMode
       ? query(scoresRef, where('score', '>', score), where('gameMode', '==', gameMode))
       : query(scoresRef, where('score', '>', score))
     
@@ -219,7 +281,7 @@ export const getPersonalBest = async (gameMode?: GameMode): Promise<number> => {
     
     if (gameMode) {
       // Direct document lookup when gameMode is specified
-      const docId = `${deviceId}_${gameMode}`
+      const docId = getScoreDocId(deviceId, gameMode)
       const docRef = doc(db, COLLECTION_NAME, docId)
       const docSnap = await getDoc(docRef)
       
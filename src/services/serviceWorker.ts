@@ -0,0 +1,15 @@
+/**
+ * Register the service worker that caches the app and its hand tracking
+ * assets for offline play. Production only, so it never serves stale
+ * modules to the dev server. The build id in the script URL makes every
+ * deploy install a fresh worker, which clears out the previous build's cache.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+  const build = encodeURIComponent(import.meta.env.VITE_BUILD_ID ?? 'dev')
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js?build=${build}`).catch((error) => {
+      console.error('[serviceWorker] Registration failed:', error)
+    })
+  })
+}
@@ -66,6 +66,7 @@ export const useFallbackInput = ({ enabled, onGesture }: UseFallbackInputOptions
       },
       timestamp: performance.now(),
       origin: { x, y, z: 0.5 },
+      previous: { x: x - dx, y: y - dy, z: 0.5 },
     }
   }, [])
 
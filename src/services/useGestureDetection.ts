@@ -2,12 +2,20 @@ import { useEffect, useMemo, useRef } from 'react'
 import { GestureController } from '@/services/gestureController'
 import { useHandData } from '@/cv'
 import { useGameStore } from '@/state/gameStore'
+import { useActiveCalibration } from '@/state/calibrationStore'
 
 export const useGestureDetection = () => {
   const controllerRef = useRef(new GestureController())
   const { frame } = useHandData()
   const registerGesture = useGameStore((state) => state.registerGesture)
   const lastGesture = useGameStore((state) => state.lastGesture)
+  const lastPose = useGameStore((state) => state.lastPose)
+  const calibration = useActiveCalibration()
+
+  // Use the player's calibrated thresholds when they have some
+  useEffect(() => {
+    controllerRef.current.setConfig(calibration?.gesture ?? {})
+  }, [calibration])
 
   useEffect(() => {
     const controller = controllerRef.current
@@ -23,6 +31,6 @@ export const useGestureDetection = () => {
     events.forEach((event) => registerGesture(event))
   }, [frame, registerGesture])
 
-  return useMemo(() => ({ lastGesture }), [lastGesture])
+  return useMemo(() => ({ lastGesture, lastPose }), [lastGesture, lastPose])
 }
 
@@ -0,0 +1,34 @@
+import { useEffect, useRef, type RefObject } from 'react'
+import { useGameStore } from '@/state/gameStore'
+import { HAND_HOVER_ATTR } from './handCursor'
+
+interface GestureMenuOptions {
+  /** Run on a held fist, e.g. to leave the screen */
+  onBack?: () => void
+}
+
+/**
+ * Pose shortcuts for a menu from across the room, alongside the hand cursor
+ * (which picks and presses controls): a pinch away from every control presses
+ * the screen's main `.game-btn`, and a held fist goes back.
+ */
+export const useGestureMenu = (containerRef: RefObject<HTMLElement | null>, { onBack }: GestureMenuOptions = {}) => {
+  const lastPose = useGameStore((state) => state.lastPose)
+  // Poses made before the menu opened aren't meant for it
+  const handledIdRef = useRef(lastPose?.id)
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container || !lastPose || lastPose.id === handledIdRef.current) return
+    handledIdRef.current = lastPose.id
+
+    if (lastPose.type === 'pinch') {
+      // The hand cursor presses the control it's on
+      if (document.querySelector(`[${HAND_HOVER_ATTR}]`)) return
+      const target = container.querySelector<HTMLButtonElement>('.game-btn')
+      if (target && !target.disabled) target.click()
+    } else if (lastPose.type === 'fist') {
+      onBack?.()
+    }
+  }, [lastPose, containerRef, onBack])
+}
@@ -0,0 +1,41 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+
+const AUDIO_STORAGE_KEY = 'frootninja_audio'
+
+export interface AudioSettings {
+  /** 0-1, scales everything */
+  masterVolume: number
+  /** 0-1, slices, bombs, combos, countdowns */
+  sfxVolume: number
+  /** 0-1, background loop during rounds */
+  musicVolume: number
+  muted: boolean
+}
+
+interface AudioStore extends AudioSettings {
+  setMasterVolume: (volume: number) => void
+  setSfxVolume: (volume: number) => void
+  setMusicVolume: (volume: number) => void
+  toggleMuted: () => void
+}
+
+const clampVolume = (volume: number) => Math.min(1, Math.max(0, volume))
+
+export const useAudioStore = create<AudioStore>()(
+  persist(
+    (set) => ({
+      masterVolume: 0.8,
+      sfxVolume: 1,
+      musicVolume: 0.5,
+      muted: false,
+      setMasterVolume: (volume) => set({ masterVolume: clampVolume(volume) }),
+      setSfxVolume: (volume) => set({ sfxVolume: clampVolume(volume) }),
+      setMusicVolume: (volume) => set({ musicVolume: clampVolume(volume) }),
+      toggleMuted: () => set((state) => ({ muted: !state.muted })),
+    }),
+    {
+      name: AUDIO_STORAGE_KEY,
+    }
+  )
+)
@@ -0,0 +1,47 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import type { CalibrationProfile } from '@/services/calibration'
+import { useUserStore } from './userStore'
+
+const CALIBRATION_STORAGE_KEY = 'frootninja_calibration'
+// Profile slot used before the player has picked a username
+const GUEST_PROFILE_KEY = '__guest__'
+
+const profileKey = (username: string) => username.trim().toLowerCase() || GUEST_PROFILE_KEY
+
+interface CalibrationStore {
+  /** Calibration profiles keyed by username, so each player on a device keeps their own */
+  profiles: Record<string, CalibrationProfile>
+  saveProfile: (username: string, profile: CalibrationProfile) => void
+  clearProfile: (username: string) => void
+  getProfile: (username: string) => CalibrationProfile | null
+}
+
+export const useCalibrationStore = create<CalibrationStore>()(
+  persist(
+    (set, get) => ({
+      profiles: {},
+
+      saveProfile: (username, profile) =>
+        set((state) => ({ profiles: { ...state.profiles, [profileKey(username)]: profile } })),
+
+      clearProfile: (username) =>
+        set((state) => {
+          const profiles = { ...state.profiles }
+          delete profiles[profileKey(username)]
+          return { profiles }
+        }),
+
+      getProfile: (username) => get().profiles[profileKey(username)] ?? null,
+    }),
+    {
+      name: CALIBRATION_STORAGE_KEY,
+    }
+  )
+)
+
+/** Calibration profile of whoever is playing right now */
+export const useActiveCalibration = (): CalibrationProfile | null => {
+  const username = useUserStore((state) => state.username)
+  return useCalibrationStore((state) => state.profiles[profileKey(username)] ?? null)
+}
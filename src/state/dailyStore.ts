@@ -0,0 +1,78 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { getDailyKey, getPreviousDailyKey } from '@/game/daily'
+
+const DAILY_STORAGE_KEY = 'frootninja_daily'
+
+interface DailyStore {
+  /** Day of the last ranked attempt (YYYY-MM-DD, UTC) */
+  lastAttemptDay: string | null
+  /** Score of that attempt, null until the round finishes */
+  lastAttemptScore: number | null
+  /** Consecutive days with a ranked attempt, ending at lastAttemptDay */
+  streak: number
+  bestStreak: number
+  /** Whether the round in progress (or just finished) is today's ranked attempt */
+  isRankedRound: boolean
+  /** Start a daily round; only the first one each day is ranked */
+  beginAttempt: () => boolean
+  /** Record the finished ranked round's score */
+  recordScore: (score: number) => void
+  hasPlayedToday: () => boolean
+  /** Current streak, or 0 once a day has been skipped */
+  getStreak: () => number
+}
+
+export const useDailyStore = create<DailyStore>()(
+  persist(
+    (set, get) => ({
+      lastAttemptDay: null,
+      lastAttemptScore: null,
+      streak: 0,
+      bestStreak: 0,
+      isRankedRound: false,
+
+      beginAttempt: () => {
+        const today = getDailyKey()
+        const { lastAttemptDay, streak, bestStreak } = get()
+        if (lastAttemptDay === today) {
+          set({ isRankedRound: false })
+          return false
+        }
+
+        // The attempt counts as soon as it starts, so quitting early can't buy a retry
+        const nextStreak = lastAttemptDay === getPreviousDailyKey(today) ? streak + 1 : 1
+        set({
+          lastAttemptDay: today,
+          lastAttemptScore: null,
+          streak: nextStreak,
+          bestStreak: Math.max(bestStreak, nextStreak),
+          isRankedRound: true,
+        })
+        return true
+      },
+
+      recordScore: (score) => {
+        if (!get().isRankedRound) return
+        set({ lastAttemptScore: score })
+      },
+
+      hasPlayedToday: () => get().lastAttemptDay === getDailyKey(),
+
+      getStreak: () => {
+        const { lastAttemptDay, streak } = get()
+        const today = getDailyKey()
+        return lastAttemptDay === today || lastAttemptDay === getPreviousDailyKey(today) ? streak : 0
+      },
+    }),
+    {
+      name: DAILY_STORAGE_KEY,
+      partialize: ({ lastAttemptDay, lastAttemptScore, streak, bestStreak }) => ({
+        lastAttemptDay,
+        lastAttemptScore,
+        streak,
+        bestStreak,
+      }),
+    }
+  )
+)
@@ -1,28 +1,47 @@
 import { create } from 'zustand'
-import type { GameMode, GamePhase, GameState, GestureEvent, SliceEvent } from '@/types'
+import type { GameMode, GamePhase, GameState, GestureEvent, PauseReason, PowerUpTimers, SliceEvent } from '@/types'
 import { getPersonalBest, submitScore } from '@/services/leaderboardService'
+import { decayCombo } from '@/game/scoring'
 import { useUserStore } from './userStore'
+import { useDailyStore } from './dailyStore'
 
 const HIGH_SCORE_KEY = 'frootninja_highscore'
+const ZEN_HIGH_SCORE_KEY = 'frootninja_highscore_zen'
+const CLASSIC_HIGH_SCORE_KEY = 'frootninja_highscore_classic'
+const ZEN_DURATION_KEY = 'frootninja_zen_duration'
 const DEFAULT_ROUND_DURATION = 30
+const RESUME_COUNTDOWN_SECONDS = 3
 
-const loadHighScore = (): number => {
+/** Round lengths offered for Zen, in seconds */
+export const ZEN_ROUND_DURATIONS = [60, 90, 120, 180]
+const DEFAULT_ZEN_ROUND_DURATION = 90
+
+const loadHighScore = (key = HIGH_SCORE_KEY): number => {
   try {
-    const stored = localStorage.getItem(HIGH_SCORE_KEY)
+    const stored = localStorage.getItem(key)
     return stored ? parseInt(stored, 10) : 0
   } catch {
     return 0
   }
 }
 
-const saveHighScore = (score: number): void => {
+const saveHighScore = (score: number, key = HIGH_SCORE_KEY): void => {
   try {
-    localStorage.setItem(HIGH_SCORE_KEY, score.toString())
+    localStorage.setItem(key, score.toString())
   } catch {
     // localStorage not available
   }
 }
 
+const loadZenRoundDuration = (): number => {
+  try {
+    const stored = parseInt(localStorage.getItem(ZEN_DURATION_KEY) ?? '', 10)
+    return ZEN_ROUND_DURATIONS.includes(stored) ? stored : DEFAULT_ZEN_ROUND_DURATION
+  } catch {
+    return DEFAULT_ZEN_ROUND_DURATION
+  }
+}
+
 const initialState: GameState = {
   phase: 'idle',
   gameMode: 'solo',
@@ -30,11 +49,17 @@ const initialState: GameState = {
   combo: 0,
   lives: 3,
   level: 1,
+  powerUps: {},
   activeFruits: [],
   timeRemaining: DEFAULT_ROUND_DURATION,
   roundDuration: DEFAULT_ROUND_DURATION,
   highScore: loadHighScore(),
+  zenHighScore: loadHighScore(ZEN_HIGH_SCORE_KEY),
+  zenRoundDuration: loadZenRoundDuration(),
+  classicHighScore: loadHighScore(CLASSIC_HIGH_SCORE_KEY),
   isPlaying: false,
+  pauseReason: null,
+  resumeCountdown: null,
   challengeTarget: null,
 }
 
@@ -42,14 +67,26 @@ interface GameStore extends GameState {
   setPhase: (phase: GamePhase) => void
   setGameMode: (mode: GameMode) => void
   setLives: (lives: number) => void
+  /** Difficulty level reported by the simulation */
+  setLevel: (level: number) => void
+  /** Running power-ups reported by the simulation */
+  setPowerUps: (powerUps: PowerUpTimers) => void
   registerSlice: (event: SliceEvent) => void
   registerGesture: (event: GestureEvent) => void
   resetCombo: () => void
+  /** Knock the combo down after a missed fruit */
+  decayCombo: () => void
   setChallengeTarget: (target: number | null) => void
   setHighScore: (score: number) => void
+  setZenRoundDuration: (seconds: number) => void
   syncHighScore: () => Promise<void>
   startRound: () => void
   endRound: () => void
+  /** Freeze a running round (timer and physics); isPlaying stays true */
+  pause: (reason: PauseReason) => void
+  /** Start the countdown back into a paused round */
+  requestResume: () => void
+  tickResumeCountdown: () => void
   tickTimer: () => void
   reset: () => void
 }
@@ -62,17 +99,25 @@ export const useGameStore = create<GameStore>()((set, get) => ({
   setGameMode: (gameMode) => set({ gameMode }),
   
   setLives: (lives) => set({ lives }),
+
+  setLevel: (level) => set({ level }),
+
+  setPowerUps: (powerUps) => set({ powerUps }),
   
-  registerSlice: (event) =>
+  registerSlice: (event) => {
+    const combo = event.scoreDelta > 0 ? get().combo + 1 : 0
     set((state) => ({
       score: Math.max(0, state.score + event.scoreDelta),
-      combo: event.scoreDelta > 0 ? state.combo + 1 : 0,
+      combo,
       recentSlice: event,
-    })),
+    }))
+  },
   
-  registerGesture: (event) => set({ lastGesture: event }),
+  registerGesture: (event) => set(event.type === 'slice' ? { lastGesture: event } : { lastPose: event }),
   
   resetCombo: () => set({ combo: 0 }),
+
+  decayCombo: () => set((state) => ({ combo: decayCombo(state.combo) })),
   
   setChallengeTarget: (target) => set({ challengeTarget: target }),
   
@@ -84,6 +129,15 @@ export const useGameStore = create<GameStore>()((set, get) => ({
     }
   },
   
+  setZenRoundDuration: (seconds) => {
+    try {
+      localStorage.setItem(ZEN_DURATION_KEY, seconds.toString())
+    } catch {
+      // localStorage not available
+    }
+    set({ zenRoundDuration: seconds })
+  },
+  
   syncHighScore: async () => {
     try {
       // Fetch personal best from Firebase
@@ -116,33 +170,82 @@ export const useGameStore = create<GameStore>()((set, get) => ({
     }
   },
   
-  startRound: () => set({
-    phase: 'running',
-    isPlaying: true,
-    score: 0,
-    combo: 0,
-    lives: 3,
-    timeRemaining: get().roundDuration,
-    activeFruits: [],
-    recentSlice: undefined,
-  }),
+  startRound: () => {
+    const { gameMode, zenRoundDuration } = get()
+    const roundDuration = gameMode === 'zen' ? zenRoundDuration : DEFAULT_ROUND_DURATION
+    set({
+      phase: 'running',
+      isPlaying: true,
+      score: 0,
+      combo: 0,
+      lives: 3,
+      level: 1,
+      powerUps: {},
+      roundDuration,
+      timeRemaining: roundDuration,
+      activeFruits: [],
+      recentSlice: undefined,
+      pauseReason: null,
+      resumeCountdown: null,
+    })
+  },
   
   endRound: () => {
     const state = get()
-    const isNewHighScore = state.score > state.highScore
+    // The high score is for regular solo rounds; daily runs rank separately
+    const isNewHighScore = state.gameMode === 'solo' && state.score > state.highScore
+    const isNewZenHighScore = state.gameMode === 'zen' && state.score > state.zenHighScore
+    const isNewClassicHighScore = state.gameMode === 'classic' && state.score > state.classicHighScore
+    if (state.gameMode === 'daily') {
+      useDailyStore.getState().recordScore(state.score)
+    }
     if (isNewHighScore) {
       saveHighScore(state.score)
     }
+    if (isNewZenHighScore) {
+      saveHighScore(state.score, ZEN_HIGH_SCORE_KEY)
+    }
+    if (isNewClassicHighScore) {
+      saveHighScore(state.score, CLASSIC_HIGH_SCORE_KEY)
+    }
     set({
       phase: 'game-over',
       isPlaying: false,
       highScore: isNewHighScore ? state.score : state.highScore,
+      zenHighScore: isNewZenHighScore ? state.score : state.zenHighScore,
+      classicHighScore: isNewClassicHighScore ? state.score : state.classicHighScore,
     })
   },
   
+  pause: (reason) => {
+    const { phase } = get()
+    if (phase !== 'running' && phase !== 'paused') return
+    // Pausing again mid-countdown cancels the countdown
+    set({ phase: 'paused', pauseReason: reason, resumeCountdown: null })
+  },
+
+  requestResume: () => {
+    const { phase, resumeCountdown } = get()
+    if (phase !== 'paused' || resumeCountdown !== null) return
+    set({ resumeCountdown: RESUME_COUNTDOWN_SECONDS })
+  },
+
+  tickResumeCountdown: () => {
+    const { phase, resumeCountdown } = get()
+    if (phase !== 'paused' || resumeCountdown === null) return
+
+    if (resumeCountdown > 1) {
+      set({ resumeCountdown: resumeCountdown - 1 })
+      return
+    }
+    set({ phase: 'running', pauseReason: null, resumeCountdown: null })
+  },
+
   tickTimer: () => {
     const state = get()
-    if (!state.isPlaying || state.timeRemaining <= 0) return
+    // Classic rounds have no clock; they end when the lives run out
+    if (state.gameMode === 'classic') return
+    if (!state.isPlaying || state.phase !== 'running' || state.timeRemaining <= 0) return
     
     const newTime = state.timeRemaining - 1
     if (newTime <= 0) {
@@ -152,8 +255,27 @@ export const useGameStore = create<GameStore>()((set, get) => ({
     }
   },
   
-  reset: () => set({
-    ...initialState,
-    highScore: loadHighScore(),
-  }),
+  reset: () => {
+    set({
+      ...initialState,
+      highScore: loadHighScore(),
+      zenHighScore: loadHighScore(ZEN_HIGH_SCORE_KEY),
+      zenRoundDuration: get().zenRoundDuration,
+      classicHighScore: loadHighScore(CLASSIC_HIGH_SCORE_KEY),
+    })
+  },
 }))
+
+/** Local best for the mode being played; 0 for daily runs, which rank on the day's board instead */
+export const selectModeHighScore = (state: GameState): number => {
+  switch (state.gameMode) {
+    case 'zen':
+      return state.zenHighScore
+    case 'classic':
+      return state.classicHighScore
+    case 'daily':
+      return 0
+    default:
+      return state.highScore
+  }
+}
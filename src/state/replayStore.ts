@@ -0,0 +1,69 @@
+import { create } from 'zustand'
+import type { Replay } from '@/game/replay'
+import { decodeReplayFile, encodeReplayJSON } from '@/game/replayFile'
+import type { GameMode } from '@/types'
+
+const PERSONAL_BEST_REPLAY_KEY = 'frootninja_pb_replay'
+
+const loadPersonalBest = (): Replay | null => {
+  try {
+    const stored = localStorage.getItem(PERSONAL_BEST_REPLAY_KEY)
+    if (!stored) return null
+    const result = decodeReplayFile(stored)
+    return 'file' in result ? result.file.replay : null
+  } catch {
+    return null
+  }
+}
+
+const savePersonalBest = (replay: Replay): void => {
+  try {
+    localStorage.setItem(PERSONAL_BEST_REPLAY_KEY, encodeReplayJSON(replay))
+  } catch {
+    // localStorage not available (or full)
+  }
+}
+
+interface ReplayState {
+  /** Most recent finished round for each mode */
+  lastReplays: Partial<Record<GameMode, Replay>>
+  /** Best solo round on this device, kept across sessions */
+  personalBest: Replay | null
+  /** Recorded run the next solo rounds race against */
+  ghost: Replay | null
+  /** Keep a finished round's replay */
+  saveReplay: (replay: Replay) => void
+  /** Most recent replay for a mode, if any */
+  getLastReplay: (mode: GameMode) => Replay | null
+  /** Race this run (null to race nobody) */
+  setGhost: (replay: Replay | null) => void
+  /** Drop all kept replays */
+  clear: () => void
+}
+
+export const useReplayStore = create<ReplayState>()((set, get) => ({
+  lastReplays: {},
+  personalBest: loadPersonalBest(),
+  ghost: null,
+
+  saveReplay: (replay) => {
+    const { personalBest } = get()
+    const isPersonalBest =
+      replay.settings.mode === 'solo' &&
+      replay.finalScore > 0 &&
+      replay.finalScore > (personalBest?.finalScore ?? 0)
+    if (isPersonalBest) {
+      savePersonalBest(replay)
+    }
+    set((state) => ({
+      lastReplays: { ...state.lastReplays, [replay.settings.mode]: replay },
+      personalBest: isPersonalBest ? replay : state.personalBest,
+    }))
+  },
+
+  getLastReplay: (mode) => get().lastReplays[mode] ?? null,
+
+  setGhost: (ghost) => set({ ghost }),
+
+  clear: () => set({ lastReplays: {}, ghost: null }),
+}))
@@ -0,0 +1,33 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { DEFAULT_LANDMARK_FILTER, type LandmarkFilterConfig } from '@/cv/landmarkFilter'
+
+const TRACKING_FILTER_STORAGE_KEY = 'frootninja_tracking_filter'
+
+interface TrackingFilterStore extends LandmarkFilterConfig {
+  setFilter: (config: Partial<LandmarkFilterConfig>) => void
+  resetFilter: () => void
+}
+
+/** Landmark filter settings, tuned from the gesture debug panel and kept between visits */
+export const useTrackingFilterStore = create<TrackingFilterStore>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_LANDMARK_FILTER,
+      setFilter: (config) => set(config),
+      resetFilter: () => set(DEFAULT_LANDMARK_FILTER),
+    }),
+    {
+      name: TRACKING_FILTER_STORAGE_KEY,
+    }
+  )
+)
+
+/** Just the filter settings, without the store's actions */
+export const selectFilterConfig = ({ enabled, minCutoff, beta, derivativeCutoff, predictionMs }: TrackingFilterStore): LandmarkFilterConfig => ({
+  enabled,
+  minCutoff,
+  beta,
+  derivativeCutoff,
+  predictionMs,
+})
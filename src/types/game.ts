@@ -17,7 +17,15 @@ export interface FruitSpawn {
 
 export type GamePhase = 'idle' | 'calibrating' | 'running' | 'paused' | 'game-over'
 
-export type GameMode = 'solo' | 'multiplayer'
+/** Why a running round was paused */
+export type PauseReason = 'manual' | 'hidden' | 'no-hands'
+
+export type GameMode = 'solo' | 'multiplayer' | 'daily' | 'classic' | 'zen'
+
+export type PowerUpKind = 'freeze' | 'frenzy' | 'double'
+
+/** Whole seconds left on each running power-up */
+export type PowerUpTimers = Partial<Record<PowerUpKind, number>>
 
 export interface SliceEvent {
   fruitId: string
@@ -25,7 +33,10 @@ export interface SliceEvent {
   slicedAt: number
 }
 
-export type GestureType = 'slice'
+/** Hand shapes held still long enough to count as a command rather than a swipe */
+export type PoseGestureType = 'pinch' | 'open-palm' | 'fist' | 'point-hold'
+
+export type GestureType = 'slice' | PoseGestureType
 
 export interface GestureEvent {
   id: string
@@ -36,6 +47,8 @@ export interface GestureEvent {
   direction: { x: number; y: number }
   timestamp: number
   origin: { x: number; y: number; z: number }
+  /** Fingertip one hand sample before `origin`; missing on older replays */
+  previous?: { x: number; y: number; z: number }
 }
 
 export interface GameState {
@@ -45,14 +58,26 @@ export interface GameState {
   combo: number
   lives: number
   level: number
+  powerUps: PowerUpTimers
   activeFruits: FruitSpawn[]
   recentSlice?: SliceEvent
   lastGesture?: GestureEvent
+  /** Latest pose gesture (pinch, open palm, ...); slices stay in lastGesture */
+  lastPose?: GestureEvent
   // Session management
   timeRemaining: number
   roundDuration: number
   highScore: number
+  // Zen keeps its own best and round length
+  zenHighScore: number
+  zenRoundDuration: number
+  // Classic has no clock, so its scores don't compare with timed rounds
+  classicHighScore: number
   isPlaying: boolean
+  // Pause
+  pauseReason: PauseReason | null
+  /** Seconds left before a paused round resumes, null until resume is requested */
+  resumeCountdown: number | null
   // Challenge mode
   challengeTarget: number | null
 }
@@ -0,0 +1,70 @@
+/**
+ * AudioSettings Component
+ * Header speaker button with a popover for mute and master/SFX/music volume
+ */
+
+import { useState } from 'react'
+import { useAudioStore } from '@/state/audioStore'
+
+interface VolumeSliderProps {
+  label: string
+  value: number
+  onChange: (value: number) => void
+}
+
+const VolumeSlider = ({ label, value, onChange }: VolumeSliderProps) => (
+  <label className="audio-settings__row">
+    <span className="audio-settings__label">{label}</span>
+    <input
+      className="audio-settings__slider"
+      type="range"
+      min={0}
+      max={100}
+      step={1}
+      value={Math.round(value * 100)}
+      onChange={(event) => onChange(Number(event.target.value) / 100)}
+    />
+    <span className="audio-settings__value">{Math.round(value * 100)}</span>
+  </label>
+)
+
+export const AudioSettings = () => {
+  const [isOpen, setIsOpen] = useState(false)
+  const {
+    masterVolume,
+    sfxVolume,
+    musicVolume,
+    muted,
+    setMasterVolume,
+    setSfxVolume,
+    setMusicVolume,
+    toggleMuted,
+  } = useAudioStore()
+
+  return (
+    <div className="audio-settings">
+      <button
+        className="app-header__menu-btn"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label="Sound settings"
+        aria-expanded={isOpen}
+      >
+        {muted || masterVolume === 0 ? '🔇' : '🔊'}
+      </button>
+
+      {isOpen && (
+        <div className="audio-settings__panel">
+          <button
+            className={`audio-settings__mute ${muted ? 'audio-settings__mute--active' : ''}`}
+            onClick={toggleMuted}
+          >
+            {muted ? 'Unmute' : 'Mute all'}
+          </button>
+          <VolumeSlider label="Master" value={masterVolume} onChange={setMasterVolume} />
+          <VolumeSlider label="Effects" value={sfxVolume} onChange={setSfxVolume} />
+          <VolumeSlider label="Music" value={musicVolume} onChange={setMusicVolume} />
+        </div>
+      )}
+    </div>
+  )
+}
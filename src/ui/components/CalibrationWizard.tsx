@@ -0,0 +1,218 @@
+/**
+ * CalibrationWizard Component
+ * Measures the player's reach, swipe speed and camera framerate, then proposes
+ * gesture thresholds and a slice hitbox tuned to them
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useHandData } from '@/cv'
+import { CalibrationSession, type CalibrationProfile, type ReachBox } from '@/services/calibration'
+import { defaultGestureConfig } from '@/services/gestureController'
+import { DEFAULT_HITBOX_RADIUS } from '@/game'
+
+interface CalibrationWizardProps {
+  onComplete: (profile: CalibrationProfile) => void
+  onCancel: () => void
+  /** A round starts right after, so cancelling means "skip" */
+  startsRound?: boolean
+}
+
+type CalibrationStep = 'intro' | 'reach' | 'swipe' | 'review' | 'failed'
+
+interface WizardState {
+  step: CalibrationStep
+  reachSamples: number
+  swipes: number
+  reach: ReachBox | null
+  profile: CalibrationProfile | null
+}
+
+// About four seconds of hand-visible frames at 30fps
+const REACH_SAMPLES = 120
+const TARGET_SWIPES = 6
+
+const INITIAL_STATE: WizardState = {
+  step: 'intro',
+  reachSamples: 0,
+  swipes: 0,
+  reach: null,
+  profile: null,
+}
+
+export const CalibrationWizard = ({ onComplete, onCancel, startsRound = false }: CalibrationWizardProps) => {
+  const { frame } = useHandData()
+  const sessionRef = useRef(new CalibrationSession())
+  const [wizard, setWizard] = useState<WizardState>(INITIAL_STATE)
+  const { step } = wizard
+  const handVisible = (frame?.hands.length ?? 0) > 0
+
+  // Feed tracked frames into the session for the active step
+  useEffect(() => {
+    if (!frame || (step !== 'reach' && step !== 'swipe')) return
+    const session = sessionRef.current
+    let update: Partial<WizardState>
+
+    if (step === 'reach') {
+      session.addReachFrame(frame)
+      const reachSamples = session.reachSampleCount
+      update = {
+        reachSamples,
+        reach: session.getReach(),
+        step: reachSamples >= REACH_SAMPLES ? 'swipe' : 'reach',
+      }
+    } else {
+      session.addSwipeFrame(frame)
+      const swipes = session.swipeCount
+      const profile = swipes >= TARGET_SWIPES ? session.finish() : null
+      update = swipes >= TARGET_SWIPES
+        ? { swipes, profile, step: profile ? 'review' : 'failed' }
+        : { swipes }
+    }
+
+    setWizard((prev) => ({ ...prev, ...update }))
+  }, [frame, step])
+
+  const handleRestart = useCallback(() => {
+    sessionRef.current = new CalibrationSession()
+    setWizard({ ...INITIAL_STATE, step: 'reach' })
+  }, [])
+
+  const { reach, profile } = wizard
+
+  return (
+    <div className="game-screen-overlay game-screen-overlay--translucent calibration">
+      {/* Live reach box; the video is mirrored so x flips */}
+      {reach && (step === 'reach' || step === 'swipe') && (
+        <div
+          className="calibration__reach"
+          style={{
+            left: `${(1 - reach.maxX) * 100}%`,
+            top: `${reach.minY * 100}%`,
+            width: `${(reach.maxX - reach.minX) * 100}%`,
+            height: `${(reach.maxY - reach.minY) * 100}%`,
+          }}
+        />
+      )}
+
+      <div className="calibration__panel">
+        <div className="calibration__steps">
+          {(['reach', 'swipe', 'review'] as const).map((id, index) => (
+            <span
+              key={id}
+              className={`calibration__step-dot ${step === id ? 'calibration__step-dot--active' : ''}`}
+            >
+              {index + 1}
+            </span>
+          ))}
+        </div>
+
+        {step === 'intro' && (
+          <>
+            <h2 className="calibration__title">🎯 Calibrate</h2>
+            <p className="calibration__text">
+              Two quick steps so slicing fits your reach and speed. Stand where you'll play.
+            </p>
+          </>
+        )}
+
+        {step === 'reach' && (
+          <>
+            <h2 className="calibration__title">Show your reach</h2>
+            <p className="calibration__text">
+              Slowly trace the biggest area you can comfortably reach with your index finger.
+            </p>
+            <div className="calibration__progress">
+              <div
+                className="calibration__progress-fill"
+                style={{ width: `${Math.min(100, (wizard.reachSamples / REACH_SAMPLES) * 100)}%` }}
+              />
+            </div>
+          </>
+        )}
+
+        {step === 'swipe' && (
+          <>
+            <h2 className="calibration__title">Slice the air</h2>
+            <p className="calibration__text">
+              Swipe like you're slicing fruit, at your normal game speed.
+            </p>
+            <div className="calibration__swipes">
+              {Array.from({ length: TARGET_SWIPES }, (_, index) => (
+                <span
+                  key={index}
+                  className={`calibration__swipe ${index < wizard.swipes ? 'calibration__swipe--done' : ''}`}
+                >
+                  🍉
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+
+        {(step === 'reach' || step === 'swipe') && !handVisible && (
+          <p className="calibration__hint">Can't see your hand</p>
+        )}
+
+        {step === 'review' && profile && (
+          <>
+            <h2 className="calibration__title">All set</h2>
+            <dl className="calibration__results">
+              <dt>Camera</dt>
+              <dd>{profile.fps} fps</dd>
+              <dt>Typical swipe</dt>
+              <dd>{profile.swipeSpeed.toFixed(2)}</dd>
+              <dt>Slice speed</dt>
+              <dd>
+                {profile.gesture.sliceSpeedThreshold}
+                <span className="calibration__default"> (default {defaultGestureConfig.sliceSpeedThreshold})</span>
+              </dd>
+              <dt>Min distance</dt>
+              <dd>
+                {profile.gesture.minDistance}
+                <span className="calibration__default"> (default {defaultGestureConfig.minDistance})</span>
+              </dd>
+              <dt>Cooldown</dt>
+              <dd>
+                {profile.gesture.cooldownMs}ms
+                <span className="calibration__default"> (default {defaultGestureConfig.cooldownMs}ms)</span>
+              </dd>
+              <dt>Hitbox</dt>
+              <dd>
+                {profile.hitboxRadius}
+                <span className="calibration__default"> (default {DEFAULT_HITBOX_RADIUS})</span>
+              </dd>
+            </dl>
+          </>
+        )}
+
+        {step === 'failed' && (
+          <>
+            <h2 className="calibration__title">Let's try that again</h2>
+            <p className="calibration__text">We couldn't get a clear read. Make sure your whole hand stays in view.</p>
+          </>
+        )}
+
+        <div className="calibration__actions">
+          {step === 'intro' && (
+            <button className="game-btn" onClick={handleRestart}>
+              Begin
+            </button>
+          )}
+          {step === 'review' && profile && (
+            <button className="game-btn" onClick={() => onComplete(profile)}>
+              {startsRound ? 'Save & Play' : 'Save'}
+            </button>
+          )}
+          {(step === 'review' || step === 'failed') && (
+            <button className="game-btn game-btn--secondary" onClick={handleRestart}>
+              Redo
+            </button>
+          )}
+          <button className="calibration__cancel" onClick={onCancel}>
+            {startsRound ? 'Skip for now' : 'Cancel'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,34 @@
 import { useEffect, useRef, useCallback, useState } from 'react'
-import { FruitGame } from '@/game'
+import {
+  BOMB_PENALTY,
+  DEFAULT_DIFFICULTY,
+  DEFAULT_FRUIT_CATALOG,
+  DEFAULT_HITBOX_RADIUS,
+  DEFAULT_SLICE_RULE,
+  FruitGame,
+  formatFruitPopup,
+  formatHitsLeftPopup,
+  formatMultiSlicePopup,
+  getDailySeed,
+  getFruitPoints,
+  getFruitPopupTone,
+  getPointsMultiplier,
+  getMultiSliceBonus,
+  hasComboLapsed,
+  missDecaysCombo,
+  type SliceResult,
+} from '@/game'
+import { SeededRNG, generateSeed } from '@/multiplayer/SeededRNG'
 import { useGestureDetection } from '@/services/useGestureDetection'
 import { useFallbackInput } from '@/services/useFallbackInput'
 import { useGameStore } from '@/state/gameStore'
 import { useInputModeStore } from '@/state/inputModeStore'
+import { useReplayStore } from '@/state/replayStore'
+import { useUserStore } from '@/state/userStore'
+import { useCalibrationStore } from '@/state/calibrationStore'
 import { GestureTrailCanvas } from '@/ui/components/GestureTrailCanvas'
 import { GameHUD } from '@/ui/components/GameHUD'
+import { GhostLane } from '@/ui/components/GhostLane'
 import type { GestureEvent } from '@/types'
 
 export const FruitLayer = () => {
@@ -13,21 +36,25 @@ export const FruitLayer = () => {
   const containerRef = useRef<HTMLDivElement>(null)
   const gameRef = useRef<FruitGame | undefined>(undefined)
   const resizeObserverRef = useRef<ResizeObserver | undefined>(undefined)
+  // Simulation tick of the last fruit sliced, for Zen's combo window
+  const lastSliceTickRef = useRef<number | null>(null)
   const { lastGesture } = useGestureDetection()
-  const { isPlaying, lives, registerSlice, registerGesture, setLives, endRound, resetCombo } = useGameStore()
+  const { isPlaying, phase, score, lives, gameMode, registerSlice, registerGesture, setLives, setLevel, setPowerUps, endRound, resetCombo, decayCombo } = useGameStore()
   const { inputMode, enableCameraMode } = useInputModeStore()
   const [bombHit, setBombHit] = useState(false)
   const [pointsDocked, setPointsDocked] = useState(false)
   const [fallbackGesture, setFallbackGesture] = useState<GestureEvent | null>(null)
+  const ghost = useReplayStore((state) => state.ghost)
   
   const isFallbackMode = inputMode === 'fallback'
+  const isPaused = phase === 'paused'
 
   // Callback for fallback input gestures
   const handleFallbackGesture = useCallback((gesture: GestureEvent) => {
-    if (!isPlaying) return
+    if (!isPlaying || isPaused) return
     setFallbackGesture(gesture)
     registerGesture(gesture)
-  }, [isPlaying, registerGesture])
+  }, [isPlaying, isPaused, registerGesture])
 
   // Set up fallback input
   const { attachTo: attachFallbackInput } = useFallbackInput({
@@ -53,6 +80,10 @@ export const FruitLayer = () => {
           ...fallbackGesture.origin,
           x: 1 - fallbackGesture.origin.x,
         },
+        previous: fallbackGesture.previous && {
+          ...fallbackGesture.previous,
+          x: 1 - fallbackGesture.previous.x,
+        },
         direction: {
           x: -fallbackGesture.direction.x,
           y: fallbackGesture.direction.y,
@@ -86,69 +117,185 @@ export const FruitLayer = () => {
     return () => observer.disconnect()
   }, [])
 
-  // Control spawning based on game state
+  // Control spawning based on game state; each round is seeded and recorded for replay
   useEffect(() => {
-    gameRef.current?.setSpawning(isPlaying)
-    if (!isPlaying) {
-      gameRef.current?.clearFruits()
+    const game = gameRef.current
+    if (!game) return
+
+    if (isPlaying) {
+      const { gameMode: mode, roundDuration, lives: startingLives } = useGameStore.getState()
+      // Daily rounds share the day's seed; racing a ghost means playing its exact fruit
+      const ghost = mode === 'solo' ? useReplayStore.getState().ghost : null
+      const seed = mode === 'daily' ? getDailySeed() : ghost?.seed ?? generateSeed()
+      const calibration = useCalibrationStore.getState().getProfile(useUserStore.getState().username)
+      game.setSliceHitboxRadius(calibration?.hitboxRadius ?? DEFAULT_HITBOX_RADIUS)
+      // A ghost keeps the curve, catalog and slice rule it was recorded with, so both lanes get the same fruit
+      if (mode === 'classic' || mode === 'zen') {
+        game.setDifficulty(mode)
+      } else {
+        game.setDifficulty(ghost ? ghost.settings.difficulty ?? 'constant' : DEFAULT_DIFFICULTY)
+      }
+      game.setFruitCatalog(ghost ? ghost.settings.fruitCatalog ?? 'uniform' : DEFAULT_FRUIT_CATALOG)
+      game.setSliceRule(ghost ? ghost.settings.sliceRule ?? 'nearest' : DEFAULT_SLICE_RULE)
+      game.reset(new SeededRNG(seed))
+      lastSliceTickRef.current = null
+      game.startRecording(seed, { mode, roundDuration, lives: startingLives })
+    } else {
+      const { score, phase } = useGameStore.getState()
+      const replay = game.stopRecording(score, useUserStore.getState().username || undefined)
+      // Rounds abandoned via the menu button aren't worth keeping
+      if (replay && phase === 'game-over') {
+        useReplayStore.getState().saveReplay(replay)
+      }
+      game.clearFruits()
     }
+    game.setSpawning(isPlaying)
   }, [isPlaying])
 
-  // Set up missed fruit callback to reset combo
+  // Pausing freezes physics but keeps every fruit where it is
+  useEffect(() => {
+    gameRef.current?.setTimeScale(isPaused ? 0 : 1)
+  }, [isPaused])
+
+  // Mirror the simulation's difficulty level into the store for the HUD
+  useEffect(() => {
+    const game = gameRef.current
+    if (!game) return
+    game.setOnLevelChange(setLevel)
+    return () => game.setOnLevelChange(null)
+  }, [setLevel])
+
+  // Same for power-up timers
+  useEffect(() => {
+    const game = gameRef.current
+    if (!game) return
+    game.setOnPowerUpChange(setPowerUps)
+    return () => game.setOnPowerUpChange(null)
+  }, [setPowerUps])
+
+  // Zen combos run out after a lull in slicing rather than on a miss
+  useEffect(() => {
+    const game = gameRef.current
+    if (!game || !isPlaying || gameMode !== 'zen') return
+    game.setOnTick((tick) => {
+      if (hasComboLapsed(gameMode, lastSliceTickRef.current, tick)) {
+        lastSliceTickRef.current = null
+        resetCombo()
+      }
+    })
+    return () => game.setOnTick(null)
+  }, [isPlaying, gameMode, resetCombo])
+
+  // Set up missed fruit callback to knock the combo down (and cost a life in Classic)
   useEffect(() => {
     const game = gameRef.current
     if (!game) return
     
     game.setOnFruitMissed(() => {
-      if (isPlaying) {
-        resetCombo()
+      // Several fruit can drop on the same tick; only the first of them may end the round
+      const state = useGameStore.getState()
+      if (!isPlaying || !state.isPlaying) return
+      if (missDecaysCombo(state.gameMode)) {
+        decayCombo()
+      }
+
+      if (state.gameMode === 'classic') {
+        const newLives = state.lives - 1
+        setLives(newLives)
+        setBombHit(true)
+        setTimeout(() => setBombHit(false), 600)
+        if (newLives <= 0) {
+          endRound()
+        }
       }
     })
     
     return () => {
       game.setOnFruitMissed(null)
     }
-  }, [isPlaying, resetCombo])
+  }, [isPlaying, decayCombo, setLives, endRound])
 
   const handleGesture = useCallback(() => {
-    if (!activeGesture || !isPlaying) return
-    const result = gameRef.current?.handleGesture(activeGesture)
-    if (result) {
+    const game = gameRef.current
+    if (!activeGesture || !isPlaying || isPaused || !game) return
+    const results = game.handleGesture(activeGesture)
+    if (!results.length) return
+
+    // A bomb that takes the last life ends the round; nothing after it in the swipe counts
+    const counted: SliceResult[] = []
+    let livesLeft = lives
+    for (const result of results) {
+      counted.push(result)
+      if (!result.isBomb) continue
+      // Every life in Classic
+      livesLeft = gameMode === 'classic' ? 0 : livesLeft - 1
+      if (livesLeft <= 0) break
+    }
+    const fruitCount = counted.filter((result) => !result.isBomb && result.hitsLeft === 0).length
+    const bonus = getMultiSliceBonus(gameMode, fruitCount)
+    let fruitsScored = 0
+
+    counted.forEach((result) => {
       if (result.isBomb) {
-        // Hit a bomb - lose a life, reset combo, and dock points!
-        const newLives = lives - 1
-        setLives(newLives)
+        // Hit a bomb - reset combo and dock points!
         resetCombo()
-        
-        // Dock 10 points for hitting a bomb
-        registerSlice({
+        const slice = {
           fruitId: result.fruitId,
-          scoreDelta: -10,
+          scoreDelta: -BOMB_PENALTY,
           slicedAt: Date.now(),
-        })
-        
-        // Trigger bomb hit visual feedback
-        setBombHit(true)
-        setPointsDocked(true)
-        setTimeout(() => {
-          setBombHit(false)
-          setPointsDocked(false)
-        }, 600)
-        
-        // End game if no lives left
-        if (newLives <= 0) {
-          endRound()
         }
-      } else {
-        const scoreDelta = 10
-        registerSlice({
-          fruitId: result.fruitId,
-          scoreDelta,
-          slicedAt: Date.now(),
-        })
+        registerSlice(slice)
+        game.recordSlice(slice)
+        game.showScorePopup(result.position, `-${BOMB_PENALTY}`, 'penalty')
+        return
+      }
+      // Tough fruit only score once they break open
+      if (result.hitsLeft > 0) {
+        game.showScorePopup(result.position, formatHitsLeftPopup(result.hitsLeft))
+        return
+      }
+
+      fruitsScored++
+      const combo = useGameStore.getState().combo + 1
+      const points = getFruitPoints(gameMode, combo, result.points, result.doublePoints)
+      const isLastFruit = fruitsScored === fruitCount
+      lastSliceTickRef.current = game.getTick()
+      // The multi-fruit bonus rides on the swipe's last fruit
+      const slice = {
+        fruitId: result.fruitId,
+        scoreDelta: isLastFruit ? points + bonus : points,
+        slicedAt: Date.now(),
+      }
+      registerSlice(slice)
+      game.recordSlice(slice)
+      game.showScorePopup(
+        result.position,
+        formatFruitPopup(points, getPointsMultiplier(gameMode, combo, result.doublePoints)),
+        getFruitPopupTone(result.points)
+      )
+      if (isLastFruit && bonus > 0) {
+        const { x, y, z } = result.position
+        game.showScorePopup({ x, y: y + 0.3, z }, formatMultiSlicePopup(fruitCount, bonus), 'bonus')
+      }
+    })
+
+    if (livesLeft !== lives) {
+      setLives(Math.max(0, livesLeft))
+
+      // Trigger bomb hit visual feedback
+      setBombHit(true)
+      setPointsDocked(true)
+      setTimeout(() => {
+        setBombHit(false)
+        setPointsDocked(false)
+      }, 600)
+
+      // End game if no lives left
+      if (livesLeft <= 0) {
+        endRound()
       }
     }
-  }, [activeGesture, isPlaying, lives, registerSlice, setLives, endRound, resetCombo])
+  }, [activeGesture, isPlaying, isPaused, lives, gameMode, registerSlice, setLives, endRound, resetCombo])
 
   useEffect(() => {
     handleGesture()
@@ -167,6 +314,7 @@ export const FruitLayer = () => {
       <canvas ref={canvasRef} className="playfield-fruit-canvas" />
       <GestureTrailCanvas gesture={activeGesture ?? null} />
       {isPlaying && <GameHUD bombHit={bombHit} pointsDocked={pointsDocked} />}
+      {isPlaying && gameMode === 'solo' && ghost && <GhostLane replay={ghost} playerScore={score} paused={isPaused} />}
       
       {/* Fallback mode indicator */}
       {isFallbackMode && isPlaying && (
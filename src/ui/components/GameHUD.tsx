@@ -1,4 +1,6 @@
-import { useGameStore } from '@/state/gameStore'
+import type { PowerUpKind } from '@/types'
+import { POWER_UP_KINDS, getComboMultiplier } from '@/game'
+import { selectModeHighScore, useGameStore } from '@/state/gameStore'
 
 const formatTime = (seconds: number): string => {
   const mins = Math.floor(seconds / 60)
@@ -6,16 +8,26 @@ const formatTime = (seconds: number): string => {
   return `${mins}:${secs.toString().padStart(2, '0')}`
 }
 
+const POWER_UP_LABELS: Record<PowerUpKind, { icon: string; label: string }> = {
+  freeze: { icon: '❄️', label: 'Freeze' },
+  frenzy: { icon: '🔥', label: 'Frenzy' },
+  double: { icon: '✖️2', label: 'Double' },
+}
+
 interface GameHUDProps {
   bombHit?: boolean
   pointsDocked?: boolean
 }
 
 export const GameHUD = ({ bombHit = false, pointsDocked = false }: GameHUDProps) => {
-  const { score, combo, lives, timeRemaining, roundDuration, highScore } = useGameStore()
+  const { score, combo, lives, level, powerUps, timeRemaining, roundDuration, gameMode } = useGameStore()
+  const highScore = useGameStore(selectModeHighScore)
+  const multiplier = getComboMultiplier(gameMode, combo)
+  // Classic has no clock: keep the ring full and show infinity
+  const isEndless = gameMode === 'classic'
   
-  const timerProgress = (timeRemaining / roundDuration) * 100
-  const isLowTime = timeRemaining <= 10
+  const timerProgress = isEndless ? 100 : (timeRemaining / roundDuration) * 100
+  const isLowTime = !isEndless && timeRemaining <= 10
   
   return (
     <div className="game-hud">
@@ -42,7 +54,7 @@ export const GameHUD = ({ bombHit = false, pointsDocked = false }: GameHUDProps)
             transform="rotate(-90 50 50)"
           />
         </svg>
-        <span className="hud-timer__value">{formatTime(timeRemaining)}</span>
+        <span className="hud-timer__value">{isEndless ? '∞' : formatTime(timeRemaining)}</span>
       </div>
 
       {/* Score */}
@@ -52,15 +64,18 @@ export const GameHUD = ({ bombHit = false, pointsDocked = false }: GameHUDProps)
           {score.toLocaleString()}
         </span>
         {combo > 1 && (
-          <span className="hud-score__combo">x{combo}</span>
+          <span className="hud-score__combo">
+            {combo} combo
+            {multiplier > 1 && <span className="hud-score__multiplier">×{multiplier}</span>}
+          </span>
         )}
         {pointsDocked && (
           <span className="hud-score__dock-indicator">-10</span>
         )}
       </div>
 
-      {/* Lives */}
-      <div className={`hud-lives ${bombHit ? 'hud-lives--hit' : ''}`}>
+      {/* Lives (kept in the layout but hidden in Zen, where nothing costs one) */}
+      <div className={`hud-lives ${bombHit ? 'hud-lives--hit' : ''} ${gameMode === 'zen' ? 'hud-lives--hidden' : ''}`}>
         {Array.from({ length: 3 }).map((_, i) => (
           <span
             key={i}
@@ -71,6 +86,30 @@ export const GameHUD = ({ bombHit = false, pointsDocked = false }: GameHUDProps)
         ))}
       </div>
 
+      {/* Difficulty Level */}
+      <div className="hud-level">
+        <span className="hud-level__label">Level</span>
+        <span className="hud-level__value">{level}</span>
+      </div>
+
+      {/* Keyed by level so the callout replays on every level-up */}
+      {level > 1 && (
+        <div key={level} className="hud-level-up">
+          Level {level}!
+        </div>
+      )}
+
+      {/* Power-up timers */}
+      <div className="hud-powerups">
+        {POWER_UP_KINDS.filter((kind) => powerUps[kind] !== undefined).map((kind) => (
+          <div key={kind} className={`hud-powerup hud-powerup--${kind}`}>
+            <span className="hud-powerup__icon">{POWER_UP_LABELS[kind].icon}</span>
+            <span className="hud-powerup__label">{POWER_UP_LABELS[kind].label}</span>
+            <span className="hud-powerup__time">{powerUps[kind]}s</span>
+          </div>
+        ))}
+      </div>
+
       {/* High Score Badge */}
       {highScore > 0 && (
         <div className="hud-highscore">
@@ -1,23 +1,62 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { useGameStore } from '@/state/gameStore'
+import { selectModeHighScore, useGameStore, ZEN_ROUND_DURATIONS } from '@/state/gameStore'
 import { useUserStore } from '@/state/userStore'
 import { useMultiplayerStore } from '@/state/multiplayerStore'
+import { useReplayStore } from '@/state/replayStore'
+import { useDailyStore } from '@/state/dailyStore'
+import { useActiveCalibration } from '@/state/calibrationStore'
 import { submitScore, getPlayerRank } from '@/services/leaderboardService'
 import { isFirebaseEnabled } from '@/services/firebase'
+import { useGestureMenu } from '@/services/useGestureMenu'
 import { getRoomCodeFromUrl, clearInviteFromUrl } from '@/multiplayer/useInviteLink'
+import { decodeReplayFile, REPLAY_BINARY_EXTENSION, REPLAY_JSON_EXTENSION, type Replay } from '@/game'
 import { UsernamePrompt } from './UsernamePrompt'
 import { Leaderboard } from './Leaderboard'
 import { MultiplayerMenu } from './MultiplayerMenu'
+import { ReplayViewer } from './ReplayViewer'
 
 interface StartScreenProps {
   onStart: () => void
+  /** Open the calibration wizard (camera mode only) */
+  onCalibrate?: () => void
 }
 
-export const StartScreen = ({ onStart }: StartScreenProps) => {
-  const { highScore, gameMode, setGameMode } = useGameStore()
+export const StartScreen = ({ onStart, onCalibrate }: StartScreenProps) => {
+  const { gameMode, setGameMode, zenRoundDuration, setZenRoundDuration } = useGameStore()
+  const highScore = useGameStore(selectModeHighScore)
   const { pendingRoomCode, setPendingRoomCode } = useMultiplayerStore()
   const [showLeaderboard, setShowLeaderboard] = useState(false)
   const [showMultiplayerMenu, setShowMultiplayerMenu] = useState(false)
+  const [importedReplay, setImportedReplay] = useState<Replay | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const replayInputRef = useRef<HTMLInputElement>(null)
+  const { personalBest, ghost, setGhost } = useReplayStore()
+  const { lastAttemptScore, bestStreak, hasPlayedToday, getStreak } = useDailyStore()
+  const playedToday = hasPlayedToday()
+  const calibration = useActiveCalibration()
+  const streak = getStreak()
+  const overlayRef = useRef<HTMLDivElement>(null)
+  useGestureMenu(overlayRef)
+
+  const handleRaceGhost = useCallback((replay: Replay) => {
+    setGhost(replay)
+    setGameMode('solo')
+    setShowLeaderboard(false)
+  }, [setGhost, setGameMode])
+
+  const handleReplayFile = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = '' // Allow picking the same file again
+    if (!file) return
+
+    const result = decodeReplayFile(await file.arrayBuffer())
+    if ('file' in result) {
+      setImportError(null)
+      setImportedReplay(result.file.replay)
+    } else {
+      setImportError(`Couldn't open that replay file: ${result.errors[0]}`)
+    }
+  }, [])
   
   // Check for invite link on mount and auto-open multiplayer menu
   useEffect(() => {
@@ -39,7 +78,17 @@ export const StartScreen = ({ onStart }: StartScreenProps) => {
   }, [pendingRoomCode, showMultiplayerMenu, setGameMode])
 
   if (showLeaderboard) {
-    return <Leaderboard onClose={() => setShowLeaderboard(false)} initialMode={gameMode} />
+    return (
+      <Leaderboard
+        onClose={() => setShowLeaderboard(false)}
+        initialMode={gameMode}
+        onRaceGhost={handleRaceGhost}
+      />
+    )
+  }
+
+  if (importedReplay) {
+    return <ReplayViewer replay={importedReplay} onClose={() => setImportedReplay(null)} />
   }
 
   if (showMultiplayerMenu) {
@@ -50,13 +99,15 @@ export const StartScreen = ({ onStart }: StartScreenProps) => {
   }
 
   return (
-    <div className="game-screen-overlay">
+    <div className="game-screen-overlay" ref={overlayRef}>
       <div className="game-screen">
         <div className="game-screen__icon">🍉</div>
         <h1 className="game-screen__title">Froot Ninja</h1>
         <p className="game-screen__subtitle">
           Slice fruits with your hands!<br />
-          30 seconds to score as high as you can.
+          {gameMode === 'classic' && 'No clock. Every dropped fruit costs a life, and bombs end it all.'}
+          {gameMode === 'zen' && 'No bombs, no penalties. Keep a combo going for bigger points.'}
+          {gameMode !== 'classic' && gameMode !== 'zen' && '30 seconds to score as high as you can.'}
         </p>
 
         {/* Mode Selection */}
@@ -75,8 +126,60 @@ export const StartScreen = ({ onStart }: StartScreenProps) => {
             <span className="game-mode-btn__icon">👥</span>
             <span className="game-mode-btn__label">Multi</span>
           </button>
+          <button
+            className={`game-mode-btn ${gameMode === 'daily' ? 'game-mode-btn--active' : ''}`}
+            onClick={() => setGameMode('daily')}
+          >
+            <span className="game-mode-btn__icon">📅</span>
+            <span className="game-mode-btn__label">Daily</span>
+          </button>
+          <button
+            className={`game-mode-btn ${gameMode === 'classic' ? 'game-mode-btn--active' : ''}`}
+            onClick={() => setGameMode('classic')}
+          >
+            <span className="game-mode-btn__icon">♾️</span>
+            <span className="game-mode-btn__label">Classic</span>
+          </button>
+          <button
+            className={`game-mode-btn ${gameMode === 'zen' ? 'game-mode-btn--active' : ''}`}
+            onClick={() => setGameMode('zen')}
+          >
+            <span className="game-mode-btn__icon">🧘</span>
+            <span className="game-mode-btn__label">Zen</span>
+          </button>
         </div>
 
+        {gameMode === 'zen' && (
+          <div className="game-screen__durations" role="radiogroup" aria-label="Round length">
+            {ZEN_ROUND_DURATIONS.map((seconds) => (
+              <button
+                key={seconds}
+                role="radio"
+                aria-checked={zenRoundDuration === seconds}
+                className={`game-screen__duration ${zenRoundDuration === seconds ? 'game-screen__duration--active' : ''}`}
+                onClick={() => setZenRoundDuration(seconds)}
+              >
+                {seconds >= 120 ? `${seconds / 60} min` : `${seconds}s`}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {gameMode === 'daily' && (
+          <div className="game-screen__daily">
+            <span className="game-screen__daily-info">
+              {playedToday
+                ? "Today's ranked run is done. Practice runs aren't ranked."
+                : 'Same fruit for everyone today. One ranked attempt!'}
+            </span>
+            {streak > 0 && (
+              <span className="game-screen__daily-streak">
+                🔥 {streak} day{streak === 1 ? '' : 's'} streak · best {bestStreak}
+              </span>
+            )}
+          </div>
+        )}
+
         <button 
           className="game-btn" 
           onClick={() => {
@@ -87,16 +190,48 @@ export const StartScreen = ({ onStart }: StartScreenProps) => {
             }
           }}
         >
-          Start Game
+          {gameMode === 'daily' ? (playedToday ? 'Practice' : "Play Today's Challenge") : 'Start Game'}
         </button>
 
-        {highScore > 0 && gameMode === 'solo' && (
+        {highScore > 0 && (gameMode === 'solo' || gameMode === 'zen' || gameMode === 'classic') && (
           <div className="game-screen__highscore">
             <span className="game-screen__highscore-label">High Score</span>
             <span className="game-screen__highscore-value">{highScore.toLocaleString()}</span>
           </div>
         )}
 
+        {gameMode === 'daily' && playedToday && lastAttemptScore !== null && (
+          <div className="game-screen__highscore">
+            <span className="game-screen__highscore-label">Today's Score</span>
+            <span className="game-screen__highscore-value">{lastAttemptScore.toLocaleString()}</span>
+          </div>
+        )}
+
+        {gameMode === 'solo' && (ghost || personalBest) && (
+          <div className="game-screen__ghost-picker">
+            {ghost ? (
+              <span className="game-screen__ghost-chip">
+                👻 Racing {ghost.playerName ?? 'ghost'} · {ghost.finalScore.toLocaleString()}
+                <button
+                  className="game-screen__ghost-clear"
+                  onClick={() => setGhost(null)}
+                  aria-label="Stop racing ghost"
+                >
+                  ✕
+                </button>
+              </span>
+            ) : personalBest && (
+              <button
+                className="game-screen__rankings-btn"
+                onClick={() => setGhost(personalBest)}
+              >
+                <span>👻</span>
+                <span>Race your best ({personalBest.finalScore.toLocaleString()})</span>
+              </button>
+            )}
+          </div>
+        )}
+
         <button 
           className="game-screen__rankings-btn"
           onClick={() => setShowLeaderboard(true)}
@@ -104,6 +239,32 @@ export const StartScreen = ({ onStart }: StartScreenProps) => {
           <span>🏆</span>
           <span>Rankings</span>
         </button>
+
+        {onCalibrate && (
+          <button
+            className="game-screen__rankings-btn"
+            onClick={onCalibrate}
+          >
+            <span>🎯</span>
+            <span>{calibration ? 'Recalibrate' : 'Calibrate'}</span>
+          </button>
+        )}
+
+        <button 
+          className="game-screen__rankings-btn"
+          onClick={() => replayInputRef.current?.click()}
+        >
+          <span>🎬</span>
+          <span>Open Replay</span>
+        </button>
+        <input
+          ref={replayInputRef}
+          type="file"
+          accept={`${REPLAY_BINARY_EXTENSION},${REPLAY_JSON_EXTENSION},.json`}
+          onChange={handleReplayFile}
+          hidden
+        />
+        {importError && <p className="game-screen__import-error">{importError}</p>}
       </div>
     </div>
   )
@@ -115,27 +276,36 @@ interface GameOverScreenProps {
   isNewHighScore: boolean
 }
 
-type GameOverView = 'username' | 'results' | 'leaderboard'
+type GameOverView = 'username' | 'results' | 'leaderboard' | 'replay'
 
 // Compute initial view synchronously to avoid setState-in-effect
-const getInitialView = (username: string, score: number): GameOverView => {
-  if (!username && isFirebaseEnabled() && score > 0) {
+const getInitialView = (username: string, score: number, isRanked: boolean): GameOverView => {
+  if (!username && isFirebaseEnabled() && score > 0 && isRanked) {
     return 'username'
   }
   return 'results'
 }
 
 export const GameOverScreen = ({ onRestart, onChangeMode, isNewHighScore }: GameOverScreenProps) => {
-  const { score, highScore, combo, gameMode, challengeTarget, lives } = useGameStore()
+  const { score, combo, gameMode, challengeTarget, lives, level } = useGameStore()
+  const highScore = useGameStore(selectModeHighScore)
   const diedFromBombs = lives <= 0
   const { username, setUsername } = useUserStore()
-  const [view, setView] = useState<GameOverView>(() => getInitialView(username, score))
+  const { isRankedRound, getStreak } = useDailyStore()
+  // Daily practice runs after the day's ranked attempt stay off the leaderboard
+  const isRanked = gameMode !== 'daily' || isRankedRound
+  const [view, setView] = useState<GameOverView>(() => getInitialView(username, score, isRanked))
   const [rank, setRank] = useState<number>(0)
   const [hasSubmitted, setHasSubmitted] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [shareStatus, setShareStatus] = useState<'idle' | 'copied'>('idle')
+  const replay = useReplayStore((state) => state.lastReplays[gameMode] ?? null)
+  const ghost = useReplayStore((state) => state.ghost)
+  const ghostBeaten = ghost !== null && score > ghost.finalScore
 
   const challengeWon = challengeTarget !== null && score > challengeTarget
+  const overlayRef = useRef<HTMLDivElement>(null)
+  useGestureMenu(overlayRef, { onBack: onChangeMode })
 
   const handleShareChallenge = useCallback(async () => {
     const challengeUrl = `${window.location.origin}${window.location.pathname}?challenge=${score}`
@@ -172,7 +342,9 @@ export const GameOverScreen = ({ onRestart, onChangeMode, isNewHighScore }: Game
     setIsSubmitting(true)
     setUsername(name)
     
-    const success = await submitScore(name, score, gameMode)
+    // Attach the run so others can race it as a ghost
+    const replay = useReplayStore.getState().getLastReplay(gameMode)
+    const success = await submitScore(name, score, gameMode, replay?.finalScore === score ? replay : null)
     if (success) {
       const playerRank = await getPlayerRank(score, gameMode)
       setRank(playerRank)
@@ -191,12 +363,12 @@ export const GameOverScreen = ({ onRestart, onChangeMode, isNewHighScore }: Game
   const hasAutoSubmitted = useRef(false)
   useEffect(() => {
     if (hasAutoSubmitted.current) return
-    if (username && isFirebaseEnabled() && score > 0 && !hasSubmitted) {
+    if (username && isFirebaseEnabled() && score > 0 && isRanked && !hasSubmitted) {
       hasAutoSubmitted.current = true
       // Intentionally calling setState in effect for auto-submit flow
       handleScoreSubmit(username) // eslint-disable-line react-hooks/set-state-in-effect
     }
-  }, [username, score, hasSubmitted, handleScoreSubmit])
+  }, [username, score, isRanked, hasSubmitted, handleScoreSubmit])
 
   // Username prompt view
   if (view === 'username') {
@@ -225,9 +397,14 @@ export const GameOverScreen = ({ onRestart, onChangeMode, isNewHighScore }: Game
     )
   }
 
+  // Replay view
+  if (view === 'replay' && replay) {
+    return <ReplayViewer replay={replay} onClose={() => setView('results')} />
+  }
+
   // Results view
   return (
-    <div className="game-screen-overlay">
+    <div className="game-screen-overlay" ref={overlayRef}>
       <div className="game-screen">
         <div className="game-screen__icon">{diedFromBombs ? '💥' : '⏱️'}</div>
         <h1 className="game-screen__title">{diedFromBombs ? 'Game Over!' : "Time's Up!"}</h1>
@@ -239,6 +416,24 @@ export const GameOverScreen = ({ onRestart, onChangeMode, isNewHighScore }: Game
           </div>
         )}
 
+        {gameMode === 'daily' && (
+          <div className={`game-screen__daily-result ${isRanked ? '' : 'game-screen__daily-result--practice'}`}>
+            <span>📅</span>
+            <span>
+              {isRanked ? `Daily done · 🔥 ${getStreak()} day streak` : 'Practice run · not ranked'}
+            </span>
+          </div>
+        )}
+
+        {gameMode === 'solo' && ghost && (
+          <div className={`game-screen__challenge-result ${ghostBeaten ? 'game-screen__challenge-result--won' : 'game-screen__challenge-result--lost'}`}>
+            <span>👻</span>
+            <span>
+              {ghostBeaten ? 'Beat' : 'Lost to'} {ghost.playerName ?? 'the ghost'} ({ghost.finalScore.toLocaleString()})
+            </span>
+          </div>
+        )}
+
         {isNewHighScore && (
           <div className="game-screen__new-record">
             <span>🏆</span>
@@ -257,6 +452,12 @@ export const GameOverScreen = ({ onRestart, onChangeMode, isNewHighScore }: Game
             <span className="game-screen__stat-value">{combo}</span>
             <span className="game-screen__stat-label">Best Combo</span>
           </div>
+          {gameMode === 'classic' && (
+            <div className="game-screen__stat">
+              <span className="game-screen__stat-value">{level}</span>
+              <span className="game-screen__stat-label">Level Reached</span>
+            </div>
+          )}
           {rank > 0 && (
             <div className="game-screen__stat">
               <span className="game-screen__stat-value">#{rank}</span>
@@ -283,6 +484,16 @@ export const GameOverScreen = ({ onRestart, onChangeMode, isNewHighScore }: Game
               <span className="icon-btn__label">{shareStatus === 'copied' ? 'Copied' : 'Share'}</span>
             </button>
           )}
+          {replay && (
+            <button 
+              className="icon-btn"
+              onClick={() => setView('replay')}
+              title="Watch replay"
+            >
+              <span className="icon-btn__icon">🎬</span>
+              <span className="icon-btn__label">Replay</span>
+            </button>
+          )}
           <button 
             className="icon-btn"
             onClick={() => setView('leaderboard')}
@@ -2,6 +2,7 @@ import { useMemo, useState, useEffect } from 'react'
 import { useHandData } from '@/cv'
 import { useGestureDetection } from '@/services/useGestureDetection'
 import { useGameStore } from '@/state/gameStore'
+import { useTrackingFilterStore } from '@/state/trackingFilterStore'
 import { Leaderboard } from './Leaderboard'
 
 interface GestureDebugPanelProps {
@@ -47,6 +48,66 @@ const ProgressBar = ({
   )
 }
 
+const FilterSlider = ({
+  label,
+  value,
+  min,
+  max,
+  step,
+  unit = '',
+  onChange,
+}: {
+  label: string
+  value: number
+  min: number
+  max: number
+  step: number
+  unit?: string
+  onChange: (value: number) => void
+}) => (
+  <label className="filter-settings__row">
+    <span className="filter-settings__label">{label}</span>
+    <input
+      className="filter-settings__slider"
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(event) => onChange(Number(event.target.value))}
+    />
+    <span className="filter-settings__value">{value}{unit}</span>
+  </label>
+)
+
+/** One Euro smoothing and prediction applied to every landmark before gestures are read */
+const TrackingFilterSettings = () => {
+  const { enabled, minCutoff, beta, derivativeCutoff, predictionMs, setFilter, resetFilter } = useTrackingFilterStore()
+
+  return (
+    <div className="filter-settings">
+      <div className="filter-settings__header">
+        <span className="section-label">Tracking Filter</span>
+        <label className="filter-settings__toggle">
+          <input type="checkbox" checked={enabled} onChange={(event) => setFilter({ enabled: event.target.checked })} />
+          <span>{enabled ? 'On' : 'Off'}</span>
+        </label>
+      </div>
+      {enabled && (
+        <>
+          <FilterSlider label="Min cutoff" value={minCutoff} min={0.1} max={5} step={0.1} unit="Hz" onChange={(value) => setFilter({ minCutoff: value })} />
+          <FilterSlider label="Beta" value={beta} min={0} max={20} step={0.5} onChange={(value) => setFilter({ beta: value })} />
+          <FilterSlider label="Velocity cutoff" value={derivativeCutoff} min={0.1} max={5} step={0.1} unit="Hz" onChange={(value) => setFilter({ derivativeCutoff: value })} />
+          <FilterSlider label="Prediction" value={predictionMs} min={0} max={60} step={5} unit="ms" onChange={(value) => setFilter({ predictionMs: value })} />
+          <button className="filter-settings__reset" onClick={resetFilter}>
+            Reset to defaults
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
+
 const DirectionIndicator = ({ x, y }: { x: number; y: number }) => {
   const angle = Math.atan2(y, x) * (180 / Math.PI)
   const magnitude = Math.min(Math.hypot(x, y) * 30, 25)
@@ -67,8 +128,8 @@ const DirectionIndicator = ({ x, y }: { x: number; y: number }) => {
 }
 
 export const GestureDebugPanel = ({ isOpen, onToggle }: GestureDebugPanelProps) => {
-  const { frame, maxHands } = useHandData()
-  const { lastGesture } = useGestureDetection()
+  const { frame, maxHands, detectorKind } = useHandData()
+  const { lastGesture, lastPose } = useGestureDetection()
   const { score, combo, highScore, gameMode } = useGameStore()
   const [totalSlices, setTotalSlices] = useState(0)
   const [maxCombo, setMaxCombo] = useState(0)
@@ -126,6 +187,12 @@ export const GestureDebugPanel = ({ isOpen, onToggle }: GestureDebugPanelProps)
             <div className={`gesture-pill ${lastGesture?.type === 'slice' ? 'gesture-pill--active' : ''}`}>
               {lastGesture ? lastGesture.type : 'idle'}
             </div>
+            {lastPose && <div className="gesture-pill">{lastPose.type}</div>}
+            {detectorKind && (
+              <div className="gesture-pill" title="Where hand detection runs">
+                {detectorKind === 'worker' ? 'worker' : 'main thread'}
+              </div>
+            )}
             <div className={`tracking-pill ${handsDetected > 0 ? 'tracking-pill--active' : ''}`}>
               <span className="tracking-pill__dot" />
               <span>{handsDetected}/{maxHands} hands</span>
@@ -221,6 +288,8 @@ export const GestureDebugPanel = ({ isOpen, onToggle }: GestureDebugPanelProps)
             </div>
           </div>
         )}
+
+        <TrackingFilterSettings />
       </div>
     </aside>
   )
@@ -0,0 +1,98 @@
+/**
+ * GhostLane Component
+ * Runs a recorded round next to a solo round. Same seed means the same fruit,
+ * and the ghost's recorded slices play out on a second FruitGame the same way
+ * the opponent view does in multiplayer.
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { FruitGame, type Replay } from '@/game'
+import { SeededRNG } from '@/multiplayer/SeededRNG'
+
+interface GhostLaneProps {
+  replay: Replay
+  playerScore: number
+  /** Freeze the ghost along with a paused round */
+  paused?: boolean
+}
+
+export const GhostLane = ({ replay, playerScore, paused = false }: GhostLaneProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const gameRef = useRef<FruitGame | null>(null)
+  const [ghostScore, setGhostScore] = useState(0)
+  const [finished, setFinished] = useState(false)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const game = new FruitGame(canvas)
+    game.setSoundEnabled(false)
+    game.setDifficulty(replay.settings.difficulty ?? 'constant')
+    game.setFruitCatalog(replay.settings.fruitCatalog ?? 'uniform')
+    game.reset(new SeededRNG(replay.seed))
+    game.setSpawning(true)
+
+    // Where the ghost's hand was when each slice landed (fallback if an ID doesn't match)
+    const origins = new Map<number, { x: number; y: number }>()
+    replay.gestures.forEach(({ tick, gesture }) => origins.set(tick, gesture.origin))
+
+    let sliceIndex = 0
+    let pointIndex = 0
+    game.setOnTick((tick) => {
+      const { slices, scoreTimeline } = replay
+      while (sliceIndex < slices.length && slices[sliceIndex].tick <= tick) {
+        const { slice, tick: sliceTick } = slices[sliceIndex]
+        const origin = origins.get(sliceTick) ?? { x: 0.5, y: 0.5 }
+        game.triggerSliceEffectById(slice.fruitId, origin.x, origin.y)
+        sliceIndex++
+      }
+
+      let score: number | null = null
+      while (pointIndex < scoreTimeline.length && scoreTimeline[pointIndex].tick <= tick) {
+        score = scoreTimeline[pointIndex].score
+        pointIndex++
+      }
+      if (score !== null) setGhostScore(score)
+
+      if (tick >= replay.durationTicks) {
+        game.setOnTick(null)
+        game.setSpawning(false)
+        game.clearFruits()
+        setFinished(true)
+      }
+    })
+
+    game.start()
+    game.syncViewport()
+    gameRef.current = game
+
+    return () => {
+      game.setOnTick(null)
+      game.dispose()
+      gameRef.current = null
+    }
+  }, [replay])
+
+  useEffect(() => {
+    gameRef.current?.setTimeScale(paused ? 0 : 1)
+  }, [paused])
+
+  const lead = playerScore - ghostScore
+
+  return (
+    <div
+      className="ghost-lane multiplayer-playfield__opponent-game"
+      style={{ aspectRatio: `${replay.settings.aspect}` }}
+    >
+      <canvas ref={canvasRef} className="multiplayer-playfield__canvas" />
+      <div className="multiplayer-playfield__opponent-score">{ghostScore.toLocaleString()}</div>
+      <div className={`ghost-lane__lead ${lead > 0 ? 'ghost-lane__lead--ahead' : lead < 0 ? 'ghost-lane__lead--behind' : ''}`}>
+        {lead === 0 ? 'Tied' : lead > 0 ? `+${lead} ahead` : `${lead} behind`}
+      </div>
+      <div className="multiplayer-playfield__label">
+        👻 {replay.playerName ?? 'Ghost'}{finished && ' · done'}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+/**
+ * HandCursor Component
+ * A cursor that follows the index fingertip over menus; resting it on any
+ * button, link or field for a moment, or pinching over it, presses it
+ */
+
+import { useEffect, useRef } from 'react'
+import { useHandData } from '@/cv'
+import { useGameStore } from '@/state/gameStore'
+import { useMultiplayerStore } from '@/state/multiplayerStore'
+import { useInputModeStore } from '@/state/inputModeStore'
+import { INDEX_FINGER_TIP } from '@/services/gestureController'
+import { DWELL_CLICK_MS, HAND_HOVER_ATTR, NO_DWELL_ATTR, getCursorTarget, handToViewport } from '@/services/handCursor'
+
+// Share of the way the cursor moves toward the fingertip each frame; takes the edge off tracking jitter
+const SMOOTHING = 0.35
+
+interface DwellState {
+  position: { x: number; y: number } | null
+  target: HTMLElement | null
+  hoverSince: number
+  /** The target was already pressed; the cursor has to leave it before it can be pressed again */
+  pressed: boolean
+}
+
+const press = (dwell: DwellState) => {
+  dwell.target?.focus()
+  dwell.target?.click()
+  dwell.pressed = true
+}
+
+export const HandCursor = () => {
+  const { frame, status } = useHandData()
+  const inputMode = useInputModeStore((state) => state.inputMode)
+  const phase = useGameStore((state) => state.phase)
+  const lastPose = useGameStore((state) => state.lastPose)
+  // Poses made before the cursor showed up aren't meant for it
+  const handledPoseIdRef = useRef(lastPose?.id)
+  const roomState = useMultiplayerStore((state) => state.roomState)
+  const cursorRef = useRef<HTMLDivElement>(null)
+  const dwellRef = useRef<DwellState>({ position: null, target: null, hoverSince: 0, pressed: false })
+
+  // Off mid-round, where the same hand is busy slicing, and during calibration, where it's reaching and swiping
+  const isHandBusy = phase === 'running' || phase === 'calibrating' || roomState === 'countdown' || roomState === 'playing'
+  const enabled = inputMode === 'camera' && status === 'ready' && !isHandBusy
+
+  useEffect(() => {
+    const cursor = cursorRef.current
+    const dwell = dwellRef.current
+    const setTarget = (target: HTMLElement | null, timestamp: number) => {
+      if (target === dwell.target) return
+      dwell.target?.removeAttribute(HAND_HOVER_ATTR)
+      target?.setAttribute(HAND_HOVER_ATTR, '')
+      dwell.target = target
+      dwell.hoverSince = timestamp
+      dwell.pressed = false
+    }
+
+    const tip = enabled ? frame?.hands[0]?.landmarks[INDEX_FINGER_TIP] : undefined
+    if (!cursor || !frame || !tip) {
+      setTarget(null, 0)
+      dwell.position = null
+      cursor?.classList.add('hand-cursor--hidden')
+      return
+    }
+
+    const point = handToViewport(tip)
+    const position = dwell.position
+      ? {
+          x: dwell.position.x + (point.x - dwell.position.x) * SMOOTHING,
+          y: dwell.position.y + (point.y - dwell.position.y) * SMOOTHING,
+        }
+      : point
+    dwell.position = position
+    setTarget(getCursorTarget(position.x, position.y), frame.timestamp)
+
+    const canDwell = dwell.target && !dwell.pressed && !dwell.target.hasAttribute(NO_DWELL_ATTR)
+    let progress = canDwell ? (frame.timestamp - dwell.hoverSince) / DWELL_CLICK_MS : 0
+    if (progress >= 1) {
+      press(dwell)
+      progress = 0
+    }
+
+    cursor.classList.remove('hand-cursor--hidden')
+    cursor.classList.toggle('hand-cursor--hovering', dwell.target !== null)
+    cursor.style.transform = `translate(${position.x}px, ${position.y}px)`
+    cursor.style.setProperty('--dwell-progress', String(Math.min(1, progress)))
+  }, [frame, enabled])
+
+  // A pinch presses whatever the cursor is on straight away
+  useEffect(() => {
+    if (!lastPose || lastPose.id === handledPoseIdRef.current) return
+    handledPoseIdRef.current = lastPose.id
+    const dwell = dwellRef.current
+    if (enabled && lastPose.type === 'pinch' && dwell.target) press(dwell)
+  }, [lastPose, enabled])
+
+  // Don't leave a hover highlight behind
+  useEffect(() => {
+    const dwell = dwellRef.current
+    return () => dwell.target?.removeAttribute(HAND_HOVER_ATTR)
+  }, [])
+
+  return (
+    <div ref={cursorRef} className="hand-cursor hand-cursor--hidden" aria-hidden="true">
+      <svg className="hand-cursor__ring" viewBox="0 0 40 40">
+        <circle className="hand-cursor__track" cx="20" cy="20" r="17" />
+        <circle className="hand-cursor__progress" cx="20" cy="20" r="17" pathLength="1" />
+      </svg>
+      <span className="hand-cursor__dot" />
+    </div>
+  )
+}
@@ -1,6 +1,8 @@
 import { useEffect, useState, useCallback } from 'react'
-import { getTopScores, type LeaderboardEntry } from '@/services/leaderboardService'
+import { getTopScores, getEntryReplay, type LeaderboardEntry } from '@/services/leaderboardService'
 import { isFirebaseEnabled } from '@/services/firebase'
+import { useDailyStore } from '@/state/dailyStore'
+import type { Replay } from '@/game'
 import type { GameMode } from '@/types'
 
 interface LeaderboardProps {
@@ -9,11 +11,16 @@ interface LeaderboardProps {
   highlightRank?: number
   initialMode?: GameMode
   highlightMode?: GameMode
+  /** Offer to race solo entries that have a replay attached */
+  onRaceGhost?: (replay: Replay) => void
 }
 
 const MODE_TABS: { id: GameMode; label: string; icon: string }[] = [
   { id: 'solo', label: 'Solo', icon: '👤' },
   { id: 'multiplayer', label: 'Multiplayer', icon: '👥' },
+  { id: 'daily', label: 'Today', icon: '📅' },
+  { id: 'classic', label: 'Classic', icon: '♾️' },
+  { id: 'zen', label: 'Zen', icon: '🧘' },
 ]
 
 export const Leaderboard = ({
@@ -22,11 +29,15 @@ export const Leaderboard = ({
   highlightRank,
   initialMode = 'solo',
   highlightMode,
+  onRaceGhost,
 }: LeaderboardProps) => {
   const [selectedMode, setSelectedMode] = useState<GameMode>(initialMode)
   const [entries, setEntries] = useState<LeaderboardEntry[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [loadingGhostId, setLoadingGhostId] = useState<string | null>(null)
+  const { bestStreak, getStreak } = useDailyStore()
+  const streak = getStreak()
 
   const fetchScores = useCallback(async (mode: GameMode) => {
     if (!isFirebaseEnabled()) {
@@ -49,6 +60,19 @@ export const Leaderboard = ({
     }
   }, [])
 
+  const handleRaceGhost = useCallback(async (entry: LeaderboardEntry) => {
+    if (!onRaceGhost || loadingGhostId) return
+
+    setLoadingGhostId(entry.id)
+    const replay = await getEntryReplay(entry.id)
+    setLoadingGhostId(null)
+    if (replay) {
+      onRaceGhost({ ...replay, playerName: replay.playerName ?? entry.username })
+    } else {
+      setError("Couldn't load that replay")
+    }
+  }, [onRaceGhost, loadingGhostId])
+
   useEffect(() => {
     fetchScores(selectedMode)
   }, [fetchScores, selectedMode])
@@ -84,6 +108,12 @@ export const Leaderboard = ({
         </div>
 
         <div className="leaderboard__content">
+          {selectedMode === 'daily' && (
+            <span className="leaderboard__streak">
+              {streak > 0 ? `🔥 ${streak} day streak · best ${bestStreak}` : 'Play today to start a streak'}
+            </span>
+          )}
+
           {loading && (
             <div className="leaderboard__loading">
               <span className="leaderboard__spinner">🍉</span>
@@ -116,7 +146,9 @@ export const Leaderboard = ({
           {!loading && !error && entries.length === 0 && (
             <div className="leaderboard__empty">
               <span>🎮</span>
-              <span>No {selectedMode === 'solo' ? 'solo' : 'multiplayer'} scores yet. Be the first!</span>
+              <span>
+                {selectedMode === 'daily' ? 'No scores today yet' : `No ${selectedMode} scores yet`}. Be the first!
+              </span>
             </div>
           )}
 
@@ -139,7 +171,19 @@ export const Leaderboard = ({
                     <span className={`leaderboard__rank ${rank <= 3 ? `leaderboard__rank--${rank}` : ''}`}>
                       {rank === 1 ? '🥇' : rank === 2 ? '🥈' : rank === 3 ? '🥉' : `#${rank}`}
                     </span>
-                    <span className="leaderboard__username">{entry.username}</span>
+                    <span className="leaderboard__username">
+                      {entry.username}
+                      {onRaceGhost && entry.hasReplay && entry.gameMode === 'solo' && (
+                        <button
+                          className="leaderboard__race-btn"
+                          onClick={() => handleRaceGhost(entry)}
+                          disabled={loadingGhostId !== null}
+                          title={`Race ${entry.username}'s run`}
+                        >
+                          {loadingGhostId === entry.id ? '…' : '👻 Race'}
+                        </button>
+                      )}
+                    </span>
                     <span className="leaderboard__score">{entry.score.toLocaleString()}</span>
                   </div>
                 )
@@ -5,8 +5,11 @@
 
 import { useEffect, useState, useRef } from 'react'
 import { useUserStore } from '@/state/userStore'
+import { useReplayStore } from '@/state/replayStore'
 import { submitScore } from '@/services/leaderboardService'
 import { isFirebaseEnabled } from '@/services/firebase'
+import type { RatingChange } from '@/multiplayer/types'
+import { ReplayViewer } from './ReplayViewer'
 
 interface MultiplayerGameOverProps {
   myScore: number
@@ -16,6 +19,7 @@ interface MultiplayerGameOverProps {
   opponentName: string
   isWinner: boolean
   isTie: boolean
+  ratingChange?: RatingChange | null
   onRematch: () => void
   onLeave: () => void
 }
@@ -100,6 +104,7 @@ export const MultiplayerGameOver = ({
   opponentName,
   isWinner,
   isTie,
+  ratingChange,
   onRematch,
   onLeave,
 }: MultiplayerGameOverProps) => {
@@ -107,6 +112,8 @@ export const MultiplayerGameOver = ({
   const animatedOpponentScore = useAnimatedCounter(opponentScore)
   const { username } = useUserStore()
   const hasSubmittedRef = useRef(false)
+  const replay = useReplayStore((state) => state.lastReplays.multiplayer ?? null)
+  const [showReplay, setShowReplay] = useState(false)
   
   // Submit score to leaderboard when component mounts
   useEffect(() => {
@@ -130,6 +137,10 @@ export const MultiplayerGameOver = ({
   }
   
   const resultState = getResultState()
+
+  if (showReplay && replay) {
+    return <ReplayViewer replay={replay} onClose={() => setShowReplay(false)} />
+  }
   
   const getIcon = () => {
     if (isTie) return '🤝'
@@ -188,6 +199,27 @@ export const MultiplayerGameOver = ({
           </div>
         </div>
 
+        {/* Rating change */}
+        {ratingChange && (
+          <div className="multiplayer-gameover__rating">
+            <span className="multiplayer-gameover__rating-label">Rating</span>
+            <span className="multiplayer-gameover__rating-values">
+              {ratingChange.before} → {ratingChange.after}
+            </span>
+            <span
+              className={`multiplayer-gameover__rating-delta ${
+                ratingChange.delta > 0
+                  ? 'multiplayer-gameover__rating-delta--up'
+                  : ratingChange.delta < 0
+                    ? 'multiplayer-gameover__rating-delta--down'
+                    : ''
+              }`}
+            >
+              {ratingChange.delta > 0 ? '+' : ''}{ratingChange.delta}
+            </span>
+          </div>
+        )}
+
         {/* Action buttons with stagger animation */}
         <div className="multiplayer-gameover__actions">
           <button 
@@ -196,6 +228,14 @@ export const MultiplayerGameOver = ({
           >
             Rematch
           </button>
+          {replay && (
+            <button 
+              className="game-btn game-btn--secondary multiplayer-gameover__btn multiplayer-gameover__btn--replay" 
+              onClick={() => setShowReplay(true)}
+            >
+              Watch Replay
+            </button>
+          )}
           <button 
             className="game-btn game-btn--secondary multiplayer-gameover__btn multiplayer-gameover__btn--leave" 
             onClick={onLeave}
@@ -1,12 +1,12 @@
 /**
  * MultiplayerMenu Component
- * Entry point for multiplayer mode - Create or Join room
+ * Entry point for multiplayer mode - Quick Match, Create or Join room
  */
 
 import { useState, useCallback, useEffect, useRef } from 'react'
 import { useUserStore } from '@/state/userStore'
 import { useMultiplayerStore } from '@/state/multiplayerStore'
-import { useMultiplayerRoom } from '@/multiplayer'
+import { useMultiplayerRoom, useQuickMatch } from '@/multiplayer'
 import { WaitingRoom } from './WaitingRoom'
 import { UsernamePrompt } from './UsernamePrompt'
 import { MultiplayerPlayfield } from './MultiplayerPlayfield'
@@ -15,18 +15,19 @@ interface MultiplayerMenuProps {
   onBack: () => void
 }
 
-type MenuView = 'menu' | 'username' | 'join' | 'waiting'
+type MenuView = 'menu' | 'username' | 'join' | 'waiting' | 'searching'
 
 export const MultiplayerMenu = ({ onBack }: MultiplayerMenuProps) => {
   const { username, setUsername } = useUserStore()
   const { pendingRoomCode, clearPendingRoomCode } = useMultiplayerStore()
   const { roomCode, roomState, createRoom, joinRoom, leaveRoom } = useMultiplayerRoom()
+  const quickMatch = useQuickMatch()
   
   const [view, setView] = useState<MenuView>('menu')
   const [joinCode, setJoinCode] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
-  const [pendingAction, setPendingAction] = useState<'create' | 'join' | null>(null)
+  const [pendingAction, setPendingAction] = useState<'quick' | 'create' | 'join' | null>(null)
   const hasHandledInvite = useRef(false)
   
   // Handle pending invite code on mount
@@ -46,6 +47,13 @@ export const MultiplayerMenu = ({ onBack }: MultiplayerMenuProps) => {
     }
   }, [pendingRoomCode, username])
   
+  // Quick Match found a room - move on to the waiting room
+  useEffect(() => {
+    if (quickMatch.status === 'matched') {
+      setView('waiting')
+    }
+  }, [quickMatch.status])
+
   const handleAutoJoin = useCallback(async (code: string, name: string) => {
     setIsLoading(true)
     setError(null)
@@ -63,6 +71,23 @@ export const MultiplayerMenu = ({ onBack }: MultiplayerMenuProps) => {
     setIsLoading(false)
   }, [joinRoom, clearPendingRoomCode])
 
+  const handleQuickMatch = useCallback(async (name: string) => {
+    setError(null)
+    setView('searching')
+
+    // A search the player cancelled has already gone back to the menu
+    const result = await quickMatch.startSearch(name)
+    if (result === 'error') {
+      setView('menu')
+      setError('Matchmaking is unavailable right now. Please try again.')
+    }
+  }, [quickMatch])
+
+  const handleCancelQuickMatch = useCallback(async () => {
+    await quickMatch.cancelSearch()
+    setView('menu')
+  }, [quickMatch])
+
   const handleCreateRoom = useCallback(async () => {
     const name = username || 'Player'
     setIsLoading(true)
@@ -100,7 +125,9 @@ export const MultiplayerMenu = ({ onBack }: MultiplayerMenuProps) => {
     setUsername(name)
     
     // Proceed with pending action
-    if (pendingAction === 'create') {
+    if (pendingAction === 'quick') {
+      handleQuickMatch(name)
+    } else if (pendingAction === 'create') {
       setIsLoading(true)
       const code = await createRoom(name)
       if (code) {
@@ -118,7 +145,16 @@ export const MultiplayerMenu = ({ onBack }: MultiplayerMenuProps) => {
       }
     }
     setPendingAction(null)
-  }, [pendingAction, createRoom, setUsername, joinCode, handleAutoJoin])
+  }, [pendingAction, createRoom, setUsername, joinCode, handleAutoJoin, handleQuickMatch])
+
+  const handleQuickMatchClick = useCallback(() => {
+    if (!username) {
+      setPendingAction('quick')
+      setView('username')
+    } else {
+      handleQuickMatch(username)
+    }
+  }, [username, handleQuickMatch])
 
   const handleCreateClick = useCallback(() => {
     if (!username) {
@@ -173,6 +209,50 @@ export const MultiplayerMenu = ({ onBack }: MultiplayerMenuProps) => {
     )
   }
 
+  // Quick Match search view
+  if (view === 'searching') {
+    const seconds = Math.floor(quickMatch.elapsedMs / 1000)
+    const range = Number.isFinite(quickMatch.eloWindow)
+      ? `±${quickMatch.eloWindow}`
+      : 'any rating'
+
+    return (
+      <div className="game-screen-overlay">
+        <div className="game-screen">
+          <div className="game-screen__icon multiplayer-menu__searching-icon">🎲</div>
+          <h1 className="game-screen__title">Finding Opponent</h1>
+          <p className="game-screen__subtitle">
+            Searching for a player near your rating...
+          </p>
+
+          <div className="multiplayer-menu__search-stats">
+            <span className="multiplayer-menu__search-stat">
+              <span className="multiplayer-menu__search-label">Rating</span>
+              <span className="multiplayer-menu__search-value">{quickMatch.elo ?? '—'}</span>
+            </span>
+            <span className="multiplayer-menu__search-stat">
+              <span className="multiplayer-menu__search-label">Range</span>
+              <span className="multiplayer-menu__search-value">{range}</span>
+            </span>
+            <span className="multiplayer-menu__search-stat">
+              <span className="multiplayer-menu__search-label">Waiting</span>
+              <span className="multiplayer-menu__search-value">{seconds}s</span>
+            </span>
+          </div>
+
+          <div className="game-screen__actions">
+            <button
+              className="game-btn game-btn--secondary"
+              onClick={handleCancelQuickMatch}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   // Join room view
   if (view === 'join') {
     return (
@@ -245,6 +325,18 @@ export const MultiplayerMenu = ({ onBack }: MultiplayerMenuProps) => {
         )}
 
         <div className="multiplayer-menu__options">
+          <button 
+            className="multiplayer-menu__option"
+            onClick={handleQuickMatchClick}
+            disabled={isLoading}
+          >
+            <span className="multiplayer-menu__option-icon">🎲</span>
+            <span className="multiplayer-menu__option-text">
+              <span className="multiplayer-menu__option-title">Quick Match</span>
+              <span className="multiplayer-menu__option-desc">Get paired with a player near your rating</span>
+            </span>
+          </button>
+
           <button 
             className="multiplayer-menu__option"
             onClick={handleCreateClick}
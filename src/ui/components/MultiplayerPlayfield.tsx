@@ -8,8 +8,10 @@ import { useCallback, useEffect, useRef, useState } from 'react'
 import { useHandData } from '@/cv'
 import { useGameStore } from '@/state/gameStore'
 import { useInputModeStore } from '@/state/inputModeStore'
+import { useReplayStore } from '@/state/replayStore'
 import { useMultiplayerRoom, SeededRNG, updateRoomState, useWebRTC } from '@/multiplayer'
-import { FruitGame } from '@/game'
+import { BOMB_PENALTY, FruitGame, formatHitsLeftPopup, getFruitPoints, getFruitPopupTone } from '@/game'
+import { audioEngine } from '@/audio'
 import { useGestureDetection } from '@/services/useGestureDetection'
 import { useFallbackInput } from '@/services/useFallbackInput'
 import { GestureTrailCanvas } from './GestureTrailCanvas'
@@ -64,16 +66,16 @@ function transformGestureToCanvasSpace(
   }
   
   // Transform coordinates from video space to canvas space
-  const transformedX = (gesture.origin.x - offsetX) / scaleX
-  const transformedY = (gesture.origin.y - offsetY) / scaleY
+  const toCanvas = (point: { x: number; y: number; z: number }) => ({
+    x: Math.max(0, Math.min(1, (point.x - offsetX) / scaleX)),
+    y: Math.max(0, Math.min(1, (point.y - offsetY) / scaleY)),
+    z: point.z,
+  })
   
   return {
     ...gesture,
-    origin: {
-      x: Math.max(0, Math.min(1, transformedX)),
-      y: Math.max(0, Math.min(1, transformedY)),
-      z: gesture.origin.z,
-    },
+    origin: toCanvas(gesture.origin),
+    previous: gesture.previous && toCanvas(gesture.previous),
   }
 }
 
@@ -92,6 +94,7 @@ export const MultiplayerPlayfield = ({ onExit }: MultiplayerPlayfieldProps) => {
     roomId,
     roomState,
     seed,
+    room,
     opponent,
     localPlayer,
     winner,
@@ -309,11 +312,20 @@ export const MultiplayerPlayfield = ({ onExit }: MultiplayerPlayfieldProps) => {
     }
   }, [roomState, isHost, roomId])
 
+  // Beep on each countdown number
+  useEffect(() => {
+    if (countdown !== null) {
+      audioEngine.playCountdown(countdown)
+    }
+  }, [countdown])
+
   // Start game when countdown ends
   useEffect(() => {
     // Don't reinitialize if game has already ended or already initialized
     if (roomState === 'playing' && !isPlaying && seed && !gameEnded && !gameInitializedRef.current) {
       gameInitializedRef.current = true
+      audioEngine.playCountdown(0)
+      audioEngine.startMusic()
       setIsPlaying(true)
       setGameTime(30)
       setMyScore(0)
@@ -336,6 +348,7 @@ export const MultiplayerPlayfield = ({ onExit }: MultiplayerPlayfieldProps) => {
           game.setOnFruitSpawn(() => {
             // Could sync spawn data if needed for opponent view
           })
+          game.startRecording(seed, { mode: 'multiplayer', roundDuration: 30 })
           game.start()
           myGameRef.current = game
           // Ensure proper sizing after a short delay
@@ -347,6 +360,7 @@ export const MultiplayerPlayfield = ({ onExit }: MultiplayerPlayfieldProps) => {
           const game = new FruitGame(opponentCanvasRef.current)
           const rng = new SeededRNG(seed) // Same seed = same spawns
           game.setSeededRNG(rng)
+          game.setSoundEnabled(false) // Only your own slices make noise
           game.start()
           opponentGameRef.current = game
           // Ensure proper sizing after a short delay
@@ -431,6 +445,10 @@ export const MultiplayerPlayfield = ({ onExit }: MultiplayerPlayfieldProps) => {
           ...activeGesture.origin,
           x: 1 - activeGesture.origin.x,
         },
+        previous: activeGesture.previous && {
+          ...activeGesture.previous,
+          x: 1 - activeGesture.previous.x,
+        },
         direction: {
           x: -activeGesture.direction.x,
           y: activeGesture.direction.y,
@@ -446,35 +464,55 @@ export const MultiplayerPlayfield = ({ onExit }: MultiplayerPlayfieldProps) => {
     }
 
     // Try transformed coordinates first, then original as fallback
-    let result = myGameRef.current.handleGesture(transformed)
-    if (!result && !isFallbackMode) {
-      result = myGameRef.current.handleGesture(activeGesture)
+    const game = myGameRef.current
+    let results = game.handleGesture(transformed)
+    if (!results.length && !isFallbackMode) {
+      results = game.handleGesture(activeGesture)
     }
-    if (result) {
+    if (!results.length) return
+
+    // Catalog points per fruit, doubled only by the power-up: the score verifier re-scores every slice that way
+    let newScore = myScore
+    let newCombo = myCombo
+    let newMaxCombo = myMaxCombo
+    results.forEach((result) => {
+      // Tough fruit are only reported once they break open
+      if (result.hitsLeft > 0) {
+        game.showScorePopup(result.position, formatHitsLeftPopup(result.hitsLeft))
+        return
+      }
+      const scoreDelta = result.isBomb ? -BOMB_PENALTY : getFruitPoints('multiplayer', 0, result.points, result.doublePoints)
       if (result.isBomb) {
         // Hit a bomb
         resetCombo()
-        setMyCombo(0)
-        setMyScore((prev) => Math.max(0, prev - 10))
+        newCombo = 0
+        newScore = Math.max(0, newScore - BOMB_PENALTY)
         setBombHit(true)
         setTimeout(() => setBombHit(false), 200)
+        game.showScorePopup(result.position, `-${BOMB_PENALTY}`, 'penalty')
       } else {
         // Sliced a fruit
-        const scoreDelta = 10
-        const newScore = myScore + scoreDelta
-        const newCombo = myCombo + 1
-        const newMaxCombo = Math.max(myMaxCombo, newCombo)
-        
-        setMyScore(newScore)
-        setMyCombo(newCombo)
-        setMyMaxCombo(newMaxCombo)
-
-        // Report slice for opponent visualization (no throttling - it's just updating one field)
-        if (roomId) {
-          reportSlice(result.fruitId, { x: transformed.origin.x, y: transformed.origin.y })
-        }
+        newScore += scoreDelta
+        newCombo += 1
+        newMaxCombo = Math.max(newMaxCombo, newCombo)
+        audioEngine.playCombo(newCombo)
+        game.showScorePopup(result.position, `+${scoreDelta}`, getFruitPopupTone(result.points))
       }
-    }
+      game.recordSlice({ fruitId: result.fruitId, scoreDelta, slicedAt: Date.now() })
+
+      // Bomb hits are part of the verified slice log too; also drives the opponent's view
+      if (roomId) {
+        reportSlice(
+          result.fruitId,
+          { x: transformed.origin.x, y: transformed.origin.y },
+          { tick: game.getTick(), scoreDelta }
+        )
+      }
+    })
+
+    setMyScore(newScore)
+    setMyCombo(newCombo)
+    setMyMaxCombo(newMaxCombo)
   }, [activeGesture, isPlaying, myScore, myCombo, myMaxCombo, videoElement, isFallbackMode])
 
   // Throttled score sync - max once per 300ms (barely perceptible delay)
@@ -548,20 +586,27 @@ export const MultiplayerPlayfield = ({ onExit }: MultiplayerPlayfieldProps) => {
     // Stop games
     myGameRef.current?.stop()
     opponentGameRef.current?.stop()
+    audioEngine.stopMusic()
+    audioEngine.playRoundEnd()
+
+    const replay = myGameRef.current?.stopRecording(myScore, localPlayer?.name)
+    if (replay) {
+      useReplayStore.getState().saveReplay(replay)
+    }
 
     // Final score sync
     if (roomId) {
       await syncScore(myScore, myCombo, myMaxCombo)
       await endGame()
     }
-  }, [roomId, myScore, myCombo, myMaxCombo, syncScore, endGame])
+  }, [roomId, myScore, myCombo, myMaxCombo, localPlayer?.name, syncScore, endGame])
 
-  // Handle game over when time reaches 0
+  // Handle game over when time reaches 0, or when the opponent's client already finished the match
   useEffect(() => {
-    if (gameTime === 0 && isPlaying && !gameEnded) {
+    if ((gameTime === 0 || roomState === 'finished') && isPlaying && !gameEnded) {
       handleGameEnd()
     }
-  }, [gameTime, isPlaying, gameEnded, handleGameEnd])
+  }, [gameTime, roomState, isPlaying, gameEnded, handleGameEnd])
 
   const handleRematch = useCallback(async () => {
     // Reconnect WebRTC if connection is not healthy
@@ -586,6 +631,7 @@ export const MultiplayerPlayfield = ({ onExit }: MultiplayerPlayfieldProps) => {
 
     if (timerRef.current) clearInterval(timerRef.current)
     if (syncIntervalRef.current) clearInterval(syncIntervalRef.current)
+    audioEngine.stopMusic()
 
     await leaveRoom()
     reset()
@@ -599,6 +645,8 @@ export const MultiplayerPlayfield = ({ onExit }: MultiplayerPlayfieldProps) => {
       opponentGameRef.current?.dispose()
       if (timerRef.current) clearInterval(timerRef.current)
       if (syncIntervalRef.current) clearInterval(syncIntervalRef.current)
+      // Leaving mid-match (e.g. via the header) mustn't leave the music playing
+      audioEngine.stopMusic()
     }
   }, [])
 
@@ -606,13 +654,14 @@ export const MultiplayerPlayfield = ({ onExit }: MultiplayerPlayfieldProps) => {
   if (roomState === 'finished') {
     return (
       <MultiplayerGameOver
-        myScore={myScore}
+        myScore={(localPlayer && room?.verifiedScores?.[localPlayer.id]) ?? myScore}
         myMaxCombo={myMaxCombo}
-        opponentScore={opponent?.score || 0}
+        opponentScore={(opponent && room?.verifiedScores?.[opponent.id]) ?? opponent?.score ?? 0}
         opponentMaxCombo={opponent?.maxCombo || 0}
         opponentName={opponent?.name || 'Opponent'}
         isWinner={winner.isWinner}
         isTie={winner.isTie}
+        ratingChange={localPlayer ? room?.ratingChanges?.[localPlayer.id] : null}
         onRematch={handleRematch}
         onLeave={handleLeave}
       />
@@ -0,0 +1,78 @@
+/**
+ * PauseOverlay Component
+ * Pause menu for a solo round, then a short countdown back into play
+ */
+
+import { useEffect, useRef } from 'react'
+import { useGameStore } from '@/state/gameStore'
+import { audioEngine } from '@/audio'
+import { useGestureMenu } from '@/services/useGestureMenu'
+import type { PauseReason } from '@/types'
+
+interface PauseOverlayProps {
+  onQuit: () => void
+}
+
+const PAUSE_COPY: Record<PauseReason, { icon: string; title: string; message: string }> = {
+  manual: { icon: '⏸️', title: 'Paused', message: 'Take a breather.' },
+  hidden: { icon: '👀', title: 'Paused', message: 'The round paused while you were away.' },
+  'no-hands': { icon: '✋', title: 'Lost your hands', message: 'Show your hand to the camera to carry on.' },
+}
+
+export const PauseOverlay = ({ onQuit }: PauseOverlayProps) => {
+  const { pauseReason, resumeCountdown, timeRemaining, lives, gameMode, requestResume, tickResumeCountdown } = useGameStore()
+  const overlayRef = useRef<HTMLDivElement>(null)
+  // A pinch away from the buttons resumes
+  useGestureMenu(overlayRef)
+
+  // Count down once per second, beeping on each number
+  useEffect(() => {
+    if (resumeCountdown === null) return
+    audioEngine.playCountdown(resumeCountdown)
+    const timer = window.setTimeout(() => {
+      if (resumeCountdown === 1) audioEngine.playCountdown(0)
+      tickResumeCountdown()
+    }, 1000)
+    return () => clearTimeout(timer)
+  }, [resumeCountdown, tickResumeCountdown])
+
+  if (resumeCountdown !== null) {
+    return (
+      <div className="game-screen-overlay game-screen-overlay--translucent">
+        <div className="pause-overlay__countdown">
+          <div className="multiplayer-countdown">
+            <span className="multiplayer-countdown__number">{resumeCountdown}</span>
+          </div>
+          <h1 className="multiplayer-countdown__text">Get Ready!</h1>
+        </div>
+      </div>
+    )
+  }
+
+  const copy = PAUSE_COPY[pauseReason ?? 'manual']
+
+  return (
+    <div className="game-screen-overlay" ref={overlayRef}>
+      <div className="game-screen">
+        <div className="game-screen__icon">{copy.icon}</div>
+        <h1 className="game-screen__title">{copy.title}</h1>
+        <p className="game-screen__subtitle">
+          {copy.message}<br />
+          {gameMode === 'classic'
+            ? `${lives} ${lives === 1 ? 'life' : 'lives'} left.`
+            : `${timeRemaining}s left on the clock.`}
+        </p>
+
+        <div className="game-screen__actions">
+          <button className="game-btn" onClick={requestResume}>
+            Resume
+          </button>
+          {/* A hand resting here shouldn't end the round; quitting takes a pinch */}
+          <button className="game-btn game-btn--secondary" onClick={onQuit} data-no-dwell>
+            Quit Round
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
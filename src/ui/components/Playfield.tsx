@@ -1,12 +1,22 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useHandData } from '@/cv'
-import { useGameStore } from '@/state/gameStore'
+import { audioEngine } from '@/audio'
+import { selectModeHighScore, useGameStore } from '@/state/gameStore'
 import { useMultiplayerStore } from '@/state/multiplayerStore'
 import { useInputModeStore } from '@/state/inputModeStore'
+import { useDailyStore } from '@/state/dailyStore'
+import { useUserStore } from '@/state/userStore'
+import { useActiveCalibration, useCalibrationStore } from '@/state/calibrationStore'
+import type { CalibrationProfile } from '@/services/calibration'
 import { FruitLayer } from '@/ui/components/FruitCanvas'
 import { StartScreen, GameOverScreen } from '@/ui/components/GameScreens'
 import { ChallengeBanner } from '@/ui/components/ChallengeBanner'
 import { LoadingScreen } from '@/ui/components/LoadingScreen'
+import { PauseOverlay } from '@/ui/components/PauseOverlay'
+import { CalibrationWizard } from '@/ui/components/CalibrationWizard'
+
+// How long the camera can lose every hand before the round pauses itself
+const NO_HANDS_PAUSE_MS = 3000
 
 const STATUS_COPY: Record<string, string> = {
   idle: 'Waiting for camera...',
@@ -19,14 +29,20 @@ const STATUS_COPY: Record<string, string> = {
 export const Playfield = () => {
   const { frame, status, error, videoRef, restart } = useHandData()
   const [localVideo, setLocalVideo] = useState<HTMLVideoElement | null>(null)
-  const { phase, isPlaying, score, highScore, challengeTarget, setChallengeTarget, syncHighScore, startRound, tickTimer, reset } = useGameStore()
+  const { phase, isPlaying, score, gameMode, challengeTarget, setChallengeTarget, setGameMode, setPhase, syncHighScore, startRound, tickTimer, pause, requestResume, pauseReason, reset } = useGameStore()
+  const highScore = useGameStore(selectModeHighScore)
   const { roomId, roomState } = useMultiplayerStore()
   const { inputMode } = useInputModeStore()
   const timerRef = useRef<number | null>(null)
   const [prevHighScore, setPrevHighScore] = useState(highScore)
+  const calibration = useActiveCalibration()
+  // Whether the calibration in progress was triggered by Start (so a round follows it)
+  const [calibratingBeforeRound, setCalibratingBeforeRound] = useState(false)
+  const [skippedCalibration, setSkippedCalibration] = useState(false)
 
   const handsDetected = frame?.hands.length ?? 0
   const isFallbackMode = inputMode === 'fallback'
+  const isRunning = phase === 'running'
   
   // Check if multiplayer is active (in a room and game is in progress)
   const isMultiplayerActive = roomId && (roomState === 'countdown' || roomState === 'playing' || roomState === 'finished')
@@ -71,9 +87,9 @@ export const Playfield = () => {
     }
   }, [localVideo])
 
-  // Timer tick effect
+  // Timer tick effect (frozen while paused; Classic has no timer)
   useEffect(() => {
-    if (isPlaying) {
+    if (isPlaying && isRunning && gameMode !== 'classic') {
       timerRef.current = window.setInterval(() => {
         tickTimer()
       }, 1000)
@@ -88,24 +104,118 @@ export const Playfield = () => {
         clearInterval(timerRef.current)
       }
     }
-  }, [isPlaying, tickTimer])
+  }, [isPlaying, isRunning, gameMode, tickTimer])
 
-  const handleStart = useCallback(() => {
+  // Music and cues follow the round as the store changes
+  useEffect(
+    () =>
+      useGameStore.subscribe((state, prev) => {
+        if (state.recentSlice && state.recentSlice !== prev.recentSlice) audioEngine.playCombo(state.combo)
+        if (state.level > prev.level && state.isPlaying) audioEngine.playLevelUp()
+        if (state.phase === prev.phase) return
+        if (state.phase === 'running') {
+          // A new round, or back from a pause
+          audioEngine.startMusic()
+        } else if (prev.phase === 'running' || prev.phase === 'paused') {
+          audioEngine.stopMusic()
+          if (state.phase === 'game-over') audioEngine.playRoundEnd()
+        }
+      }),
+    []
+  )
+
+  // Pause when the tab is hidden
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) pause('hidden')
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [pause])
+
+  // Pause with Escape or P
+  useEffect(() => {
+    if (!isRunning) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' || event.key === 'p' || event.key === 'P') pause('manual')
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isRunning, pause])
+
+  // Pause with a held open palm
+  useEffect(() => {
+    if (!isRunning) return
+    return useGameStore.subscribe((state, prev) => {
+      if (state.lastPose !== prev.lastPose && state.lastPose?.type === 'open-palm') pause('manual')
+    })
+  }, [isRunning, pause])
+
+  // Pause when the player walks away, and pick back up when their hand returns
+  useEffect(() => {
+    if (isFallbackMode || status !== 'ready') return
+    if (isRunning && handsDetected === 0) {
+      const timer = window.setTimeout(() => pause('no-hands'), NO_HANDS_PAUSE_MS)
+      return () => clearTimeout(timer)
+    }
+    if (phase === 'paused' && pauseReason === 'no-hands' && handsDetected > 0) {
+      requestResume()
+    }
+  }, [isRunning, phase, pauseReason, handsDetected, isFallbackMode, status, pause, requestResume])
+
+  const beginRound = useCallback(() => {
     setPrevHighScore(highScore)
+    if (gameMode === 'daily') {
+      useDailyStore.getState().beginAttempt()
+    }
     startRound()
-  }, [startRound, highScore])
+  }, [startRound, highScore, gameMode])
+
+  // First camera round for a player goes through calibration
+  const handleStart = useCallback(() => {
+    if (!isFallbackMode && !calibration && !skippedCalibration) {
+      setCalibratingBeforeRound(true)
+      setPhase('calibrating')
+      return
+    }
+    beginRound()
+  }, [isFallbackMode, calibration, skippedCalibration, setPhase, beginRound])
+
+  const handleCalibrate = useCallback(() => {
+    setCalibratingBeforeRound(false)
+    setPhase('calibrating')
+  }, [setPhase])
+
+  const handleCalibrationComplete = useCallback((profile: CalibrationProfile) => {
+    useCalibrationStore.getState().saveProfile(useUserStore.getState().username, profile)
+    setPhase('idle')
+    if (calibratingBeforeRound) beginRound()
+  }, [calibratingBeforeRound, setPhase, beginRound])
+
+  const handleCalibrationCancel = useCallback(() => {
+    setPhase('idle')
+    if (calibratingBeforeRound) {
+      setSkippedCalibration(true)
+      beginRound()
+    }
+  }, [calibratingBeforeRound, setPhase, beginRound])
 
   const handleRestart = useCallback(() => {
     setPrevHighScore(highScore)
     reset()
+    // Play Again stays in the mode that was just played
+    setGameMode(gameMode)
+    if (gameMode === 'daily') {
+      useDailyStore.getState().beginAttempt()
+    }
     startRound()
-  }, [reset, startRound, highScore])
+  }, [reset, setGameMode, startRound, highScore, gameMode])
 
   const handleBackToMenu = useCallback(() => {
     reset()
   }, [reset])
 
-  const isNewHighScore = phase === 'game-over' && score > prevHighScore
+  const isNewHighScore = phase === 'game-over' && (gameMode === 'solo' || gameMode === 'zen' || gameMode === 'classic') && score > prevHighScore
 
   const banner = useMemo(() => {
     // In fallback mode, don't show camera-related banners
@@ -162,15 +272,34 @@ export const Playfield = () => {
           <ChallengeBanner />
         )}
         
-        {/* Back to Menu button during gameplay */}
+        {/* Back to Menu and Pause buttons during gameplay */}
         {phase === 'running' && (
-          <button 
-            className="game-menu-btn"
-            onClick={handleBackToMenu}
-            aria-label="Back to menu"
-          >
-            ✕
-          </button>
+          <>
+            <button 
+              className="game-menu-btn"
+              onClick={handleBackToMenu}
+              aria-label="Back to menu"
+            >
+              ✕
+            </button>
+            <button
+              className="game-menu-btn game-menu-btn--pause"
+              onClick={() => pause('manual')}
+              aria-label="Pause"
+            >
+              ⏸
+            </button>
+          </>
+        )}
+
+        {phase === 'paused' && <PauseOverlay onQuit={handleBackToMenu} />}
+
+        {phase === 'calibrating' && (
+          <CalibrationWizard
+            onComplete={handleCalibrationComplete}
+            onCancel={handleCalibrationCancel}
+            startsRound={calibratingBeforeRound}
+          />
         )}
         
         {/* Loading screen overlay - skip in fallback mode */}
@@ -180,7 +309,7 @@ export const Playfield = () => {
         
         {/* Game screens overlay - show in fallback mode even if camera not ready */}
         {phase === 'idle' && (status === 'ready' || isFallbackMode) && (
-          <StartScreen onStart={handleStart} />
+          <StartScreen onStart={handleStart} onCalibrate={isFallbackMode ? undefined : handleCalibrate} />
         )}
         {phase === 'game-over' && (
           <GameOverScreen onRestart={handleRestart} onChangeMode={handleBackToMenu} isNewHighScore={isNewHighScore} />
@@ -0,0 +1,179 @@
+/**
+ * ReplayViewer Component
+ * Plays a recorded round back on its own canvas with play/pause, seek and speed controls
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  FruitGame,
+  ReplayPlayer,
+  SIMULATION_HZ,
+  encodeReplayBinary,
+  encodeReplayJSON,
+  getReplayFileName,
+  type Replay,
+  type ReplayEncoding,
+  type ReplayPlaybackState,
+} from '@/game'
+import type { GameMode } from '@/types'
+
+interface ReplayViewerProps {
+  replay: Replay
+  onClose: () => void
+}
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4]
+
+const MODE_LABELS: Record<GameMode, string> = {
+  solo: 'Solo',
+  multiplayer: 'Multiplayer',
+  daily: 'Daily',
+  classic: 'Classic',
+  zen: 'Zen',
+}
+
+const formatTicks = (ticks: number): string => {
+  const totalSeconds = Math.floor(ticks / SIMULATION_HZ)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+// Save a replay to the user's downloads
+const downloadReplay = (replay: Replay, encoding: ReplayEncoding) => {
+  const blob = encoding === 'json'
+    ? new Blob([encodeReplayJSON(replay)], { type: 'application/json' })
+    : new Blob([encodeReplayBinary(replay)], { type: 'application/octet-stream' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = getReplayFileName(replay, encoding)
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+export const ReplayViewer = ({ replay, onClose }: ReplayViewerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const playerRef = useRef<ReplayPlayer | null>(null)
+  const [playback, setPlayback] = useState<ReplayPlaybackState | null>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const game = new FruitGame(canvas)
+    const player = new ReplayPlayer(game, replay)
+    player.setOnUpdate(setPlayback)
+    playerRef.current = player
+
+    game.start()
+    game.syncViewport()
+    player.play()
+
+    return () => {
+      player.dispose()
+      game.dispose()
+      playerRef.current = null
+    }
+  }, [replay])
+
+  const handleTogglePlay = useCallback(() => {
+    const player = playerRef.current
+    if (!player) return
+    if (player.getState().playing) {
+      player.pause()
+    } else {
+      player.play()
+    }
+  }, [])
+
+  const handleSeek = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    playerRef.current?.seek(Number(event.target.value))
+  }, [])
+
+  const handleSpeed = useCallback((speed: number) => {
+    playerRef.current?.setSpeed(speed)
+  }, [])
+
+  const tick = playback?.tick ?? 0
+  const totalTicks = playback?.totalTicks ?? replay.durationTicks
+
+  return (
+    <div className="replay-viewer">
+      <div className="replay-viewer__header">
+        <div className="replay-viewer__title">
+          <span className="replay-viewer__badge">Replay</span>
+          <span className="replay-viewer__meta">
+            {replay.playerName ?? 'You'} · {MODE_LABELS[replay.settings.mode]}
+          </span>
+        </div>
+        <div className="replay-viewer__header-actions">
+          <button
+            className="replay-viewer__export"
+            onClick={() => downloadReplay(replay, 'json')}
+            title="Download as readable JSON (good for bug reports)"
+          >
+            ⬇ JSON
+          </button>
+          <button
+            className="replay-viewer__export"
+            onClick={() => downloadReplay(replay, 'binary')}
+            title="Download as a compact replay file"
+          >
+            ⬇ File
+          </button>
+          <button className="replay-viewer__close" onClick={onClose} aria-label="Close replay">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="replay-viewer__stage" style={{ aspectRatio: `${replay.settings.aspect}` }}>
+        <div className="playfield-fallback-bg" />
+        <canvas ref={canvasRef} className="replay-viewer__canvas" />
+        <div className="replay-viewer__hud">
+          <span className="replay-viewer__score">{(playback?.score ?? 0).toLocaleString()}</span>
+          {playback && playback.combo > 1 && (
+            <span className="replay-viewer__combo">x{playback.combo}</span>
+          )}
+          {playback?.lives !== null && playback?.lives !== undefined && (
+            <span className="replay-viewer__lives">{'❤️'.repeat(playback.lives)}</span>
+          )}
+        </div>
+      </div>
+
+      <div className="replay-viewer__controls">
+        <button
+          className="replay-viewer__play"
+          onClick={handleTogglePlay}
+          aria-label={playback?.playing ? 'Pause' : 'Play'}
+        >
+          {playback?.playing ? '⏸' : '▶'}
+        </button>
+        <span className="replay-viewer__time">{formatTicks(tick)}</span>
+        <input
+          className="replay-viewer__seek"
+          type="range"
+          min={0}
+          max={totalTicks}
+          step={1}
+          value={tick}
+          onChange={handleSeek}
+          aria-label="Seek"
+        />
+        <span className="replay-viewer__time">{formatTicks(totalTicks)}</span>
+        <div className="replay-viewer__speeds">
+          {PLAYBACK_SPEEDS.map((speed) => (
+            <button
+              key={speed}
+              className={`replay-viewer__speed ${playback?.speed === speed ? 'replay-viewer__speed--active' : ''}`}
+              onClick={() => handleSpeed(speed)}
+            >
+              {speed}x
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -14,3 +14,9 @@ export * from './MultiplayerPlayfield'
 export * from './MultiplayerHUD'
 export * from './MultiplayerGameOver'
 
+export * from './ReplayViewer'
+export * from './GhostLane'
+export * from './AudioSettings'
+export * from './PauseOverlay'
+export * from './CalibrationWizard'
+export * from './HandCursor'
@@ -1,10 +1,29 @@
 import { defineConfig } from 'vite'
+import { existsSync, readFileSync } from 'node:fs'
 import { fileURLToPath, URL } from 'node:url'
 import react from '@vitejs/plugin-react'
 
+const { version } = JSON.parse(readFileSync(new URL('./package.json', import.meta.url), 'utf-8'))
+// Different for every build, so each deploy's service worker gets a cache of its own
+const buildId = `${version}-${Date.now().toString(36)}`
+
+// Written by scripts/prepare-mediapipe-assets.mjs (predev/prebuild)
+const mediapipeManifestPath = new URL('./public/mediapipe/manifest.json', import.meta.url)
+const mediapipeManifest = existsSync(mediapipeManifestPath)
+  ? JSON.stringify(JSON.parse(readFileSync(mediapipeManifestPath, 'utf-8')))
+  : ''
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  define: {
+    // Stamped into exported replays
+    'import.meta.env.VITE_APP_VERSION': JSON.stringify(version),
+    // Passed to the service worker, which names its cache after it
+    'import.meta.env.VITE_BUILD_ID': JSON.stringify(buildId),
+    // Hashes the MediaPipe assets are checked against, so they don't vouch for themselves
+    'import.meta.env.VITE_MEDIAPIPE_MANIFEST': JSON.stringify(mediapipeManifest),
+  },
   resolve: {
     alias: {
       '@': fileURLToPath(new URL('./src', import.meta.url)),